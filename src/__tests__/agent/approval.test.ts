@@ -0,0 +1,179 @@
+/**
+ * Approval Gate Tests
+ */
+
+import {
+  canApprove,
+  formatApprovalRequest,
+  getRepoApprovalTools,
+  isAutomatedAuthor,
+  parseApprovalCommand,
+  requiresApproval,
+} from '../../agent/approval';
+import { getAuthenticatedUser, getCollaboratorPermission } from '../../tools/github';
+
+jest.mock('../../tools/github', () => ({
+  ...jest.requireActual('../../tools/github'),
+  getAuthenticatedUser: jest.fn(),
+  getCollaboratorPermission: jest.fn(),
+}));
+
+const mockGetPermission = getCollaboratorPermission as jest.MockedFunction<
+  typeof getCollaboratorPermission
+>;
+const mockGetUser = getAuthenticatedUser as jest.MockedFunction<typeof getAuthenticatedUser>;
+
+describe('Approval Gate', () => {
+  describe('getRepoApprovalTools', () => {
+    const original = process.env.APPROVAL_REQUIRED_TOOLS;
+
+    afterEach(() => {
+      if (original === undefined) {
+        delete process.env.APPROVAL_REQUIRED_TOOLS;
+      } else {
+        process.env.APPROVAL_REQUIRED_TOOLS = original;
+      }
+    });
+
+    it('should combine the "*" entry with the repository entry', () => {
+      process.env.APPROVAL_REQUIRED_TOOLS = JSON.stringify({
+        '*': ['github_createPullRequest'],
+        'acme/api': ['github_createOrUpdateFile', 'github_createPullRequest'],
+      });
+
+      expect(getRepoApprovalTools('acme/api')).toEqual([
+        'github_createPullRequest',
+        'github_createOrUpdateFile',
+      ]);
+      expect(getRepoApprovalTools('acme/web')).toEqual(['github_createPullRequest']);
+    });
+
+    it('should gate nothing when unset', () => {
+      delete process.env.APPROVAL_REQUIRED_TOOLS;
+
+      expect(getRepoApprovalTools('acme/api')).toEqual([]);
+    });
+
+    it('should fail loudly on invalid configuration', () => {
+      process.env.APPROVAL_REQUIRED_TOOLS = '{not json';
+      expect(() => getRepoApprovalTools('acme/api')).toThrow(/not valid JSON/);
+
+      process.env.APPROVAL_REQUIRED_TOOLS = JSON.stringify({ '*': 'github_createPullRequest' });
+      expect(() => getRepoApprovalTools('acme/api')).toThrow(/must be a list of tool names/);
+
+      process.env.APPROVAL_REQUIRED_TOOLS = JSON.stringify({ 'acme/api': ['github_merge'] });
+      expect(() => getRepoApprovalTools('acme/api')).toThrow(/unknown tools: github_merge/);
+    });
+  });
+
+  describe('requiresApproval', () => {
+    const gated = new Set(['github_createPullRequestReview', 'github_createPullRequest']);
+
+    it('should gate listed tools only', () => {
+      expect(requiresApproval({ id: '1', name: 'github_createPullRequest', input: {} }, gated))
+        .toBe(true);
+      expect(requiresApproval({ id: '2', name: 'github_createComment', input: {} }, gated))
+        .toBe(false);
+    });
+
+    it('should not gate plain review comments', () => {
+      const review = (event: string) => ({
+        id: '3',
+        name: 'github_createPullRequestReview',
+        input: { event },
+      });
+
+      expect(requiresApproval(review('COMMENT'), gated)).toBe(false);
+      expect(requiresApproval(review('APPROVE'), gated)).toBe(true);
+      expect(requiresApproval(review('REQUEST_CHANGES'), gated)).toBe(true);
+    });
+  });
+
+  describe('formatApprovalRequest', () => {
+    it('should show the tool, its input and the job ID', () => {
+      const body = formatApprovalRequest(
+        { id: '1', name: 'github_createPullRequest', input: { title: 'Fix login' } },
+        'delivery-1'
+      );
+
+      expect(body).toContain('`github_createPullRequest`');
+      expect(body).toContain('"title": "Fix login"');
+      expect(body).toContain('/approve');
+      expect(body).toContain('<sub>Job: delivery-1</sub>');
+    });
+
+    it('should truncate long inputs', () => {
+      const body = formatApprovalRequest(
+        { id: '1', name: 'github_createOrUpdateFile', input: { content: 'x'.repeat(5000) } },
+        'delivery-1'
+      );
+
+      expect(body).toMatch(/\.\.\. \(\d+ more characters\)/);
+      expect(body.length).toBeLessThan(2500);
+    });
+  });
+
+  describe('parseApprovalCommand', () => {
+    it('should parse /approve and /reject with an optional reason', () => {
+      expect(parseApprovalCommand('/approve')).toEqual({ approved: true });
+      expect(parseApprovalCommand('  /APPROVE  ')).toEqual({ approved: true });
+      expect(parseApprovalCommand('/reject wrong base branch')).toEqual({
+        approved: false,
+        reason: 'wrong base branch',
+      });
+    });
+
+    it('should ignore other comments', () => {
+      expect(parseApprovalCommand('Looks good, /approve')).toBeNull();
+      expect(parseApprovalCommand('/approved')).toBeNull();
+      expect(parseApprovalCommand('')).toBeNull();
+    });
+  });
+
+  describe('canApprove', () => {
+    beforeEach(() => mockGetPermission.mockReset());
+
+    it('should allow write access and above', async () => {
+      mockGetPermission.mockResolvedValueOnce('maintain').mockResolvedValueOnce('triage');
+
+      await expect(canApprove('acme', 'api', 'alice')).resolves.toBe(true);
+      await expect(canApprove('acme', 'api', 'bob')).resolves.toBe(false);
+      expect(mockGetPermission).toHaveBeenCalledWith({
+        owner: 'acme',
+        repo: 'api',
+        username: 'alice',
+      });
+    });
+
+    it('should deny when the permission cannot be checked', async () => {
+      mockGetPermission.mockRejectedValue(new Error('Not Found'));
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(canApprove('acme', 'api', 'mallory')).resolves.toBe(false);
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('isAutomatedAuthor', () => {
+    it('should flag bots without looking up the agent account', async () => {
+      await expect(isAutomatedAuthor({ login: 'renovate', type: 'Bot' })).resolves.toBe(true);
+      await expect(isAutomatedAuthor({ login: 'ci[bot]' })).resolves.toBe(true);
+      expect(mockGetUser).not.toHaveBeenCalled();
+    });
+
+    it('should retry a failed lookup and then flag the agent account', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      mockGetUser
+        .mockRejectedValueOnce(new Error('Resource not accessible by integration'))
+        .mockResolvedValue({ login: 'agent-account', type: 'User' });
+
+      const self = { login: 'Agent-Account', type: 'User' };
+
+      await expect(isAutomatedAuthor(self)).resolves.toBe(false);
+      await expect(isAutomatedAuthor(self)).resolves.toBe(true);
+      await expect(isAutomatedAuthor({ login: 'alice', type: 'User' })).resolves.toBe(false);
+      expect(mockGetUser).toHaveBeenCalledTimes(2);
+      warnSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Budget Tests
+ */
+
+import {
+  DailyUsageTracker,
+  addUsage,
+  checkBudget,
+  createRunUsage,
+  getRepoDailyBudget,
+  getRunBudget,
+  tightenBudget,
+} from '../../agent/budget';
+
+describe('Budget', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    for (const name of ['RUN_TOKEN_BUDGET', 'RUN_COST_BUDGET_USD', 'REPO_DAILY_BUDGETS']) {
+      if (originalEnv[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = originalEnv[name];
+      }
+    }
+  });
+
+  describe('addUsage', () => {
+    it('should sum tokens and cost, and count calls without usage', () => {
+      const usage = createRunUsage();
+
+      addUsage(usage, { promptTokens: 100, completionTokens: 20 }, 0.5);
+      addUsage(usage, undefined, 0);
+      addUsage(usage, { promptTokens: 50, completionTokens: 10 }, 0.25);
+
+      expect(usage).toEqual({
+        llmCalls: 3,
+        promptTokens: 150,
+        completionTokens: 30,
+        totalTokens: 180,
+        costUsd: 0.75,
+      });
+    });
+  });
+
+  describe('getRunBudget', () => {
+    it('should read the per-run limits', () => {
+      process.env.RUN_TOKEN_BUDGET = '50000';
+      process.env.RUN_COST_BUDGET_USD = '0.5';
+
+      expect(getRunBudget()).toEqual({ tokens: 50000, costUsd: 0.5 });
+    });
+
+    it('should be unlimited when unset and reject invalid values', () => {
+      delete process.env.RUN_TOKEN_BUDGET;
+      delete process.env.RUN_COST_BUDGET_USD;
+      expect(getRunBudget()).toEqual({ tokens: undefined, costUsd: undefined });
+
+      process.env.RUN_TOKEN_BUDGET = '-1';
+      expect(() => getRunBudget()).toThrow(/RUN_TOKEN_BUDGET must be a positive number/);
+    });
+  });
+
+  describe('getRepoDailyBudget', () => {
+    it('should let the repository entry override "*" field by field', () => {
+      process.env.REPO_DAILY_BUDGETS = JSON.stringify({
+        '*': { tokens: 1000000, costUsd: 20 },
+        'acme/noisy': { costUsd: 5 },
+      });
+
+      expect(getRepoDailyBudget('acme/noisy')).toEqual({ tokens: 1000000, costUsd: 5 });
+      expect(getRepoDailyBudget('acme/api')).toEqual({ tokens: 1000000, costUsd: 20 });
+    });
+
+    it('should fail loudly on invalid configuration', () => {
+      process.env.REPO_DAILY_BUDGETS = 'nope';
+      expect(() => getRepoDailyBudget('acme/api')).toThrow(/not valid JSON/);
+
+      process.env.REPO_DAILY_BUDGETS = JSON.stringify({ 'acme/api': { costUsd: true } });
+      expect(() => getRepoDailyBudget('acme/api')).toThrow(/costUsd must be a positive number/);
+    });
+  });
+
+  describe('checkBudget', () => {
+    it('should report the first exhausted limit', () => {
+      const budget = { tokens: 1000, costUsd: 1 };
+
+      expect(checkBudget({ totalTokens: 999, costUsd: 0.5 }, budget, 'Run')).toBeUndefined();
+      expect(checkBudget({ totalTokens: 1000, costUsd: 0.5 }, budget, 'Run')).toBe(
+        'Run token budget used up (1000/1000 tokens)'
+      );
+      expect(checkBudget({ totalTokens: 10, costUsd: 1.2 }, budget, 'acme/api daily')).toBe(
+        'acme/api daily cost budget used up ($1.2000/$1)'
+      );
+      expect(checkBudget({ totalTokens: 1e9, costUsd: 1e9 }, {}, 'Run')).toBeUndefined();
+    });
+  });
+
+  describe('tightenBudget', () => {
+    it('should keep the lower of each limit', () => {
+      expect(tightenBudget({ tokens: 1000, costUsd: 1 }, { tokens: 500, costUsd: 2 })).toEqual({
+        tokens: 500,
+        costUsd: 1,
+      });
+      expect(tightenBudget({ tokens: 1000 }, { costUsd: 2 })).toEqual({
+        tokens: 1000,
+        costUsd: 2,
+      });
+      expect(tightenBudget({}, {})).toEqual({ tokens: undefined, costUsd: undefined });
+    });
+  });
+
+  describe('DailyUsageTracker', () => {
+    it('should sum spend per repository and UTC day', async () => {
+      const tracker = new DailyUsageTracker();
+      const morning = new Date('2026-03-01T08:00:00Z');
+      const evening = new Date('2026-03-01T23:00:00Z');
+
+      await tracker.record('job-1', 'acme/api', 100, 0.1, morning);
+      await tracker.record('job-2', 'acme/api', 50, 0.05, evening);
+      await tracker.record('job-3', 'acme/web', 10, 0.01, evening);
+
+      expect((await tracker.get('acme/api', morning)).totalTokens).toBe(150);
+      expect((await tracker.get('acme/api', morning)).costUsd).toBeCloseTo(0.15);
+      expect((await tracker.get('acme/web', morning)).totalTokens).toBe(10);
+    });
+
+    it('should start over on a new day', async () => {
+      const tracker = new DailyUsageTracker();
+
+      await tracker.record('job-1', 'acme/api', 100, 0.1, new Date('2026-03-01T23:59:00Z'));
+      await tracker.record('job-2', 'acme/api', 5, 0.01, new Date('2026-03-02T00:01:00Z'));
+
+      expect((await tracker.get('acme/api', new Date('2026-03-02T12:00:00Z'))).totalTokens).toBe(5);
+      expect((await tracker.get('acme/api', new Date('2026-03-01T12:00:00Z'))).totalTokens).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Compaction Tests
+ */
+
+import {
+  COMPACTED_MARKER,
+  ContextMeter,
+  compactMessages,
+  estimateTokens,
+  getContextTokenLimit,
+} from '../../agent/compaction';
+import { ToolResultStore } from '../../agent/toolResults';
+import { LLMMessage } from '../../llm/provider';
+
+/**
+ * Conversation with one read per turn, each returning `size` characters
+ */
+function conversation(turns: number, size: number): LLMMessage[] {
+  const messages: LLMMessage[] = [{ role: 'user', content: 'Review PR #1' }];
+  for (let i = 1; i <= turns; i++) {
+    messages.push({
+      role: 'assistant',
+      content: '',
+      toolCalls: [{ id: `call_${i}`, name: 'github_getPRDiff', input: { prNumber: 1 } }],
+    });
+    messages.push({ role: 'tool', toolCallId: `call_${i}`, content: `${i}`.repeat(size) });
+  }
+  return messages;
+}
+
+describe('estimateTokens', () => {
+  it('should count about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
+
+describe('ContextMeter', () => {
+  it('should estimate fixed text plus every message before any report', () => {
+    const meter = new ContextMeter('x'.repeat(400));
+
+    expect(meter.estimate([{ role: 'user', content: 'y'.repeat(40) }])).toBe(110);
+  });
+
+  it('should build on the reported prompt size for later messages', () => {
+    const meter = new ContextMeter('x'.repeat(400));
+    const messages: LLMMessage[] = [{ role: 'user', content: 'y'.repeat(40) }];
+
+    meter.record(500, 1);
+    messages.push({ role: 'assistant', content: 'z'.repeat(80) });
+
+    expect(meter.estimate(messages)).toBe(520);
+
+    meter.reset();
+    expect(meter.estimate(messages)).toBe(130);
+  });
+});
+
+describe('compactMessages', () => {
+  it('should compact the oldest results first and stop once under the target', () => {
+    const messages = conversation(3, 4000);
+    const store = new ToolResultStore();
+
+    // One compacted result brings 3000 tokens under the target of 2250
+    const result = compactMessages(messages, 3000, 3000, store);
+
+    expect(result.compacted).toBe(1);
+    expect(result.tokensSaved).toBeGreaterThan(800);
+    expect(messages[2].content.startsWith(COMPACTED_MARKER)).toBe(true);
+    expect(messages[2].content).toContain('github_getPRDiff, 4000 characters, ref "call_1"');
+    expect(messages[4].content).toBe('2'.repeat(4000));
+    expect(store.get('call_1')).toEqual({ tool: 'github_getPRDiff', content: '1'.repeat(4000) });
+  });
+
+  it('should never compact results after the last assistant turn', () => {
+    const messages = conversation(2, 4000);
+
+    const result = compactMessages(messages, 100000, 1000, new ToolResultStore());
+
+    expect(result.compacted).toBe(1);
+    expect(messages[4].content).toBe('2'.repeat(4000));
+  });
+
+  it('should skip short and already compacted results', () => {
+    const messages = [...conversation(2, 200), { role: 'assistant', content: '' } as LLMMessage];
+    const store = new ToolResultStore();
+
+    expect(compactMessages(messages, 100000, 1000, store).compacted).toBe(0);
+
+    const long = conversation(2, 4000);
+    compactMessages(long, 100000, 1000, store);
+    const once = long[2].content;
+    compactMessages(long, 100000, 1000, store);
+
+    expect(long[2].content).toBe(once);
+  });
+
+  it('should keep the full copy of a result that was truncated before', () => {
+    const messages = conversation(2, 4000);
+    const store = new ToolResultStore();
+    store.save('call_1', { tool: 'github_getPRDiff', content: '1'.repeat(50000) });
+
+    compactMessages(messages, 100000, 1000, store);
+
+    expect(store.get('call_1')?.content).toHaveLength(50000);
+    expect(messages[2].content).toContain('50000 characters, ref "call_1"');
+    expect(messages[2].content).toContain('Call read_tool_result with {"ref":"call_1","offset":500}');
+  });
+});
+
+describe('getContextTokenLimit', () => {
+  const original = process.env.CONTEXT_TOKEN_LIMIT;
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.CONTEXT_TOKEN_LIMIT;
+    } else {
+      process.env.CONTEXT_TOKEN_LIMIT = original;
+    }
+  });
+
+  it('should default to 120000 tokens', () => {
+    delete process.env.CONTEXT_TOKEN_LIMIT;
+
+    expect(getContextTokenLimit()).toBe(120000);
+  });
+
+  it('should reject invalid values', () => {
+    process.env.CONTEXT_TOKEN_LIMIT = '-5';
+
+    expect(() => getContextTokenLimit()).toThrow(
+      'CONTEXT_TOKEN_LIMIT must be a positive integer, got "-5"'
+    );
+  });
+});
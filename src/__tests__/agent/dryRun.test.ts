@@ -0,0 +1,98 @@
+/**
+ * Dry Run Tests
+ */
+
+import { isDryRunRepo, parseDryRunFlag, simulateWriteTool } from '../../agent/dryRun';
+
+describe('Dry Run', () => {
+  describe('isDryRunRepo', () => {
+    const originalRepos = process.env.DRY_RUN_REPOS;
+
+    afterEach(() => {
+      if (originalRepos === undefined) {
+        delete process.env.DRY_RUN_REPOS;
+      } else {
+        process.env.DRY_RUN_REPOS = originalRepos;
+      }
+    });
+
+    it('should match listed repositories case-insensitively', () => {
+      process.env.DRY_RUN_REPOS = 'acme/api, Acme/Web';
+
+      expect(isDryRunRepo('acme/web')).toBe(true);
+      expect(isDryRunRepo('acme/api')).toBe(true);
+      expect(isDryRunRepo('acme/other')).toBe(false);
+    });
+
+    it('should match every repository with *', () => {
+      process.env.DRY_RUN_REPOS = '*';
+
+      expect(isDryRunRepo('anyone/anything')).toBe(true);
+    });
+
+    it('should match nothing when unset', () => {
+      delete process.env.DRY_RUN_REPOS;
+
+      expect(isDryRunRepo('acme/api')).toBe(false);
+    });
+  });
+
+  describe('parseDryRunFlag', () => {
+    it('should accept common truthy values only', () => {
+      expect(parseDryRunFlag('true')).toBe(true);
+      expect(parseDryRunFlag('1')).toBe(true);
+      expect(parseDryRunFlag('YES')).toBe(true);
+      expect(parseDryRunFlag('false')).toBe(false);
+      expect(parseDryRunFlag(undefined)).toBe(false);
+      expect(parseDryRunFlag(['true'])).toBe(false);
+    });
+  });
+
+  describe('simulateWriteTool', () => {
+    it('should return a pull request shaped like the real one', () => {
+      const input = { owner: 'acme', repo: 'api', title: 'Fix', head: 'fix/1', base: 'main' };
+      const pr = simulateWriteTool('github_createPullRequest', input) as Record<string, unknown>;
+
+      expect(pr).toMatchObject({
+        title: 'Fix',
+        state: 'open',
+        head: { ref: 'fix/1', sha: expect.stringMatching(/^[0-9a-f]{40}$/) },
+        base: { ref: 'main' },
+      });
+      expect(pr.html_url).toBe(`https://github.com/acme/api/pull/${pr.number}`);
+    });
+
+    it('should derive the same fake values from the same arguments', () => {
+      const input = { owner: 'acme', repo: 'api', branch: 'fix/1' };
+
+      expect(simulateWriteTool('github_createBranch', input)).toEqual(
+        simulateWriteTool('github_createBranch', input)
+      );
+    });
+
+    it('should map review events to review states', () => {
+      const review = simulateWriteTool('github_createPullRequestReview', {
+        owner: 'acme',
+        repo: 'api',
+        pullNumber: 5,
+        body: 'Looks good',
+        event: 'REQUEST_CHANGES',
+      });
+
+      expect(review).toMatchObject({ state: 'CHANGES_REQUESTED', body: 'Looks good' });
+    });
+
+    it('should simulate file commits with a commit URL', () => {
+      const commit = simulateWriteTool('github_createOrUpdateFile', {
+        owner: 'acme',
+        repo: 'api',
+        path: 'src/a.ts',
+        content: 'x',
+        message: 'Fix',
+        branch: 'fix/1',
+      }) as { commitSha: string; commitUrl: string };
+
+      expect(commit.commitUrl).toBe(`https://github.com/acme/api/commit/${commit.commitSha}`);
+    });
+  });
+});
@@ -2,10 +2,15 @@
  * Agent Prompt Tests
  */
 
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import {
   getBasePrompt,
   getContextPrompt,
+  getContextType,
   buildSystemPrompt,
+  loadPromptTemplate,
 } from '../../agent/prompt';
 
 describe('Agent Prompt', () => {
@@ -24,6 +29,23 @@ describe('Agent Prompt', () => {
       expect(prompt).toContain('Control Plane');
     });
 
+    it('should name the templates directory when base.md is missing', () => {
+      const original = process.env.PROMPTS_DIR;
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompts-'));
+      process.env.PROMPTS_DIR = dir;
+
+      try {
+        expect(() => getBasePrompt()).toThrow(`Prompt template "base" not found in ${dir}`);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+        if (original === undefined) {
+          delete process.env.PROMPTS_DIR;
+        } else {
+          process.env.PROMPTS_DIR = original;
+        }
+      }
+    });
+
     it('should explain skills concept', () => {
       const prompt = getBasePrompt();
 
@@ -72,6 +94,12 @@ describe('Agent Prompt', () => {
       expect(prompt).toContain('Comment');
     });
 
+    it('should return push, scheduled and manual run context prompts', () => {
+      expect(getContextPrompt('github_push')).toContain('## GitHub Push Context');
+      expect(getContextPrompt('scheduled_run')).toContain('## Scheduled Run Context');
+      expect(getContextPrompt('manual_run')).toContain('## Manual Run Context');
+    });
+
     it('should return empty string for unknown context', () => {
       const prompt = getContextPrompt('unknown_context');
 
@@ -79,6 +107,65 @@ describe('Agent Prompt', () => {
     });
   });
 
+  describe('getContextType', () => {
+    it('should map event types to context types', () => {
+      expect(getContextType('issues')).toBe('github_issue');
+      expect(getContextType('pull_request')).toBe('github_pull_request');
+      expect(getContextType('issue_comment')).toBe('github_issue_comment');
+      expect(getContextType('push')).toBe('github_push');
+      expect(getContextType('schedule')).toBe('scheduled_run');
+      expect(getContextType('manual')).toBe('manual_run');
+      expect(getContextType('release')).toBeUndefined();
+    });
+  });
+
+  describe('loadPromptTemplate', () => {
+    const original = process.env.PROMPT_OVERRIDES_DIR;
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompts-'));
+      process.env.PROMPT_OVERRIDES_DIR = dir;
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+      if (original === undefined) {
+        delete process.env.PROMPT_OVERRIDES_DIR;
+      } else {
+        process.env.PROMPT_OVERRIDES_DIR = original;
+      }
+    });
+
+    it('should prefer the repository override, then the shared override', () => {
+      fs.mkdirSync(path.join(dir, 'acme', 'web'), { recursive: true });
+      fs.writeFileSync(path.join(dir, 'acme', 'web', 'github_push.md'), 'web push');
+      fs.writeFileSync(path.join(dir, 'github_push.md'), 'any push');
+
+      expect(loadPromptTemplate('github_push', 'acme/web')).toBe('web push');
+      expect(loadPromptTemplate('github_push', 'acme/api')).toBe('any push');
+      expect(loadPromptTemplate('github_push')).toBe('any push');
+    });
+
+    it('should fall back to the built-in template', () => {
+      expect(loadPromptTemplate('github_issue', 'acme/web')).toContain('## GitHub Issue Context');
+    });
+
+    it('should apply overrides to the base prompt as well', () => {
+      fs.mkdirSync(path.join(dir, 'acme', 'web'), { recursive: true });
+      fs.writeFileSync(path.join(dir, 'acme', 'web', 'base.md'), 'Custom base');
+
+      expect(buildSystemPrompt('github_issue', 'acme/web')).toMatch(
+        /^Custom base\n## GitHub Issue Context/
+      );
+    });
+
+    it('should not read outside the template directories', () => {
+      expect(loadPromptTemplate('../base')).toBeUndefined();
+      expect(loadPromptTemplate('base', '../..')).toContain('Agent Workflow Engine');
+    });
+  });
+
   describe('buildSystemPrompt', () => {
     it('should combine base and context prompts', () => {
       const prompt = buildSystemPrompt('github_issue');
@@ -0,0 +1,194 @@
+/**
+ * Replay Tests
+ *
+ * A run is recorded once with a scripted provider and a stubbed tool,
+ * then replayed against the current code.
+ */
+
+import { runAgent, AgentContext } from '../../agent/runAgent';
+import { replayRun, compareToolCalls } from '../../agent/replay';
+import { LLMProvider, LLMResponse } from '../../llm/provider';
+import { RunTranscript, ToolCallEvent, TranscriptRecorder } from '../../runs/TranscriptRecorder';
+import { MemoryTranscriptStore } from '../../runs/MemoryTranscriptStore';
+
+const context: AgentContext = {
+  eventType: 'issues',
+  action: 'opened',
+  repository: { owner: 'owner', name: 'repo', fullName: 'owner/repo' },
+  issue: { number: 7, title: 'Question', body: 'What does getIssue return?', labels: [] },
+  sender: { login: 'user' },
+  deliveryId: 'delivery-replay-1',
+};
+
+/**
+ * Assistant turn reading the issue
+ */
+const readIssue = (id: string): LLMResponse => ({
+  content: 'Reading the issue.',
+  toolCalls: [
+    { id, name: 'github_getIssue', input: { owner: 'owner', repo: 'repo', issueNumber: 7 } },
+  ],
+  stopReason: 'tool_use',
+});
+
+/**
+ * Records one run: by default the model reads the issue, then answers
+ */
+async function recordRun(
+  responses: LLMResponse[] = [
+    readIssue('call_1'),
+    { content: 'It returns the issue.', toolCalls: [], stopReason: 'end_turn' },
+  ],
+  issue: Record<string, unknown> = { number: 7, title: 'Question', state: 'open' }
+): Promise<RunTranscript> {
+  const provider: LLMProvider = {
+    name: 'anthropic',
+    model: 'claude-test',
+    complete: async () => responses.shift() as LLMResponse,
+  };
+
+  const store = new MemoryTranscriptStore();
+  await runAgent(JSON.parse(JSON.stringify(context)), {
+    provider,
+    executeTool: async () => issue,
+    transcript: new TranscriptRecorder(context.deliveryId, store),
+    repoConfig: {},
+  });
+
+  const transcript = await store.get(context.deliveryId);
+  return transcript!.runs[0];
+}
+
+describe('replayRun', () => {
+  let recording: RunTranscript;
+
+  beforeAll(async () => {
+    recording = await recordRun();
+  });
+
+  it('should reproduce an unchanged run without divergences', async () => {
+    const report = await replayRun(recording);
+
+    expect(report.divergences).toEqual([]);
+    expect(report.matches).toBe(true);
+    expect(report.result.success).toBe(true);
+    expect(report.transcript.finalAnswer).toBe('It returns the issue.');
+    expect(report.transcript.messages).toEqual(recording.messages);
+  });
+
+  it('should flag a changed system prompt and context message', async () => {
+    const edited: RunTranscript = {
+      ...recording,
+      systemPrompt: 'An older prompt',
+      messages: [
+        { role: 'user', content: 'An older context message' },
+        ...recording.messages.slice(1),
+      ],
+    };
+
+    const report = await replayRun(edited);
+
+    expect(report.matches).toBe(false);
+    expect(report.divergences.map((d) => d.kind)).toEqual(['system_prompt', 'messages']);
+    expect(report.divergences[1]).toMatchObject({
+      iteration: 1,
+      message: 'Message 0 sent to the LLM differs from the recording',
+      expected: { role: 'user', content: 'An older context message' },
+    });
+  });
+
+  it('should flag a run whose skill selection changed', async () => {
+    const labelled: RunTranscript = {
+      ...recording,
+      context: { ...context, issue: { ...context.issue!, labels: ['bug'] } },
+    };
+
+    const report = await replayRun(labelled);
+
+    // bugfix-skill is now selected: different prompt, tools and context message
+    expect(report.transcript.skills).toEqual(['bugfix-skill']);
+    expect(report.divergences.map((d) => d.kind)).toEqual(['system_prompt', 'tools', 'messages']);
+  });
+
+  it('should flag LLM calls missing from the replay', async () => {
+    const extraCall = recording.events.find((e) => e.type === 'llm')!;
+    const longer: RunTranscript = { ...recording, events: [...recording.events, extraCall] };
+
+    const report = await replayRun(longer);
+
+    expect(report.divergences).toEqual([
+      expect.objectContaining({
+        kind: 'llm_call',
+        message: 'Replay stopped after 2 LLM calls, the recording has 3',
+      }),
+    ]);
+  });
+
+  it('should compare the messages sent before a compaction', async () => {
+    const original = process.env.CONTEXT_TOKEN_LIMIT;
+    process.env.CONTEXT_TOKEN_LIMIT = '1000';
+    try {
+      const compacting = await recordRun(
+        [
+          readIssue('call_1'),
+          readIssue('call_2'),
+          { content: 'Read it twice.', toolCalls: [], stopReason: 'end_turn' },
+        ],
+        { number: 7, body: 'x'.repeat(8000) }
+      );
+      expect(compacting.completedSteps).toContain('Compacted 1 tool results');
+
+      const report = await replayRun(compacting);
+
+      expect(report.divergences).toEqual([]);
+      expect(report.transcript.messages).toEqual(compacting.messages);
+    } finally {
+      if (original === undefined) delete process.env.CONTEXT_TOKEN_LIMIT;
+      else process.env.CONTEXT_TOKEN_LIMIT = original;
+    }
+  });
+
+  it('should refuse recordings without a context', async () => {
+    await expect(replayRun({ ...recording, context: undefined })).rejects.toThrow(
+      'no recorded context'
+    );
+  });
+});
+
+describe('compareToolCalls', () => {
+  const event = (overrides: Partial<ToolCallEvent>): ToolCallEvent => ({
+    type: 'tool',
+    iteration: 1,
+    at: '2026-01-01T00:00:00.000Z',
+    durationMs: 1,
+    toolCallId: 'call_1',
+    name: 'github_getIssue',
+    input: { issueNumber: 1 },
+    result: '{}',
+    isError: false,
+    ...overrides,
+  });
+
+  it('should flag different arguments as a tool_call divergence', () => {
+    const [divergence] = compareToolCalls([event({})], [event({ input: { issueNumber: 2 } })]);
+
+    expect(divergence).toMatchObject({ kind: 'tool_call', iteration: 1 });
+  });
+
+  it('should flag a refused call as a tool_result divergence', () => {
+    const refused = event({
+      result: 'Error: Tool "github_getIssue" is not allowed for the loaded skills',
+      isError: true,
+    });
+
+    expect(compareToolCalls([event({})], [refused])).toEqual([
+      expect.objectContaining({ kind: 'tool_result', actual: refused.result }),
+    ]);
+  });
+
+  it('should flag calls only one side executed', () => {
+    expect(compareToolCalls([event({})], []).map((d) => d.message)).toEqual([
+      'Recording executed github_getIssue, which the replay did not',
+    ]);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Repository Configuration Tests
+ */
+
+import {
+  RepoConfigCache,
+  getIgnoreReason,
+  loadRepoConfig,
+  parseRepoConfig,
+} from '../../agent/repoConfig';
+import { AgentContext } from '../../agent/runAgent';
+import { PermanentError } from '../../jobs/retryPolicy';
+import * as githubTool from '../../tools/github';
+
+jest.mock('../../tools/github', () => ({
+  getBranch: jest.fn(),
+  getFileContent: jest.fn(),
+}));
+
+const mockGetBranch = githubTool.getBranch as jest.MockedFunction<typeof githubTool.getBranch>;
+const mockGetFileContent = githubTool.getFileContent as jest.MockedFunction<
+  typeof githubTool.getFileContent
+>;
+
+const context: AgentContext = {
+  eventType: 'issues',
+  action: 'opened',
+  repository: { owner: 'acme', name: 'web', fullName: 'acme/web', defaultBranch: 'main' },
+  issue: { number: 1, title: 'Crash', body: '', labels: ['bug'] },
+  sender: { login: 'user' },
+  deliveryId: 'delivery-config-1',
+};
+
+const file = (content: string) => ({
+  name: 'agent.yml',
+  path: '.github/agent.yml',
+  content,
+  sha: 'blob-sha',
+  size: content.length,
+});
+
+describe('Repository Configuration', () => {
+  describe('parseRepoConfig', () => {
+    it('should parse every setting', () => {
+      const config = parseRepoConfig(`
+model: anthropic/claude-opus-4
+skills: [code-review-skill]
+tools: [github_getPullRequest, github_createPullRequestReview]
+budget:
+  tokens: 200000
+  cost_usd: 1.5
+prompt: |
+  Use tabs.
+ignore:
+  labels: [wontfix]
+  events: [push]
+`);
+
+      expect(config).toEqual({
+        model: 'anthropic/claude-opus-4',
+        skills: ['code-review-skill'],
+        tools: ['github_getPullRequest', 'github_createPullRequestReview'],
+        budget: { tokens: 200000, costUsd: 1.5 },
+        prompt: 'Use tabs.\n',
+        ignore: { labels: ['wontfix'], events: ['push'] },
+      });
+    });
+
+    it('should treat an empty file as no configuration', () => {
+      expect(parseRepoConfig('')).toEqual({});
+      expect(parseRepoConfig('# nothing yet\n')).toEqual({});
+    });
+
+    it('should list every schema violation', () => {
+      expect(() =>
+        parseRepoConfig('model: 4\nbudget:\n  tokens: -1\nmax_iterations: 3\n')
+      ).toThrow(
+        '.github/agent.yml is invalid: model: expected string, got number; ' +
+          'budget.tokens: must be >= 1, got -1; max_iterations: unknown property'
+      );
+    });
+
+    it('should reject unknown tools and invalid YAML', () => {
+      expect(() => parseRepoConfig('tools: [github_getIssue, shell_exec]')).toThrow(
+        '.github/agent.yml is invalid: tools: unknown tools: shell_exec'
+      );
+      expect(() => parseRepoConfig('tools: [unclosed')).toThrow(
+        /^\.github\/agent\.yml is not valid YAML/
+      );
+      expect(() => parseRepoConfig('- just\n- a list\n')).toThrow(
+        '.github/agent.yml is invalid: (root): expected object, got array'
+      );
+    });
+  });
+
+  describe('loadRepoConfig', () => {
+    beforeEach(() => {
+      mockGetBranch.mockReset().mockResolvedValue({ name: 'main', sha: 'abc123', protected: true });
+      mockGetFileContent.mockReset();
+    });
+
+    it('should read the file at the default branch head and cache it by commit', async () => {
+      mockGetFileContent.mockResolvedValue(file('model: repo-model\n'));
+      const cache = new RepoConfigCache();
+
+      expect(await loadRepoConfig(context, cache)).toEqual(
+        expect.objectContaining({ model: 'repo-model' })
+      );
+      expect(await loadRepoConfig(context, cache)).toEqual(
+        expect.objectContaining({ model: 'repo-model' })
+      );
+
+      expect(mockGetBranch).toHaveBeenCalledWith({ owner: 'acme', repo: 'web', branch: 'main' });
+      expect(mockGetFileContent).toHaveBeenCalledTimes(1);
+      expect(mockGetFileContent).toHaveBeenCalledWith({
+        owner: 'acme',
+        repo: 'web',
+        path: '.github/agent.yml',
+        ref: 'abc123',
+      });
+    });
+
+    it('should read the file again after the default branch moves', async () => {
+      mockGetFileContent.mockResolvedValue(file('model: repo-model\n'));
+      const cache = new RepoConfigCache();
+
+      await loadRepoConfig(context, cache);
+      mockGetBranch.mockResolvedValue({ name: 'main', sha: 'def456', protected: true });
+      await loadRepoConfig(context, cache);
+
+      expect(mockGetFileContent).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return no configuration when the file does not exist', async () => {
+      mockGetFileContent.mockRejectedValue(new Error('GitHub API error (404): Not Found'));
+
+      expect(await loadRepoConfig(context, new RepoConfigCache())).toEqual({});
+    });
+
+    it('should fail on other errors and invalid files', async () => {
+      mockGetFileContent.mockRejectedValueOnce(new Error('GitHub API error (502): Bad Gateway'));
+      await expect(loadRepoConfig(context, new RepoConfigCache())).rejects.toThrow('(502)');
+
+      mockGetFileContent.mockResolvedValueOnce(file('model: 4\n'));
+      const invalid = loadRepoConfig(context, new RepoConfigCache());
+      await expect(invalid).rejects.toThrow('.github/agent.yml is invalid');
+      await expect(invalid).rejects.toBeInstanceOf(PermanentError);
+    });
+
+    it('should read from the default branch without caching when it is unknown', async () => {
+      mockGetFileContent.mockResolvedValue(file('model: repo-model\n'));
+      const { defaultBranch: _, ...repository } = context.repository;
+
+      await loadRepoConfig({ ...context, repository }, new RepoConfigCache());
+
+      expect(mockGetBranch).not.toHaveBeenCalled();
+      expect(mockGetFileContent).toHaveBeenCalledWith(expect.objectContaining({ ref: undefined }));
+    });
+  });
+
+  describe('getIgnoreReason', () => {
+    it('should match ignored events and labels', () => {
+      expect(getIgnoreReason({ ignore: { events: ['issues'] } }, context)).toBe(
+        'event "issues" is ignored'
+      );
+      expect(getIgnoreReason({ ignore: { labels: ['wontfix', 'bug'] } }, context)).toBe(
+        'label "bug" is ignored'
+      );
+      expect(getIgnoreReason({ ignore: { events: ['push'] } }, context)).toBeUndefined();
+      expect(getIgnoreReason({}, context)).toBeUndefined();
+    });
+
+    it('should match the labels of pull requests', () => {
+      const prContext: AgentContext = {
+        ...context,
+        eventType: 'pull_request',
+        issue: undefined,
+        pullRequest: {
+          number: 2,
+          title: 'Bump',
+          body: '',
+          headBranch: 'bump',
+          baseBranch: 'main',
+          labels: ['dependencies'],
+        },
+      };
+
+      expect(getIgnoreReason({ ignore: { labels: ['dependencies'] } }, prContext)).toBe(
+        'label "dependencies" is ignored'
+      );
+      expect(getIgnoreReason({ ignore: { labels: ['bug'] } }, prContext)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,807 @@
+/**
+ * runAgent Tests
+ *
+ * The LLM provider is replaced by a scripted fake; no network is used.
+ */
+
+import { runAgent, runWithConcurrency, AgentContext } from '../../agent/runAgent';
+import { getLLMProvider, LLMProvider, LLMRequest, LLMResponse } from '../../llm/provider';
+import { TranscriptRecorder } from '../../runs/TranscriptRecorder';
+import { MemoryTranscriptStore } from '../../runs/MemoryTranscriptStore';
+import { DailyUsageTracker } from '../../agent/budget';
+import { loadRepoConfig } from '../../agent/repoConfig';
+
+jest.mock('../../llm/provider', () => ({
+  ...jest.requireActual('../../llm/provider'),
+  getLLMProvider: jest.fn(),
+}));
+
+// No .github/agent.yml unless a test provides one
+jest.mock('../../agent/repoConfig', () => ({
+  ...jest.requireActual('../../agent/repoConfig'),
+  loadRepoConfig: jest.fn().mockResolvedValue({}),
+}));
+
+const mockGetLLMProvider = getLLMProvider as jest.MockedFunction<typeof getLLMProvider>;
+const mockLoadRepoConfig = loadRepoConfig as jest.MockedFunction<typeof loadRepoConfig>;
+
+/**
+ * Provider that returns the given responses in order
+ */
+function scriptedProvider(responses: LLMResponse[]): LLMProvider & { requests: LLMRequest[] } {
+  const requests: LLMRequest[] = [];
+  return {
+    name: 'anthropic',
+    model: 'scripted-model',
+    requests,
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+      requests.push({ ...request, messages: [...request.messages] });
+      const next = responses.shift();
+      if (!next) throw new Error('No scripted response left');
+      return next;
+    },
+  };
+}
+
+const context: AgentContext = {
+  eventType: 'issues',
+  action: 'opened',
+  repository: { owner: 'owner', name: 'repo', fullName: 'owner/repo' },
+  issue: { number: 3, title: 'Question', body: 'How does this work?', labels: [] },
+  sender: { login: 'user' },
+  deliveryId: 'delivery-run-1',
+};
+
+describe('runAgent', () => {
+  it('should record the run transcript', async () => {
+    mockGetLLMProvider.mockReturnValue(
+      scriptedProvider([
+        {
+          content: 'Let me check.',
+          toolCalls: [{ id: 'call_1', name: 'no_such_tool', input: { a: 1 } }],
+          stopReason: 'tool_use',
+        },
+        { content: 'Here is the answer.', toolCalls: [], stopReason: 'end_turn' },
+      ])
+    );
+    const store = new MemoryTranscriptStore();
+    const transcript = new TranscriptRecorder(context.deliveryId, store);
+
+    const result = await runAgent(context, { transcript });
+
+    expect(result.success).toBe(true);
+
+    const [run] = (await store.get('delivery-run-1'))?.runs ?? [];
+    expect(run).toMatchObject({
+      status: 'completed',
+      provider: { name: 'anthropic', model: 'scripted-model' },
+      finalAnswer: 'Here is the answer.',
+    });
+    expect(run.systemPrompt).toContain('## Loaded Skills');
+    expect(run.events.map((e) => e.type)).toEqual(['llm', 'tool', 'llm']);
+    expect(run.events[1]).toMatchObject({
+      name: 'no_such_tool',
+      input: { a: 1 },
+      isError: true,
+      result: 'Error: Unknown tool "no_such_tool"',
+    });
+    expect(run.messages.map((m) => m.role)).toEqual(['user', 'assistant', 'tool', 'assistant']);
+  });
+
+  it('should build the system prompt from base, event context and skills', async () => {
+    const provider = scriptedProvider([
+      { content: 'Answer.', toolCalls: [], stopReason: 'end_turn' },
+    ]);
+    mockGetLLMProvider.mockReturnValue(provider);
+
+    await runAgent(context);
+
+    const { systemPrompt } = provider.requests[0];
+    expect(systemPrompt).toContain('# Agent Workflow Engine');
+    expect(systemPrompt).toContain('## GitHub Issue Context');
+    expect(systemPrompt.indexOf('## GitHub Issue Context')).toBeLessThan(
+      systemPrompt.indexOf('## Loaded Skills')
+    );
+  });
+
+  it('should record failed runs', async () => {
+    mockGetLLMProvider.mockReturnValue(scriptedProvider([]));
+    const store = new MemoryTranscriptStore();
+
+    const result = await runAgent(context, {
+      transcript: new TranscriptRecorder(context.deliveryId, store),
+    });
+
+    expect(result.success).toBe(false);
+    const [run] = (await store.get('delivery-run-1'))?.runs ?? [];
+    expect(run).toMatchObject({ status: 'failed', error: 'No scripted response left' });
+  });
+
+  it('should simulate write tools in a dry run and list them as planned actions', async () => {
+    const comment = { owner: 'owner', repo: 'repo', issueNumber: 3, body: 'Fixed in #4' };
+    mockGetLLMProvider.mockReturnValue(
+      scriptedProvider([
+        {
+          content: '',
+          toolCalls: [
+            {
+              id: 'call_1',
+              name: 'github_getIssue',
+              input: { owner: 'owner', repo: 'repo', issueNumber: 3 },
+            },
+            { id: 'call_2', name: 'github_createComment', input: comment },
+          ],
+          stopReason: 'tool_use',
+        },
+        { content: 'Commented.', toolCalls: [], stopReason: 'end_turn' },
+      ])
+    );
+    const executeTool = jest.fn().mockResolvedValue({ number: 3 });
+    const store = new MemoryTranscriptStore();
+
+    const result = await runAgent(
+      { ...context, issue: { ...context.issue!, labels: ['bug'] } },
+      { dryRun: true, executeTool, transcript: new TranscriptRecorder(context.deliveryId, store) }
+    );
+
+    // Read tools run for real, write tools never reach the executor
+    expect(executeTool).toHaveBeenCalledTimes(1);
+    expect(executeTool).toHaveBeenCalledWith(expect.objectContaining({ name: 'github_getIssue' }));
+
+    expect(result.success).toBe(true);
+    expect(result.plannedActions).toEqual([
+      {
+        iteration: 1,
+        tool: 'github_createComment',
+        input: comment,
+        simulatedResult: expect.objectContaining({ id: expect.any(Number), body: 'Fixed in #4' }),
+      },
+    ]);
+
+    const [run] = (await store.get('delivery-run-1'))?.runs ?? [];
+    expect(run.dryRun).toBe(true);
+    expect(run.plannedActions).toHaveLength(1);
+  });
+
+  it('should not report planned actions outside dry runs', async () => {
+    mockGetLLMProvider.mockReturnValue(
+      scriptedProvider([{ content: 'Nothing to do.', toolCalls: [], stopReason: 'end_turn' }])
+    );
+
+    const result = await runAgent(context);
+
+    expect(result.plannedActions).toBeUndefined();
+  });
+
+  it('should answer invalid tool arguments with an error instead of running the tool', async () => {
+    const provider = scriptedProvider([
+      {
+        content: '',
+        toolCalls: [
+          { id: 'call_1', name: 'github_getIssue', input: { owner: 'owner', issueNumber: '3' } },
+          {
+            id: 'call_2',
+            name: 'github_getIssue',
+            input: {},
+            parseError: 'arguments are not valid JSON: Unexpected end of JSON input',
+          },
+        ],
+        stopReason: 'tool_use',
+      },
+      { content: 'Sorry.', toolCalls: [], stopReason: 'end_turn' },
+    ]);
+    mockGetLLMProvider.mockReturnValue(provider);
+    const executeTool = jest.fn();
+
+    const result = await runAgent(context, { executeTool });
+
+    expect(result.success).toBe(true);
+    expect(executeTool).not.toHaveBeenCalled();
+    const [first, second] = provider.requests[1].messages.slice(2);
+    expect(first).toMatchObject({
+      role: 'tool',
+      isError: true,
+      content:
+        'Error: Invalid arguments for github_getIssue: repo: required property is missing; ' +
+        'issueNumber: expected number, got string. Fix the arguments and call the tool again.',
+    });
+    expect(second).toMatchObject({
+      role: 'tool',
+      content: expect.stringContaining('arguments are not valid JSON'),
+    });
+  });
+
+  describe('parallel tool calls', () => {
+    const original = process.env.TOOL_CONCURRENCY;
+    const getFile = (id: string, path: string) => ({
+      id,
+      name: 'github_getFileContent',
+      input: { owner: 'owner', repo: 'repo', path },
+    });
+
+    afterEach(() => {
+      if (original === undefined) {
+        delete process.env.TOOL_CONCURRENCY;
+      } else {
+        process.env.TOOL_CONCURRENCY = original;
+      }
+    });
+
+    it('should run read-only calls concurrently and keep the result order', async () => {
+      process.env.TOOL_CONCURRENCY = '2';
+      const provider = scriptedProvider([
+        {
+          content: '',
+          toolCalls: [getFile('c1', 'a.ts'), getFile('c2', 'b.ts'), getFile('c3', 'c.ts')],
+          stopReason: 'tool_use',
+        },
+        { content: 'Read them.', toolCalls: [], stopReason: 'end_turn' },
+      ]);
+      mockGetLLMProvider.mockReturnValue(provider);
+
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const delays: Record<string, number> = { 'a.ts': 30, 'b.ts': 5, 'c.ts': 5 };
+      const executeTool = jest.fn(async (call) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        const path = String(call.input.path);
+        await new Promise((resolve) => setTimeout(resolve, delays[path]));
+        inFlight--;
+        return { path };
+      });
+
+      await runAgent(context, { executeTool });
+
+      expect(maxInFlight).toBe(2);
+      const results = provider.requests[1].messages.slice(2);
+      expect(results.map((m) => (m.role === 'tool' ? m.toolCallId : m.role))).toEqual([
+        'c1',
+        'c2',
+        'c3',
+      ]);
+      expect(results[0].content).toContain('a.ts');
+    });
+
+    it('should run write tools alone, between read-only batches', async () => {
+      const comment = { owner: 'owner', repo: 'repo', issueNumber: 3, body: 'Looking' };
+      const provider = scriptedProvider([
+        {
+          content: '',
+          toolCalls: [
+            getFile('c1', 'a.ts'),
+            { id: 'c2', name: 'github_createComment', input: comment },
+            getFile('c3', 'b.ts'),
+          ],
+          stopReason: 'tool_use',
+        },
+        { content: 'Done.', toolCalls: [], stopReason: 'end_turn' },
+      ]);
+      mockGetLLMProvider.mockReturnValue(provider);
+
+      const events: string[] = [];
+      const executeTool = jest.fn(async (call) => {
+        events.push(`start ${call.id}`);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        events.push(`end ${call.id}`);
+        return {};
+      });
+
+      await runAgent({ ...context, issue: { ...context.issue!, labels: ['bug'] } }, { executeTool });
+
+      expect(events).toEqual(['start c1', 'end c1', 'start c2', 'end c2', 'start c3', 'end c3']);
+    });
+
+    it('should reject an invalid TOOL_CONCURRENCY', async () => {
+      process.env.TOOL_CONCURRENCY = '0';
+      mockGetLLMProvider.mockReturnValue(scriptedProvider([]));
+
+      const result = await runAgent(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('TOOL_CONCURRENCY must be a positive integer, got "0"');
+    });
+  });
+
+  describe('runWithConcurrency', () => {
+    it('should return results in input order', async () => {
+      const results = await runWithConcurrency([30, 10, 20], 2, async (ms) => {
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        return ms * 2;
+      });
+
+      expect(results).toEqual([60, 20, 40]);
+    });
+  });
+
+  describe('budgets', () => {
+    const original = { ...process.env };
+    const toolTurn: LLMResponse = {
+      content: '',
+      toolCalls: [{ id: 'call_1', name: 'no_such_tool', input: {} }],
+      stopReason: 'tool_use',
+      usage: { promptTokens: 1000, completionTokens: 200 },
+    };
+
+    afterEach(() => {
+      for (const name of ['RUN_TOKEN_BUDGET', 'REPO_DAILY_BUDGETS']) {
+        if (original[name] === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = original[name];
+        }
+      }
+    });
+
+    it('should report token usage and cost on the result', async () => {
+      mockGetLLMProvider.mockReturnValue({
+        ...scriptedProvider([
+          toolTurn,
+          {
+            content: 'Done.',
+            toolCalls: [],
+            stopReason: 'end_turn',
+            usage: { promptTokens: 1500, completionTokens: 100 },
+          },
+        ]),
+        model: 'claude-sonnet-4-20250514',
+      });
+      const tracker = new DailyUsageTracker();
+
+      const result = await runAgent(context, { usageTracker: tracker });
+
+      expect(result.usage).toMatchObject({
+        llmCalls: 2,
+        promptTokens: 2500,
+        completionTokens: 300,
+        totalTokens: 2800,
+      });
+      expect(result.usage?.costUsd).toBeCloseTo((2500 * 3 + 300 * 15) / 1_000_000);
+      expect((await tracker.get('owner/repo')).totalTokens).toBe(2800);
+    });
+
+    it('should stop gracefully once the run token budget is used up', async () => {
+      process.env.RUN_TOKEN_BUDGET = '1000';
+      const provider = scriptedProvider([toolTurn, toolTurn]);
+      mockGetLLMProvider.mockReturnValue(provider);
+
+      const result = await runAgent(context, { usageTracker: new DailyUsageTracker() });
+
+      expect(provider.requests).toHaveLength(1);
+      expect(result.success).toBe(true);
+      expect(result.budgetExceeded).toBe('Run token budget used up (1200/1000 tokens)');
+      expect(result.completedSteps).toContain(`Budget exceeded: ${result.budgetExceeded}`);
+    });
+
+    it('should count the job\'s earlier runs against the run budget', async () => {
+      process.env.RUN_TOKEN_BUDGET = '1000';
+      const provider = scriptedProvider([toolTurn]);
+      mockGetLLMProvider.mockReturnValue(provider);
+
+      const result = await runAgent(context, {
+        usageTracker: new DailyUsageTracker(),
+        previousUsage: { totalTokens: 1000, costUsd: 0 },
+      });
+
+      expect(provider.requests).toHaveLength(0);
+      expect(result.budgetExceeded).toBe('Run token budget used up (1000/1000 tokens)');
+    });
+
+    it('should not call the LLM when the repository daily budget is spent', async () => {
+      process.env.REPO_DAILY_BUDGETS = JSON.stringify({ 'owner/repo': { tokens: 5000 } });
+      const tracker = new DailyUsageTracker();
+      await tracker.record('earlier-job', 'owner/repo', 5000, 0);
+      const provider = scriptedProvider([toolTurn]);
+      mockGetLLMProvider.mockReturnValue(provider);
+
+      const result = await runAgent(context, { usageTracker: tracker });
+
+      expect(provider.requests).toHaveLength(0);
+      expect(result.budgetExceeded).toMatch(/^owner\/repo daily token budget used up/);
+    });
+  });
+
+  describe('context compaction', () => {
+    const original = process.env.CONTEXT_TOKEN_LIMIT;
+    const readFile = (id: string, path: string): LLMResponse => ({
+      content: '',
+      toolCalls: [
+        { id, name: 'github_getFileContent', input: { owner: 'owner', repo: 'repo', path } },
+      ],
+      stopReason: 'tool_use',
+    });
+
+    afterEach(() => {
+      if (original === undefined) {
+        delete process.env.CONTEXT_TOKEN_LIMIT;
+      } else {
+        process.env.CONTEXT_TOKEN_LIMIT = original;
+      }
+    });
+
+    it('should compact old tool results once the context limit is crossed', async () => {
+      process.env.CONTEXT_TOKEN_LIMIT = '1000';
+      const provider = scriptedProvider([
+        readFile('c1', 'a.ts'),
+        readFile('c2', 'b.ts'),
+        { content: 'Read both.', toolCalls: [], stopReason: 'end_turn' },
+      ]);
+      mockGetLLMProvider.mockReturnValue(provider);
+      const executeTool = jest.fn(async (call) => ({
+        path: call.input.path,
+        content: 'x'.repeat(8000),
+      }));
+
+      const result = await runAgent(context, { executeTool });
+
+      // The newest result has not been read by the model yet and stays whole
+      expect(provider.requests[1].messages[2].content).toContain('x'.repeat(8000));
+
+      const [, , first, , second] = provider.requests[2].messages;
+      expect(first.content).toMatch(
+        /^\[Compacted tool result: github_getFileContent, \d+ characters, ref "c1"/
+      );
+      expect(first.content.length).toBeLessThan(1000);
+      expect(second.content).toContain('x'.repeat(8000));
+      expect(result.completedSteps).toContain('Compacted 1 tool results');
+    });
+
+    it('should leave the conversation alone below the limit', async () => {
+      const provider = scriptedProvider([
+        readFile('c1', 'a.ts'),
+        readFile('c2', 'b.ts'),
+        { content: 'Read both.', toolCalls: [], stopReason: 'end_turn' },
+      ]);
+      mockGetLLMProvider.mockReturnValue(provider);
+
+      await runAgent(context, { executeTool: async () => ({ content: 'x'.repeat(8000) }) });
+
+      expect(provider.requests[2].messages[2].content).toContain('x'.repeat(8000));
+    });
+  });
+
+  describe('tool result paging', () => {
+    const original = process.env.TOOL_RESULT_MAX_CHARS;
+
+    afterEach(() => {
+      if (original === undefined) {
+        delete process.env.TOOL_RESULT_MAX_CHARS;
+      } else {
+        process.env.TOOL_RESULT_MAX_CHARS = original;
+      }
+    });
+
+    it('should truncate large results and let the model page through them', async () => {
+      process.env.TOOL_RESULT_MAX_CHARS = '200';
+      const provider = scriptedProvider([
+        {
+          content: '',
+          toolCalls: [
+            {
+              id: 'c1',
+              name: 'github_getFileContent',
+              input: { owner: 'owner', repo: 'repo', path: 'big.ts' },
+            },
+          ],
+          stopReason: 'tool_use',
+        },
+        {
+          content: '',
+          toolCalls: [{ id: 'c2', name: 'read_tool_result', input: { ref: 'c1', offset: 150 } }],
+          stopReason: 'tool_use',
+        },
+        { content: 'Read it all.', toolCalls: [], stopReason: 'end_turn' },
+      ]);
+      mockGetLLMProvider.mockReturnValue(provider);
+      const executeTool = jest.fn().mockResolvedValue({ content: 'x'.repeat(1000) });
+      const store = new MemoryTranscriptStore();
+
+      await runAgent(context, {
+        executeTool,
+        transcript: new TranscriptRecorder(context.deliveryId, store),
+      });
+
+      expect(provider.requests[0].tools.map((t) => t.name)).toContain('read_tool_result');
+      expect(provider.requests[1].messages[2].content).toMatch(
+        /^\[Truncated tool result: github_getFileContent, \d+ characters, ref "c1"/
+      );
+
+      const page = JSON.parse(provider.requests[2].messages[4].content);
+      expect(page).toMatchObject({ ref: 'c1', offset: 150, nextOffset: 350 });
+      expect(page.content).toHaveLength(200);
+      expect(executeTool).toHaveBeenCalledTimes(1);
+
+      // The transcript keeps the full result
+      const [run] = (await store.get('delivery-run-1'))?.runs ?? [];
+      expect(run.events[1]).toMatchObject({ name: 'github_getFileContent', isError: false });
+      expect(JSON.parse((run.events[1] as { result: string }).result).content).toHaveLength(1000);
+    });
+
+    it('should truncate large error results too', async () => {
+      process.env.TOOL_RESULT_MAX_CHARS = '200';
+      const provider = scriptedProvider([
+        {
+          content: '',
+          toolCalls: [
+            {
+              id: 'c1',
+              name: 'github_getFileContent',
+              input: { owner: 'owner', repo: 'repo', path: 'big.ts' },
+            },
+          ],
+          stopReason: 'tool_use',
+        },
+        { content: 'It failed.', toolCalls: [], stopReason: 'end_turn' },
+      ]);
+      mockGetLLMProvider.mockReturnValue(provider);
+
+      await runAgent(context, {
+        executeTool: jest.fn().mockRejectedValue(new Error('e'.repeat(1000))),
+      });
+
+      const result = provider.requests[1].messages[2];
+      expect(result).toMatchObject({ role: 'tool', isError: true });
+      expect(result.content).toMatch(/^\[Truncated tool result: github_getFileContent/);
+      expect(result.content.length).toBeLessThan(500);
+    });
+
+    it('should return an error for unknown refs', async () => {
+      const provider = scriptedProvider([
+        {
+          content: '',
+          toolCalls: [{ id: 'c1', name: 'read_tool_result', input: { ref: 'nope' } }],
+          stopReason: 'tool_use',
+        },
+        { content: 'Never mind.', toolCalls: [], stopReason: 'end_turn' },
+      ]);
+      mockGetLLMProvider.mockReturnValue(provider);
+
+      await runAgent(context);
+
+      expect(provider.requests[1].messages[2]).toMatchObject({
+        content: 'Error: No stored tool result with ref "nope"',
+        isError: true,
+      });
+    });
+  });
+
+  describe('repository configuration', () => {
+    const original = process.env.RUN_TOKEN_BUDGET;
+
+    afterEach(() => {
+      if (original === undefined) {
+        delete process.env.RUN_TOKEN_BUDGET;
+      } else {
+        process.env.RUN_TOKEN_BUDGET = original;
+      }
+    });
+
+    it('should apply model, tools, budget and prompt from .github/agent.yml', async () => {
+      process.env.RUN_TOKEN_BUDGET = '100000';
+      mockLoadRepoConfig.mockResolvedValueOnce({
+        model: 'repo-model',
+        tools: ['github_getIssue'],
+        budget: { tokens: 1000 },
+        prompt: 'Answer in one sentence.\n',
+      });
+      const provider = scriptedProvider([
+        {
+          content: '',
+          toolCalls: [{ id: 'c1', name: 'no_such_tool', input: {} }],
+          stopReason: 'tool_use',
+          usage: { promptTokens: 1000, completionTokens: 200 },
+        },
+      ]);
+      mockGetLLMProvider.mockReturnValue(provider);
+
+      const result = await runAgent(context, { usageTracker: new DailyUsageTracker() });
+
+      expect(mockGetLLMProvider).toHaveBeenLastCalledWith('owner/repo', 'repo-model');
+      expect(provider.requests[0].tools.map((t) => t.name).sort()).toEqual([
+        'github_getIssue',
+        'read_tool_result',
+      ]);
+      expect(provider.requests[0].systemPrompt).toContain(
+        '## Repository Instructions\n\nAnswer in one sentence.\n\n## Loaded Skills'
+      );
+      // The repository's budget is stricter than the server's
+      expect(result.budgetExceeded).toBe('Run token budget used up (1200/1000 tokens)');
+    });
+
+    it('should skip ignored triggers without calling the LLM', async () => {
+      mockLoadRepoConfig.mockResolvedValueOnce({ ignore: { labels: ['wontfix'] } });
+      const provider = scriptedProvider([]);
+      mockGetLLMProvider.mockReturnValue(provider);
+
+      const store = new MemoryTranscriptStore();
+      const transcript = new TranscriptRecorder(context.deliveryId, store);
+
+      const result = await runAgent(
+        { ...context, issue: { ...context.issue!, labels: ['wontfix'] } },
+        { transcript }
+      );
+
+      expect(result).toMatchObject({ success: true, ignored: 'label "wontfix" is ignored' });
+      expect(provider.requests).toHaveLength(0);
+      expect((await store.get(context.deliveryId))?.runs[0]).toMatchObject({
+        status: 'ignored',
+        repoConfig: { ignore: { labels: ['wontfix'] } },
+        completedSteps: ['Ignored: label "wontfix" is ignored'],
+      });
+    });
+
+    it('should fail the run when the configuration is invalid', async () => {
+      mockLoadRepoConfig.mockRejectedValueOnce(
+        new Error('.github/agent.yml is invalid: model: expected string, got number')
+      );
+      mockGetLLMProvider.mockReturnValue(scriptedProvider([]));
+
+      const result = await runAgent(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('.github/agent.yml is invalid: model: expected string, got number');
+    });
+  });
+
+  describe('approval gate', () => {
+    const original = process.env.APPROVAL_REQUIRED_TOOLS;
+    const bugContext = { ...context, issue: { ...context.issue!, labels: ['bug'] } };
+    const comment = { owner: 'owner', repo: 'repo', issueNumber: 3, body: 'Fixed in #4' };
+    const gatedTurn: LLMResponse = {
+      content: '',
+      toolCalls: [{ id: 'call_1', name: 'github_createComment', input: comment }],
+      stopReason: 'tool_use',
+    };
+
+    beforeEach(() => {
+      process.env.APPROVAL_REQUIRED_TOOLS = JSON.stringify({ 'owner/repo': ['github_createComment'] });
+    });
+
+    afterEach(() => {
+      if (original === undefined) {
+        delete process.env.APPROVAL_REQUIRED_TOOLS;
+      } else {
+        process.env.APPROVAL_REQUIRED_TOOLS = original;
+      }
+    });
+
+    it('should pause before a gated call and save the loop state', async () => {
+      mockGetLLMProvider.mockReturnValue(scriptedProvider([gatedTurn]));
+      const executeTool = jest.fn();
+      const store = new MemoryTranscriptStore();
+
+      const result = await runAgent(bugContext, {
+        executeTool,
+        transcript: new TranscriptRecorder(context.deliveryId, store),
+      });
+
+      expect(executeTool).not.toHaveBeenCalled();
+      expect(result.success).toBe(true);
+      expect(result.awaitingApproval?.toolCall).toEqual(gatedTurn.toolCalls[0]);
+      expect(result.awaitingApproval?.state).toMatchObject({
+        iteration: 1,
+        pendingToolCalls: gatedTurn.toolCalls,
+      });
+      expect(result.awaitingApproval?.state.messages.map((m) => m.role)).toEqual([
+        'user',
+        'assistant',
+      ]);
+
+      const [run] = (await store.get('delivery-run-1'))?.runs ?? [];
+      expect(run.status).toBe('awaiting_approval');
+    });
+
+    it('should run the call once approved and continue the loop', async () => {
+      mockGetLLMProvider.mockReturnValue(scriptedProvider([gatedTurn]));
+      const paused = await runAgent(bugContext, { executeTool: jest.fn() });
+
+      const provider = scriptedProvider([
+        { content: 'Commented.', toolCalls: [], stopReason: 'end_turn' },
+      ]);
+      mockGetLLMProvider.mockReturnValue(provider);
+      const executeTool = jest.fn().mockResolvedValue({ id: 1 });
+
+      const result = await runAgent(bugContext, {
+        executeTool,
+        resume: { ...paused.awaitingApproval!.state, decision: { approved: true, by: 'alice' } },
+      });
+
+      expect(executeTool).toHaveBeenCalledWith(gatedTurn.toolCalls[0]);
+      expect(result.success).toBe(true);
+      expect(result.completedSteps.slice(-3)).toEqual([
+        'Awaiting approval: github_createComment',
+        'Executed tool: github_createComment',
+        'Task completed',
+      ]);
+      expect(result.awaitingApproval).toBeUndefined();
+      expect(provider.requests[0].messages.map((m) => m.role)).toEqual([
+        'user',
+        'assistant',
+        'tool',
+      ]);
+    });
+
+    it('should answer a rejected call with an error instead of running it', async () => {
+      mockGetLLMProvider.mockReturnValue(scriptedProvider([gatedTurn]));
+      const paused = await runAgent(bugContext, { executeTool: jest.fn() });
+
+      const provider = scriptedProvider([
+        { content: 'Understood.', toolCalls: [], stopReason: 'end_turn' },
+      ]);
+      mockGetLLMProvider.mockReturnValue(provider);
+      const executeTool = jest.fn();
+
+      const result = await runAgent(bugContext, {
+        executeTool,
+        resume: {
+          ...paused.awaitingApproval!.state,
+          decision: { approved: false, by: 'alice', reason: 'not yet' },
+        },
+      });
+
+      expect(executeTool).not.toHaveBeenCalled();
+      expect(result.completedSteps).toContain('Task completed');
+      expect(provider.requests[0].messages[2]).toMatchObject({
+        role: 'tool',
+        content: 'Error: Rejected by @alice: not yet',
+      });
+    });
+
+    it('should keep truncated results readable after resuming', async () => {
+      const originalMaxChars = process.env.TOOL_RESULT_MAX_CHARS;
+      process.env.TOOL_RESULT_MAX_CHARS = '200';
+      try {
+        const readFile: LLMResponse = {
+          content: '',
+          toolCalls: [
+            {
+              id: 'read_1',
+              name: 'github_getFileContent',
+              input: { owner: 'owner', repo: 'repo', path: 'big.ts' },
+            },
+          ],
+          stopReason: 'tool_use',
+        };
+        mockGetLLMProvider.mockReturnValue(scriptedProvider([readFile, gatedTurn]));
+        const paused = await runAgent(bugContext, {
+          executeTool: jest.fn().mockResolvedValue({ content: 'x'.repeat(1000) }),
+        });
+        // The state goes through the job store as JSON
+        const state = JSON.parse(JSON.stringify(paused.awaitingApproval!.state));
+
+        const provider = scriptedProvider([
+          {
+            content: '',
+            toolCalls: [{ id: 'page_1', name: 'read_tool_result', input: { ref: 'read_1' } }],
+            stopReason: 'tool_use',
+          },
+          { content: 'Read it.', toolCalls: [], stopReason: 'end_turn' },
+        ]);
+        mockGetLLMProvider.mockReturnValue(provider);
+
+        await runAgent(bugContext, {
+          executeTool: jest.fn(),
+          resume: { ...state, decision: { approved: false, by: 'alice' } },
+        });
+
+        const page = provider.requests[1].messages.at(-1)!;
+        expect(page).toMatchObject({ role: 'tool', isError: false });
+        expect(JSON.parse(page.content)).toMatchObject({ ref: 'read_1', nextOffset: 200 });
+      } finally {
+        if (originalMaxChars === undefined) delete process.env.TOOL_RESULT_MAX_CHARS;
+        else process.env.TOOL_RESULT_MAX_CHARS = originalMaxChars;
+      }
+    });
+
+    it('should not pause in a dry run', async () => {
+      mockGetLLMProvider.mockReturnValue(
+        scriptedProvider([gatedTurn, { content: 'Done.', toolCalls: [], stopReason: 'end_turn' }])
+      );
+
+      const result = await runAgent(bugContext, { dryRun: true });
+
+      expect(result.awaitingApproval).toBeUndefined();
+      expect(result.plannedActions).toHaveLength(1);
+    });
+  });
+});
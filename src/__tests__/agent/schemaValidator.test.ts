@@ -0,0 +1,85 @@
+/**
+ * Schema Validator Tests
+ */
+
+import { JsonSchema, validateSchema } from '../../agent/schemaValidator';
+import { toolDefinitions, validateToolInput } from '../../agent/toolRegistry';
+
+describe('Schema Validator', () => {
+  describe('validateSchema', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: {
+        owner: { type: 'string', minLength: 1 },
+        issueNumber: { type: 'integer', minimum: 1 },
+        event: { type: 'string', enum: ['APPROVE', 'COMMENT'] },
+        labels: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['owner', 'issueNumber'],
+    };
+
+    it('should accept valid values and ignore annotations', () => {
+      expect(
+        validateSchema({ owner: 'acme', issueNumber: 3, event: 'COMMENT', labels: ['bug'] }, schema)
+      ).toEqual([]);
+    });
+
+    it('should report missing and mistyped properties', () => {
+      expect(validateSchema({ issueNumber: '3' }, schema)).toEqual([
+        'owner: required property is missing',
+        'issueNumber: expected integer, got string',
+      ]);
+    });
+
+    it('should check enums, bounds, lengths and array items', () => {
+      expect(
+        validateSchema(
+          { owner: '', issueNumber: 0, event: 'MERGE', labels: ['bug', 7] },
+          schema
+        )
+      ).toEqual([
+        'owner: must be at least 1 characters long',
+        'issueNumber: must be >= 1, got 0',
+        'event: must be one of "APPROVE", "COMMENT", got "MERGE"',
+        'labels[1]: expected string, got number',
+      ]);
+    });
+
+    it('should reject unknown properties only when additionalProperties is false', () => {
+      const closed: JsonSchema = { ...schema, additionalProperties: false };
+
+      expect(validateSchema({ owner: 'a', issueNumber: 1, extra: true }, schema)).toEqual([]);
+      expect(validateSchema({ owner: 'a', issueNumber: 1, extra: true }, closed)).toEqual([
+        'extra: unknown property',
+      ]);
+    });
+
+    it('should describe a wrong root type', () => {
+      expect(validateSchema(['a'], schema)).toEqual(['(root): expected object, got array']);
+      expect(validateSchema(null, { type: ['string', 'null'] })).toEqual([]);
+    });
+  });
+
+  describe('validateToolInput', () => {
+    it('should check calls against the tool definitions', () => {
+      expect(
+        validateToolInput('github_createComment', {
+          owner: 'acme',
+          repo: 'api',
+          issueNumber: 3,
+          body: 'Hi',
+        })
+      ).toEqual([]);
+      expect(validateToolInput('github_createComment', { owner: 'acme', repo: 'api' })).toEqual([
+        'issueNumber: required property is missing',
+        'body: required property is missing',
+      ]);
+    });
+
+    it('should handle every tool schema', () => {
+      for (const definition of toolDefinitions) {
+        expect(() => validateToolInput(definition.name, {})).not.toThrow();
+      }
+    });
+  });
+});
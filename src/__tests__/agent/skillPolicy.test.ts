@@ -2,13 +2,27 @@
  * Skill Policy Tests
  */
 
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import {
   selectSkills,
   loadSkillContent,
   listAvailableSkills,
   getSkillByName,
+  matchPathPattern,
+  resolveChangedFiles,
+  initSkillRegistry,
+  parseSkillFrontMatter,
+  getAllowedTools,
+  getApprovalTools,
 } from '../../agent/skillPolicy';
 import { AgentContext } from '../../agent/runAgent';
+import * as githubTool from '../../tools/github';
+
+jest.mock('../../tools/github', () => ({
+  listPullRequestFiles: jest.fn(),
+}));
 
 describe('Skill Policy', () => {
   const createMockContext = (overrides: Partial<AgentContext> = {}): AgentContext => ({
@@ -41,36 +55,46 @@ describe('Skill Policy', () => {
       expect(skillNames).toContain('bugfix-skill');
     });
 
-    it('should select bugfix skill for issues with bug keyword in title', () => {
+    it('should only select enabled skills when a list is given', () => {
+      const context = createMockContext({
+        issue: { number: 1, title: 'Crash', body: 'Broken', labels: ['bug'] },
+      });
+
+      expect(selectSkills(context, 3, ['code-review-skill'])).toEqual([]);
+      expect(selectSkills(context, 3, ['bugfix-skill']).map((s) => s.name)).toEqual([
+        'bugfix-skill',
+      ]);
+    });
+
+    it('should not select security-skill until it has instructions', () => {
       const context = createMockContext({
         issue: {
           number: 1,
-          title: 'Bug: App crashes on startup',
-          body: 'Description here',
-          labels: [],
+          title: 'Security vulnerability found',
+          body: 'CVE-2024-1234',
+          labels: ['security'],
         },
       });
 
-      const skills = selectSkills(context);
-      const skillNames = skills.map((s) => s.name);
+      const skillNames = selectSkills(context).map((s) => s.name);
 
-      expect(skillNames).toContain('bugfix-skill');
+      expect(skillNames).not.toContain('security-skill');
     });
 
-    it('should select security skill for security-related issues', () => {
+    it('should select bugfix skill for issues with bug keyword in title', () => {
       const context = createMockContext({
         issue: {
           number: 1,
-          title: 'Security vulnerability found',
-          body: 'CVE-2024-1234',
-          labels: ['security'],
+          title: 'Bug: App crashes on startup',
+          body: 'Description here',
+          labels: [],
         },
       });
 
       const skills = selectSkills(context);
       const skillNames = skills.map((s) => s.name);
 
-      expect(skillNames).toContain('security-skill');
+      expect(skillNames).toContain('bugfix-skill');
     });
 
     it('should select code-review skill for pull requests', () => {
@@ -92,6 +116,74 @@ describe('Skill Policy', () => {
       expect(skillNames).toContain('code-review-skill');
     });
 
+    it('should match keywords in issue comments', () => {
+      const context = createMockContext({
+        eventType: 'issue_comment',
+        action: 'created',
+        issue: {
+          number: 1,
+          title: 'Question about config',
+          body: 'How do I set the port?',
+          labels: [],
+        },
+        comment: {
+          id: 1,
+          body: 'Setting it now makes the server crash with an error',
+          author: 'test-user',
+          authorAssociation: 'NONE',
+          url: 'https://github.com/test-owner/test-repo/issues/1#issuecomment-1',
+          onPullRequest: false,
+        },
+      });
+
+      const skills = selectSkills(context);
+      const skillNames = skills.map((s) => s.name);
+
+      expect(skillNames).toContain('bugfix-skill');
+    });
+
+    describe('push events', () => {
+      const createPushContext = (branch: string, message: string): AgentContext =>
+        createMockContext({
+          eventType: 'push',
+          action: 'pushed',
+          push: {
+            ref: `refs/heads/${branch}`,
+            branch,
+            before: 'a'.repeat(40),
+            after: 'b'.repeat(40),
+            created: false,
+            deleted: false,
+            forced: false,
+            compareUrl: 'https://github.com/test-owner/test-repo/compare/aaaaaaa...bbbbbbb',
+            commits: [
+              {
+                id: 'b'.repeat(40),
+                message,
+                author: 'test-user',
+                url: 'https://github.com/test-owner/test-repo/commit/bbbbbbb',
+                added: [],
+                modified: ['src/index.ts'],
+                removed: [],
+              },
+            ],
+            changedFiles: ['src/index.ts'],
+          },
+        });
+
+      it('should not select code-review skill for pushes', () => {
+        const skills = selectSkills(createPushContext('main', 'Update index'));
+
+        expect(skills.map((s) => s.name)).not.toContain('code-review-skill');
+      });
+
+      it('should match keywords in commit messages', () => {
+        const skills = selectSkills(createPushContext('feature/x', 'Fix crash on startup'));
+
+        expect(skills.map((s) => s.name)).toContain('bugfix-skill');
+      });
+    });
+
     it('should respect maxSkills parameter', () => {
       const context = createMockContext({
         issue: {
@@ -118,24 +210,6 @@ describe('Skill Policy', () => {
       // May or may not match depending on implementation
       expect(Array.isArray(skills)).toBe(true);
     });
-
-    it('should prioritize higher priority skills', () => {
-      const context = createMockContext({
-        issue: {
-          number: 1,
-          title: 'Security bug found',
-          body: 'Critical security issue',
-          labels: ['bug', 'security'],
-        },
-      });
-
-      const skills = selectSkills(context);
-
-      // Security skill has priority 15, bugfix has 10
-      if (skills.length > 0) {
-        expect(skills[0].name).toBe('security-skill');
-      }
-    });
   });
 
   describe('loadSkillContent', () => {
@@ -201,4 +275,519 @@ describe('Skill Policy', () => {
       expect(skill).toBeUndefined();
     });
   });
+
+  describe('matchPathPattern', () => {
+    it('should match recursive globs', () => {
+      expect(matchPathPattern('src/db/migrations/001_init.sql', 'src/**/*.sql')).toBe(true);
+      expect(matchPathPattern('src/schema.sql', 'src/**/*.sql')).toBe(true);
+      expect(matchPathPattern('lib/schema.sql', 'src/**/*.sql')).toBe(false);
+    });
+
+    it('should let a leading **/ match the repository root', () => {
+      expect(matchPathPattern('Dockerfile', '**/Dockerfile')).toBe(true);
+      expect(matchPathPattern('services/api/Dockerfile', '**/Dockerfile')).toBe(true);
+      expect(matchPathPattern('services/api/Dockerfile.dev', '**/Dockerfile')).toBe(false);
+    });
+
+    it('should keep single * within one path segment', () => {
+      expect(matchPathPattern('src/index.ts', 'src/*.ts')).toBe(true);
+      expect(matchPathPattern('src/agent/runAgent.ts', 'src/*.ts')).toBe(false);
+    });
+
+    it('should match slash-less patterns against the file name at any depth', () => {
+      expect(matchPathPattern('db/migrations/002.sql', '*.sql')).toBe(true);
+      expect(matchPathPattern('package.json', '*.sql')).toBe(false);
+    });
+
+    it('should support ? and brace alternatives', () => {
+      expect(matchPathPattern('src/a.ts', 'src/?.{ts,js}')).toBe(true);
+      expect(matchPathPattern('src/a.js', 'src/?.{ts,js}')).toBe(true);
+      expect(matchPathPattern('src/ab.ts', 'src/?.{ts,js}')).toBe(false);
+    });
+
+    it('should treat regex characters literally', () => {
+      expect(matchPathPattern('config/app.json', 'config/app.json')).toBe(true);
+      expect(matchPathPattern('config/appxjson', 'config/app.json')).toBe(false);
+    });
+  });
+
+  describe('resolveChangedFiles', () => {
+    const listPullRequestFiles = githubTool.listPullRequestFiles as jest.Mock;
+
+    beforeEach(() => {
+      listPullRequestFiles.mockReset();
+    });
+
+    it('should reuse files already cached on the context', async () => {
+      const context = createMockContext({ changedFiles: ['a.ts'] });
+
+      expect(await resolveChangedFiles(context)).toEqual(['a.ts']);
+      expect(listPullRequestFiles).not.toHaveBeenCalled();
+    });
+
+    it('should take changed files from push events without fetching', async () => {
+      const context = createMockContext({
+        eventType: 'push',
+        action: 'pushed',
+        push: {
+          ref: 'refs/heads/main',
+          branch: 'main',
+          before: 'a',
+          after: 'b',
+          created: false,
+          deleted: false,
+          forced: false,
+          compareUrl: '',
+          commits: [],
+          changedFiles: ['db/migrations/003.sql'],
+        },
+      });
+
+      expect(await resolveChangedFiles(context)).toEqual(['db/migrations/003.sql']);
+      expect(context.changedFiles).toEqual(['db/migrations/003.sql']);
+      expect(listPullRequestFiles).not.toHaveBeenCalled();
+    });
+
+    it('should skip fetching PR files when no skill uses path_pattern', async () => {
+      const context = createMockContext({
+        eventType: 'pull_request',
+        pullRequest: {
+          number: 5,
+          title: 'Add migration',
+          body: '',
+          headBranch: 'feature',
+          baseBranch: 'main',
+        },
+      });
+
+      expect(await resolveChangedFiles(context)).toEqual([]);
+      expect(listPullRequestFiles).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loadSkillContent front-matter', () => {
+    it('should not include front-matter in loaded content', async () => {
+      const skill = getSkillByName('code-review-skill');
+      expect(skill).toBeDefined();
+
+      if (skill) {
+        const content = await loadSkillContent(skill);
+        expect(content).not.toContain('priority: 8');
+        expect(content).toContain('# Code Review Skill');
+      }
+    });
+  });
+
+  describe('skill registry', () => {
+    let skillsDir: string;
+
+    const writeSkill = (name: string, skillMd: string): void => {
+      fs.mkdirSync(path.join(skillsDir, name), { recursive: true });
+      fs.writeFileSync(path.join(skillsDir, name, 'SKILL.md'), skillMd);
+    };
+
+    beforeEach(() => {
+      skillsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'skills-'));
+
+      writeSkill('bugfix-skill', [
+        '---',
+        'name: bugfix-skill',
+        'description: Fixes bugs',
+        'priority: 10',
+        'triggers:',
+        '  - type: label',
+        '    value: [bug]',
+        '---',
+        '# Bugfix',
+      ].join('\n'));
+
+      writeSkill('security-skill', [
+        '---',
+        'name: security-skill',
+        'description: Analyzes code for security vulnerabilities',
+        'priority: 15',
+        'triggers:',
+        '  - type: label',
+        '    value: [security, vulnerability, cve]',
+        '  - type: keyword',
+        '    value: [security, vulnerability, exploit, cve]',
+        '---',
+        '# Security',
+      ].join('\n'));
+
+      writeSkill('migration-review-skill', [
+        '---',
+        'name: migration-review-skill',
+        'description: Reviews database migrations',
+        'priority: 12',
+        'triggers:',
+        '  - type: path_pattern',
+        '    value: ["db/migrations/**/*.sql"]',
+        '---',
+        '# Migration Review',
+      ].join('\n'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(skillsDir, { recursive: true, force: true });
+      // Restore the bundled skills for other tests
+      initSkillRegistry();
+    });
+
+    it('should register every skill directory with valid front-matter', () => {
+      const skills = initSkillRegistry(skillsDir);
+
+      expect(skills.map((s) => s.name).sort()).toEqual(
+        ['bugfix-skill', 'migration-review-skill', 'security-skill']
+      );
+      expect(getSkillByName('security-skill')?.priority).toBe(15);
+    });
+
+    it('should select security skill for security-related issues', () => {
+      initSkillRegistry(skillsDir);
+      const context = createMockContext({
+        issue: {
+          number: 1,
+          title: 'Security vulnerability found',
+          body: 'CVE-2024-1234',
+          labels: ['security'],
+        },
+      });
+
+      const skillNames = selectSkills(context).map((s) => s.name);
+
+      expect(skillNames).toContain('security-skill');
+    });
+
+    it('should prioritize higher priority skills', () => {
+      initSkillRegistry(skillsDir);
+      const context = createMockContext({
+        issue: {
+          number: 1,
+          title: 'Security bug found',
+          body: 'Critical security issue',
+          labels: ['bug', 'security'],
+        },
+      });
+
+      const skills = selectSkills(context);
+
+      // Security skill has priority 15, bugfix has 10
+      expect(skills[0].name).toBe('security-skill');
+    });
+
+    it('should match branch triggers against the target branch only', () => {
+      writeSkill('release-skill', [
+        '---',
+        'name: release-skill',
+        'description: Prepares releases',
+        'priority: 5',
+        'triggers:',
+        '  - type: branch',
+        '    value: [main]',
+        '---',
+        '# Release',
+      ].join('\n'));
+      initSkillRegistry(skillsDir);
+      const createPullRequestContext = (baseBranch: string): AgentContext =>
+        createMockContext({
+          eventType: 'pull_request',
+          pullRequest: { number: 2, title: 'Bump', body: '', headBranch: 'bump', baseBranch },
+        });
+
+      expect(selectSkills(createPullRequestContext('main')).map((s) => s.name)).toEqual([
+        'release-skill',
+      ]);
+      expect(selectSkills(createPullRequestContext('develop'))).toEqual([]);
+    });
+
+    it('should report and skip directories without SKILL.md', () => {
+      fs.mkdirSync(path.join(skillsDir, 'empty-skill'));
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const skills = initSkillRegistry(skillsDir);
+
+      expect(skills.map((s) => s.name)).not.toContain('empty-skill');
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('empty-skill'));
+      errorSpy.mockRestore();
+    });
+
+    it('should report skills without instructions together at boot', () => {
+      fs.mkdirSync(path.join(skillsDir, 'empty-skill'));
+      writeSkill('draft-skill', [
+        '---',
+        'name: draft-skill',
+        'description: Not written yet',
+        'priority: 1',
+        'triggers:',
+        '  - type: label',
+        '    value: draft',
+        '---',
+        '',
+      ].join('\n'));
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const skills = initSkillRegistry(skillsDir);
+
+      expect(skills.map((s) => s.name)).not.toContain('draft-skill');
+      expect(errorSpy).toHaveBeenCalledTimes(1);
+      expect(errorSpy).toHaveBeenCalledWith(
+        '[SkillPolicy] Skills not registered:\n' +
+          '  - draft-skill: SKILL.md has no instructions after the front-matter\n' +
+          '  - empty-skill: no SKILL.md'
+      );
+      errorSpy.mockRestore();
+    });
+
+    it('should report the bundled security-skill at boot', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      initSkillRegistry();
+
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('security-skill: SKILL.md has no instructions')
+      );
+      expect(getSkillByName('security-skill')).toBeUndefined();
+      errorSpy.mockRestore();
+    });
+
+    it('should fail with a clear message when the skills directory is missing', () => {
+      expect(() => initSkillRegistry(path.join(skillsDir, 'missing'))).toThrow(
+        /^Skills directory not found: .*missing \(run "npm run build"/
+      );
+    });
+
+    it('should default undeclared tools to read-only tools', () => {
+      initSkillRegistry(skillsDir);
+
+      const tools = getSkillByName('security-skill')?.tools || [];
+
+      expect(tools).toContain('github_getFileContent');
+      expect(tools).not.toContain('github_createComment');
+    });
+
+    it('should fail loudly on unknown tool names', () => {
+      writeSkill('typo-skill', [
+        '---',
+        'name: typo-skill',
+        'description: Misspells a tool',
+        'priority: 1',
+        'triggers:',
+        '  - type: label',
+        '    value: typo',
+        'tools: [github_createComent]',
+        '---',
+      ].join('\n'));
+
+      expect(() => initSkillRegistry(skillsDir)).toThrow(/unknown tools: github_createComent/);
+    });
+
+    it('should not accept object prototype keys as tool names', () => {
+      writeSkill('proto-skill', [
+        '---',
+        'name: proto-skill',
+        'description: Lists prototype keys',
+        'priority: 1',
+        'triggers:',
+        '  - type: label',
+        '    value: proto',
+        'tools: [constructor, toString]',
+        '---',
+      ].join('\n'));
+
+      expect(() => initSkillRegistry(skillsDir)).toThrow(
+        /unknown tools: constructor, toString/
+      );
+    });
+
+    it('should report YAML errors per file together with other problems', () => {
+      writeSkill('yaml-skill', [
+        '---',
+        'name: yaml-skill',
+        'triggers: [unclosed',
+        '---',
+        '# Broken',
+      ].join('\n'));
+      writeSkill('typo-skill', [
+        '---',
+        'name: typo-skill',
+        'description: Misspells a tool',
+        'priority: 1',
+        'triggers:',
+        '  - type: label',
+        '    value: typo',
+        'tools: [github_createComent]',
+        '---',
+        '# Typo',
+      ].join('\n'));
+
+      expect(() => initSkillRegistry(skillsDir)).toThrow(
+        /typo-skill\/SKILL.md: "tools" lists unknown tools: github_createComent\n {2}- yaml-skill\/SKILL.md: front-matter is not valid YAML: /
+      );
+    });
+
+    it('should read requires_approval and fail loudly on unknown tool names', () => {
+      writeSkill('gated-skill', [
+        '---',
+        'name: gated-skill',
+        'description: Opens pull requests after approval',
+        'priority: 1',
+        'triggers:',
+        '  - type: label',
+        '    value: gated',
+        'requires_approval: [github_createPullRequest]',
+        '---',
+        '# Gated',
+      ].join('\n'));
+
+      initSkillRegistry(skillsDir);
+      expect(getSkillByName('gated-skill')?.requiresApproval).toEqual(['github_createPullRequest']);
+      expect(getSkillByName('bugfix-skill')?.requiresApproval).toEqual([]);
+
+      writeSkill('gated-skill', [
+        '---',
+        'name: gated-skill',
+        'description: Misspells a gated tool',
+        'priority: 1',
+        'triggers:',
+        '  - type: label',
+        '    value: gated',
+        'requires_approval: [github_mergePullRequest]',
+        '---',
+      ].join('\n'));
+
+      expect(() => initSkillRegistry(skillsDir)).toThrow(
+        /"requires_approval" lists unknown tools: github_mergePullRequest/
+      );
+    });
+
+    it('should fail loudly on SKILL.md without front-matter', () => {
+      writeSkill('plain-skill', '# Plain Skill\n\nNo metadata here.');
+
+      expect(() => initSkillRegistry(skillsDir)).toThrow(/plain-skill\/SKILL.md: missing YAML front-matter/);
+    });
+
+    it('should fail loudly on invalid front-matter fields', () => {
+      writeSkill('broken-skill', [
+        '---',
+        'name: other-name',
+        'priority: high',
+        'triggers:',
+        '  - type: filename',
+        '    value: 42',
+        '---',
+      ].join('\n'));
+
+      expect(() => initSkillRegistry(skillsDir)).toThrow(/must match the directory name/);
+      expect(() => initSkillRegistry(skillsDir)).toThrow(/"description" must be a non-empty string/);
+      expect(() => initSkillRegistry(skillsDir)).toThrow(/"priority" must be a number/);
+      expect(() => initSkillRegistry(skillsDir)).toThrow(/triggers\[0\]\.type must be one of/);
+      expect(() => initSkillRegistry(skillsDir)).toThrow(/triggers\[0\]\.value must be a string/);
+    });
+
+    it('should fetch PR files once and select path_pattern skills', async () => {
+      initSkillRegistry(skillsDir);
+      const listPullRequestFiles = githubTool.listPullRequestFiles as jest.Mock;
+      listPullRequestFiles.mockReset();
+      listPullRequestFiles.mockResolvedValue([
+        { filename: 'db/migrations/2024/001_add_users.sql' },
+        { filename: 'src/index.ts' },
+      ]);
+
+      const context = createMockContext({
+        eventType: 'pull_request',
+        pullRequest: {
+          number: 9,
+          title: 'Add users table',
+          body: '',
+          headBranch: 'users',
+          baseBranch: 'develop',
+        },
+      });
+
+      await resolveChangedFiles(context);
+      await resolveChangedFiles(context);
+
+      expect(listPullRequestFiles).toHaveBeenCalledTimes(1);
+      expect(selectSkills(context).map((s) => s.name)).toContain('migration-review-skill');
+    });
+
+    it('should not select path_pattern skills when no file matches', () => {
+      initSkillRegistry(skillsDir);
+      const context = createMockContext({ changedFiles: ['src/index.ts'] });
+
+      expect(selectSkills(context).map((s) => s.name)).not.toContain('migration-review-skill');
+    });
+  });
+
+  describe('getAllowedTools', () => {
+    it('should not let code review commit files', () => {
+      const skill = getSkillByName('code-review-skill');
+      expect(skill).toBeDefined();
+
+      const allowed = getAllowedTools(skill ? [skill] : []);
+
+      expect(allowed.has('github_createPullRequestReview')).toBe(true);
+      expect(allowed.has('github_createOrUpdateFile')).toBe(false);
+      expect(allowed.has('github_createBranch')).toBe(false);
+    });
+
+    it('should union the tools of all selected skills', () => {
+      const bugfix = getSkillByName('bugfix-skill');
+      const review = getSkillByName('code-review-skill');
+
+      const allowed = getAllowedTools([bugfix, review].filter((s) => s !== undefined));
+
+      expect(allowed.has('github_createOrUpdateFile')).toBe(true);
+      expect(allowed.has('github_createPullRequestReview')).toBe(true);
+      expect(allowed.has('fs_writeFile')).toBe(false);
+    });
+
+    it('should allow only read-only tools when no skill is selected', () => {
+      const allowed = getAllowedTools([]);
+
+      expect(allowed.has('github_getIssue')).toBe(true);
+      expect(allowed.has('github_createComment')).toBe(false);
+      expect(allowed.has('http_post')).toBe(false);
+    });
+  });
+
+  describe('getApprovalTools', () => {
+    const original = process.env.APPROVAL_REQUIRED_TOOLS;
+
+    afterEach(() => {
+      if (original === undefined) {
+        delete process.env.APPROVAL_REQUIRED_TOOLS;
+      } else {
+        process.env.APPROVAL_REQUIRED_TOOLS = original;
+      }
+    });
+
+    it('should combine repository configuration and skill lists', () => {
+      process.env.APPROVAL_REQUIRED_TOOLS = JSON.stringify({ 'test/repo': ['github_createBranch'] });
+      const bugfix = getSkillByName('bugfix-skill');
+      const skill = bugfix && { ...bugfix, requiresApproval: ['github_createPullRequest'] };
+
+      const gated = getApprovalTools(skill ? [skill] : [], 'test/repo');
+
+      expect([...gated].sort()).toEqual(['github_createBranch', 'github_createPullRequest']);
+      expect(getApprovalTools([], 'other/repo').size).toBe(0);
+    });
+  });
+
+  describe('parseSkillFrontMatter', () => {
+    it('should split front-matter from the body', () => {
+      const { metadata, body } = parseSkillFrontMatter('---\nname: x\n---\n# Body\n');
+
+      expect(metadata).toEqual({ name: 'x' });
+      expect(body).toBe('# Body\n');
+    });
+
+    it('should return undefined metadata when there is no front-matter', () => {
+      const { metadata, body } = parseSkillFrontMatter('# Body');
+
+      expect(metadata).toBeUndefined();
+      expect(body).toBe('# Body');
+    });
+  });
 });
@@ -0,0 +1,112 @@
+/**
+ * Tool Result Paging Tests
+ */
+
+import {
+  ToolResultStore,
+  getToolResultMaxChars,
+  readToolResult,
+  readToolResultDefinition,
+  truncateToolResult,
+} from '../../agent/toolResults';
+import { validateToolInput } from '../../agent/toolRegistry';
+
+const diff = 'a'.repeat(600) + 'b'.repeat(300) + 'c'.repeat(100);
+
+describe('truncateToolResult', () => {
+  it('should leave results within the limit unchanged and unstored', () => {
+    const store = new ToolResultStore();
+
+    expect(truncateToolResult('call_1', 'github_getPullRequestDiff', 'short', 100, store)).toBe(
+      'short'
+    );
+    expect(store.get('call_1')).toBeUndefined();
+  });
+
+  it('should keep the head and tail of large results and store the full text', () => {
+    const store = new ToolResultStore();
+
+    const preview = truncateToolResult('call_1', 'github_getPullRequestDiff', diff, 200, store);
+
+    expect(preview.split('\n')).toEqual([
+      '[Truncated tool result: github_getPullRequestDiff, 1000 characters, ref "call_1". ' +
+        'Showing the first 150 and the last 50 characters. ' +
+        'Call read_tool_result with {"ref":"call_1","offset":150} to read the rest.]',
+      'a'.repeat(150),
+      '... (800 characters omitted) ...',
+      'c'.repeat(50),
+    ]);
+    expect(store.get('call_1')).toEqual({ tool: 'github_getPullRequestDiff', content: diff });
+  });
+});
+
+describe('readToolResult', () => {
+  const store = new ToolResultStore();
+  store.save('call_1', { tool: 'github_getPullRequestDiff', content: diff });
+
+  it('should page through a stored result', () => {
+    const first = readToolResult(store, { ref: 'call_1', offset: 550 }, 400);
+
+    expect(first).toEqual({
+      ref: 'call_1',
+      tool: 'github_getPullRequestDiff',
+      offset: 550,
+      totalLength: 1000,
+      content: 'a'.repeat(50) + 'b'.repeat(300) + 'c'.repeat(50),
+      nextOffset: 950,
+    });
+
+    const last = readToolResult(store, { ref: 'call_1', offset: first.nextOffset }, 400);
+    expect(last.content).toBe('c'.repeat(50));
+    expect(last.nextOffset).toBeUndefined();
+  });
+
+  it('should cap the requested length at the limit', () => {
+    expect(readToolResult(store, { ref: 'call_1', length: 5000 }, 400).content).toHaveLength(400);
+    expect(readToolResult(store, { ref: 'call_1', length: 10 }, 400).content).toHaveLength(10);
+  });
+
+  it('should reject unknown refs and offsets past the end', () => {
+    expect(() => readToolResult(store, { ref: 'call_9' }, 400)).toThrow(
+      'No stored tool result with ref "call_9"'
+    );
+    expect(() => readToolResult(store, { ref: 'call_1', offset: 1000 }, 400)).toThrow(
+      'offset 1000 is past the end of the result (1000 characters)'
+    );
+  });
+
+  it('should validate its arguments against its definition', () => {
+    const definitions = [readToolResultDefinition];
+
+    expect(validateToolInput('read_tool_result', { ref: 'call_1' }, definitions)).toEqual([]);
+    expect(
+      validateToolInput('read_tool_result', { ref: 'call_1', offset: -1 }, definitions)
+    ).toEqual(['offset: must be >= 0, got -1']);
+  });
+});
+
+describe('getToolResultMaxChars', () => {
+  const original = process.env.TOOL_RESULT_MAX_CHARS;
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.TOOL_RESULT_MAX_CHARS;
+    } else {
+      process.env.TOOL_RESULT_MAX_CHARS = original;
+    }
+  });
+
+  it('should default to 20000 characters', () => {
+    delete process.env.TOOL_RESULT_MAX_CHARS;
+
+    expect(getToolResultMaxChars()).toBe(20000);
+  });
+
+  it('should reject invalid values', () => {
+    process.env.TOOL_RESULT_MAX_CHARS = '1.5';
+
+    expect(() => getToolResultMaxChars()).toThrow(
+      'TOOL_RESULT_MAX_CHARS must be a positive integer, got "1.5"'
+    );
+  });
+});
@@ -3,6 +3,7 @@
  */
 
 import { IdempotencyGuard } from '../../jobs/IdempotencyGuard';
+import { MemoryJobStore } from '../../jobs/MemoryJobStore';
 
 describe('IdempotencyGuard', () => {
   let guard: IdempotencyGuard;
@@ -244,4 +245,250 @@ describe('IdempotencyGuard', () => {
       expect(result).toBe(true);
     });
   });
+
+  describe('leases', () => {
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    it('should set a lease when claiming and clear it on completion', async () => {
+      const jobId = `lease-job-${Date.now()}-1`;
+
+      await guard.isDuplicate(jobId);
+      expect((await guard.getStatus(jobId))?.leaseExpiresAt).toBeInstanceOf(Date);
+
+      await guard.markComplete(jobId);
+      expect((await guard.getStatus(jobId))?.leaseExpiresAt).toBeUndefined();
+    });
+
+    it('should let a redelivery claim a job whose lease expired', async () => {
+      const guard = new IdempotencyGuard({ maxAttempts: 3, leaseDuration: 30 });
+      const jobId = `lease-job-${Date.now()}-2`;
+
+      // First worker claims, then "crashes" without marking anything
+      await guard.isDuplicate(jobId);
+      expect(await guard.isDuplicate(jobId)).toBe(true);
+
+      await sleep(50);
+
+      expect(await guard.isDuplicate(jobId)).toBe(false);
+      expect((await guard.getStatus(jobId))?.attempts).toBe(2);
+    });
+
+    it('should not let a worker whose lease expired finish over a newer claim', async () => {
+      const guard = new IdempotencyGuard({ maxAttempts: 3, leaseDuration: 30 });
+      const jobId = `lease-job-${Date.now()}-8`;
+
+      await guard.isDuplicate(jobId);
+      const staleLease = (await guard.getStatus(jobId))?.leaseId;
+      await sleep(50);
+      await guard.isDuplicate(jobId);
+      const currentLease = (await guard.getStatus(jobId))?.leaseId;
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      expect(currentLease).not.toBe(staleLease);
+      expect(await guard.markComplete(jobId, staleLease)).toBe(false);
+      expect(await guard.markFailed(jobId, new Error('late'), staleLease)).toBe(false);
+      expect((await guard.getStatus(jobId))?.status).toBe('processing');
+
+      expect(await guard.markComplete(jobId, currentLease)).toBe(true);
+      expect((await guard.getStatus(jobId))?.status).toBe('completed');
+      jest.restoreAllMocks();
+    });
+
+    it('should not reclaim an expired job past max attempts', async () => {
+      const guard = new IdempotencyGuard({ maxAttempts: 1, leaseDuration: 20 });
+      const jobId = `lease-job-${Date.now()}-3`;
+
+      await guard.isDuplicate(jobId);
+      await sleep(40);
+
+      expect(await guard.isDuplicate(jobId)).toBe(true);
+    });
+
+    it('should keep the job claimed while the heartbeat renews it', async () => {
+      const guard = new IdempotencyGuard({ leaseDuration: 60 });
+      const jobId = `lease-job-${Date.now()}-4`;
+
+      await guard.isDuplicate(jobId);
+      const stopHeartbeat = guard.startHeartbeat(jobId);
+      await sleep(150);
+
+      expect(await guard.isDuplicate(jobId)).toBe(true);
+
+      stopHeartbeat();
+    });
+
+    it('should refuse to renew a lease the job no longer holds', async () => {
+      const jobId = `lease-job-${Date.now()}-5`;
+
+      await guard.isDuplicate(jobId);
+      await guard.markFailed(jobId, new Error('Failure'));
+
+      expect(await guard.renewLease(jobId)).toBe(false);
+    });
+
+    it('should not let a stale lease extend a newer claim', async () => {
+      const guard = new IdempotencyGuard({ maxAttempts: 3, leaseDuration: 30 });
+      const jobId = `lease-job-${Date.now()}-9`;
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      await guard.isDuplicate(jobId);
+      const staleLease = (await guard.getStatus(jobId))?.leaseId;
+      await sleep(50);
+      await guard.isDuplicate(jobId);
+      const current = await guard.getStatus(jobId);
+      const stopHeartbeat = guard.startHeartbeat(jobId, staleLease);
+
+      try {
+        expect(await guard.renewLease(jobId, staleLease)).toBe(false);
+        await sleep(50);
+
+        // The newer claim was never renewed, so its lease ran out and can be recovered
+        expect((await guard.getStatus(jobId))?.leaseExpiresAt).toEqual(current?.leaseExpiresAt);
+        await guard.recoverExpired();
+        expect((await guard.getStatus(jobId))?.status).toBe('failed');
+      } finally {
+        stopHeartbeat();
+        jest.restoreAllMocks();
+      }
+    });
+
+    it('should mark expired processing jobs as failed in the recovery sweep', async () => {
+      const guard = new IdempotencyGuard({ leaseDuration: 20 });
+      const expired = `lease-job-${Date.now()}-6`;
+      const live = `lease-job-${Date.now()}-7`;
+
+      await guard.isDuplicate(expired);
+      await sleep(40);
+      await new IdempotencyGuard().isDuplicate(live);
+
+      expect(await guard.recoverExpired()).toBeGreaterThanOrEqual(1);
+
+      const recovered = await guard.getStatus(expired);
+      expect(recovered?.status).toBe('failed');
+      expect(recovered?.error).toMatch(/Lease expired/);
+      expect((await guard.getStatus(live))?.status).toBe('processing');
+    });
+  });
+
+  describe('retry scheduling', () => {
+    it('should schedule a retry for transient errors', async () => {
+      const jobId = `sched-job-${Date.now()}-1`;
+
+      await guard.isDuplicate(jobId);
+      await guard.markFailed(jobId, new Error('GitHub API error (502): Bad Gateway'));
+
+      const record = await guard.getStatus(jobId);
+      expect(record?.status).toBe('failed');
+      expect(record?.nextRetryAt).toBeInstanceOf(Date);
+      expect(record!.nextRetryAt!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should dead-letter permanent errors immediately', async () => {
+      const jobId = `sched-job-${Date.now()}-2`;
+
+      await guard.isDuplicate(jobId);
+      await guard.markFailed(jobId, Object.assign(new Error('Bad credentials'), { status: 401 }));
+
+      expect((await guard.getStatus(jobId))?.status).toBe('dead_letter');
+      expect(await guard.isDuplicate(jobId)).toBe(true);
+    });
+
+    it('should dead-letter once attempts are used up', async () => {
+      const guard = new IdempotencyGuard({ maxAttempts: 1 });
+      const jobId = `sched-job-${Date.now()}-3`;
+
+      await guard.isDuplicate(jobId);
+      await guard.markFailed(jobId, new Error('503 Service Unavailable'));
+
+      expect((await guard.getStatus(jobId))?.status).toBe('dead_letter');
+    });
+
+    it('should list failed jobs once their backoff has passed', async () => {
+      const guard = new IdempotencyGuard({ retryDelay: 20 });
+      const jobId = `sched-job-${Date.now()}-4`;
+
+      await guard.isDuplicate(jobId);
+      await guard.markFailed(jobId, new Error('overloaded'));
+
+      expect((await guard.getDueRetries()).map((r) => r.id)).not.toContain(jobId);
+
+      await new Promise((resolve) => setTimeout(resolve, 40));
+
+      expect((await guard.getDueRetries()).map((r) => r.id)).toContain(jobId);
+    });
+
+    it('should not read the store again before a known retry is due', async () => {
+      const store = new MemoryJobStore();
+      const scanning = new IdempotencyGuard({ retryDelay: 30 }, store);
+      const list = jest.spyOn(store, 'list');
+
+      await scanning.claim('scan-1');
+      await scanning.markFailed('scan-1', new Error('overloaded'));
+      await scanning.getDueRetries();
+      await scanning.getDueRetries();
+
+      expect(list).toHaveBeenCalledTimes(1);
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect((await scanning.getDueRetries()).map((r) => r.id)).toEqual(['scan-1']);
+      expect(list).toHaveBeenCalledTimes(2);
+    });
+
+    it('should store claim metadata on the record', async () => {
+      const jobId = `sched-job-${Date.now()}-5`;
+
+      await guard.isDuplicate(jobId, { eventType: 'issues' });
+
+      expect((await guard.getStatus(jobId))?.metadata).toEqual({ eventType: 'issues' });
+    });
+  });
+
+  describe('approvals', () => {
+    const approval = {
+      tool: 'github_createPullRequest',
+      input: { title: 'Fix' },
+      state: { messages: [], iteration: 1, completedSteps: [], pendingToolCalls: [] },
+    };
+
+    it('should park a processing job without a lease', async () => {
+      const jobId = `approval-job-${Date.now()}-1`;
+
+      await guard.isDuplicate(jobId);
+      expect(await guard.markAwaitingApproval(jobId, approval)).toBe(true);
+
+      const record = await guard.getStatus(jobId);
+      expect(record?.status).toBe('awaiting_approval');
+      expect(record?.leaseExpiresAt).toBeUndefined();
+      expect(record?.approval?.requestedAt).toBeInstanceOf(Date);
+
+      // Redeliveries must not start the job again while it waits
+      expect(await guard.claim(jobId)).toBe(false);
+      expect((await guard.getStats()).awaiting_approval).toBe(1);
+    });
+
+    it('should resolve an approval only once', async () => {
+      const jobId = `approval-job-${Date.now()}-2`;
+
+      await guard.isDuplicate(jobId);
+      await guard.markAwaitingApproval(jobId, approval);
+
+      const resolved = await guard.resolveApproval(jobId, { approved: true, by: 'alice' });
+      expect(resolved?.status).toBe('processing');
+      expect(resolved?.leaseExpiresAt).toBeInstanceOf(Date);
+      expect(resolved?.approval?.decision).toMatchObject({ approved: true, by: 'alice' });
+
+      expect(await guard.resolveApproval(jobId, { approved: false, by: 'bob' })).toBeUndefined();
+    });
+
+    it('should let a job awaiting approval be cancelled', async () => {
+      const jobId = `approval-job-${Date.now()}-3`;
+
+      await guard.isDuplicate(jobId);
+      await guard.markAwaitingApproval(jobId, approval);
+
+      expect(await guard.cancel(jobId)).toBe(true);
+      expect(await guard.resolveApproval(jobId, { approved: true, by: 'alice' })).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,118 @@
+/**
+ * JobQueue Tests
+ */
+
+import { JobQueue, QueueJob } from '../../jobs/JobQueue';
+
+/**
+ * Handler whose jobs only finish when the test releases them
+ */
+function createControlledHandler() {
+  const started: string[] = [];
+  const releases = new Map<string, () => void>();
+
+  const handler = (job: QueueJob<string>) =>
+    new Promise<void>((resolve) => {
+      started.push(job.id);
+      releases.set(job.id, resolve);
+    });
+
+  const release = async (id: string) => {
+    releases.get(id)?.();
+    // Let the queue's finally/dispatch run
+    await new Promise((resolve) => setImmediate(resolve));
+  };
+
+  return { handler, started, release };
+}
+
+describe('JobQueue', () => {
+  it('should never run more jobs than workers', async () => {
+    const { handler, started, release } = createControlledHandler();
+    const queue = new JobQueue(handler, { workers: 2, perRepoConcurrency: 10 });
+
+    for (const id of ['a', 'b', 'c', 'd']) {
+      queue.enqueue({ id, repo: 'owner/repo', payload: id });
+    }
+
+    expect(started).toEqual(['a', 'b']);
+    expect(queue.getStats()).toMatchObject({ queued: 2, running: 2, idleWorkers: 0 });
+
+    await release('a');
+    expect(started).toEqual(['a', 'b', 'c']);
+
+    await release('b');
+    await release('c');
+    await release('d');
+    await queue.onIdle();
+
+    expect(queue.getStats()).toMatchObject({ queued: 0, running: 0, processed: 4 });
+  });
+
+  it('should run higher priority first and keep FIFO within a priority', async () => {
+    const { handler, started, release } = createControlledHandler();
+    const queue = new JobQueue(handler, { workers: 1, perRepoConcurrency: 1 });
+
+    queue.enqueue({ id: 'blocker', repo: 'owner/repo', payload: '' });
+    queue.enqueue({ id: 'low-1', repo: 'owner/repo', priority: 0, payload: '' });
+    queue.enqueue({ id: 'high-1', repo: 'owner/repo', priority: 10, payload: '' });
+    queue.enqueue({ id: 'low-2', repo: 'owner/repo', priority: 0, payload: '' });
+    queue.enqueue({ id: 'high-2', repo: 'owner/repo', priority: 10, payload: '' });
+
+    for (const id of ['blocker', 'high-1', 'high-2', 'low-1', 'low-2']) {
+      await release(id);
+    }
+
+    expect(started).toEqual(['blocker', 'high-1', 'high-2', 'low-1', 'low-2']);
+  });
+
+  it('should enforce per-repository concurrency without blocking other repos', async () => {
+    const { handler, started, release } = createControlledHandler();
+    const queue = new JobQueue(handler, { workers: 3, perRepoConcurrency: 1 });
+
+    queue.enqueue({ id: 'busy-1', repo: 'owner/busy', payload: '' });
+    queue.enqueue({ id: 'busy-2', repo: 'owner/busy', payload: '' });
+    queue.enqueue({ id: 'other-1', repo: 'owner/other', payload: '' });
+
+    expect(started).toEqual(['busy-1', 'other-1']);
+    expect(queue.getStats()).toMatchObject({
+      queued: 1,
+      running: 2,
+      queuedByRepo: { 'owner/busy': 1 },
+    });
+
+    await release('busy-1');
+    expect(started).toEqual(['busy-1', 'other-1', 'busy-2']);
+  });
+
+  it('should keep working after a handler throws', async () => {
+    const queue = new JobQueue<string>(
+      async (job) => {
+        if (job.payload === 'fail') throw new Error('boom');
+      },
+      { workers: 1 }
+    );
+
+    queue.enqueue({ id: 'x', repo: 'owner/repo', payload: 'fail' });
+    queue.enqueue({ id: 'y', repo: 'owner/repo', payload: 'ok' });
+    await queue.onIdle();
+
+    expect(queue.getStats()).toMatchObject({ processed: 2, failed: 1, running: 0 });
+  });
+
+  it('should list active jobs in getStats', () => {
+    const { handler } = createControlledHandler();
+    const queue = new JobQueue(handler, { workers: 1 });
+
+    queue.enqueue({ id: 'job-1', repo: 'owner/repo', payload: '' });
+
+    const stats = queue.getStats();
+    expect(stats.active).toHaveLength(1);
+    expect(stats.active[0]).toMatchObject({ id: 'job-1', repo: 'owner/repo' });
+    expect(stats.active[0].startedAt).toBeInstanceOf(Date);
+  });
+
+  it('should reject invalid configuration', () => {
+    expect(() => new JobQueue(async () => undefined, { workers: 0 })).toThrow();
+  });
+});
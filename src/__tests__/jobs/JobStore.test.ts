@@ -0,0 +1,286 @@
+/**
+ * Job Store Tests
+ *
+ * Every backend runs the same suite, including guard behavior on top of it.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IdempotencyGuard, JobRecord } from '../../jobs/IdempotencyGuard';
+import { JobStore } from '../../jobs/JobStore';
+import { MemoryJobStore } from '../../jobs/MemoryJobStore';
+import { FileJobStore } from '../../jobs/FileJobStore';
+
+const tempDirs: string[] = [];
+
+const backends: Array<[string, () => JobStore]> = [
+  ['MemoryJobStore', () => new MemoryJobStore()],
+  [
+    'FileJobStore',
+    () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-'));
+      tempDirs.push(dir);
+      return new FileJobStore(dir);
+    },
+  ],
+];
+
+afterAll(() => {
+  for (const dir of tempDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe.each(backends)('%s', (_name, createStore) => {
+  let store: JobStore;
+
+  const createRecord = (id: string, overrides: Partial<JobRecord> = {}): JobRecord => ({
+    id,
+    status: 'processing',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    attempts: 1,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  describe('storage', () => {
+    it('should return undefined for unknown records', async () => {
+      expect(await store.get('missing')).toBeUndefined();
+    });
+
+    it('should round-trip records including dates and metadata', async () => {
+      const record = createRecord('delivery-1', {
+        completedAt: new Date('2026-01-01T00:05:00Z'),
+        metadata: { repo: 'owner/repo' },
+      });
+
+      await store.put(record);
+      const loaded = await store.get('delivery-1');
+
+      expect(loaded).toEqual(record);
+      expect(loaded?.createdAt).toBeInstanceOf(Date);
+      expect(loaded?.completedAt).toBeInstanceOf(Date);
+    });
+
+    it('should only revive the record\'s own date fields', async () => {
+      const record = createRecord('delivery-dates', {
+        metadata: { context: { createdAt: '2026-01-01T00:00:00Z' } },
+        steps: {
+          'step-1': {
+            key: 'step-1',
+            tool: 'github_createComment',
+            input: {},
+            result: { id: 1, createdAt: '2026-01-01T00:01:00Z' },
+            recordedAt: new Date('2026-01-01T00:01:00Z'),
+          },
+        },
+        approval: {
+          tool: 'github_createPullRequest',
+          input: {},
+          state: { updatedAt: '2026-01-01T00:02:00Z' },
+          requestedAt: new Date('2026-01-01T00:02:00Z'),
+          decision: { approved: true, by: 'octocat', decidedAt: new Date('2026-01-01T00:03:00Z') },
+        },
+      });
+
+      await store.put(record);
+      const loaded = await store.get('delivery-dates');
+
+      expect(loaded).toEqual(record);
+      expect(loaded?.steps?.['step-1'].recordedAt).toBeInstanceOf(Date);
+      expect(loaded?.approval?.decision?.decidedAt).toBeInstanceOf(Date);
+      expect(typeof (loaded?.metadata?.context as { createdAt: unknown }).createdAt).toBe('string');
+    });
+
+    it('should not expose stored records to mutation', async () => {
+      await store.put(createRecord('delivery-2'));
+
+      const loaded = await store.get('delivery-2');
+      if (loaded) loaded.status = 'failed';
+
+      expect((await store.get('delivery-2'))?.status).toBe('processing');
+    });
+
+    it('should list and delete records', async () => {
+      await store.put(createRecord('a'));
+      await store.put(createRecord('b'));
+
+      expect((await store.list()).map((r) => r.id).sort()).toEqual(['a', 'b']);
+      expect(await store.delete('a')).toBe(true);
+      expect(await store.delete('a')).toBe(false);
+      expect((await store.list()).map((r) => r.id)).toEqual(['b']);
+    });
+
+    it('should only create through compareAndSwap when the record is absent', async () => {
+      expect(await store.compareAndSwap(null, createRecord('cas-1', { version: 1 }))).toBe(true);
+      expect(await store.compareAndSwap(null, createRecord('cas-1', { version: 1 }))).toBe(false);
+    });
+
+    it('should reject compareAndSwap with a stale version', async () => {
+      await store.put(createRecord('cas-2', { version: 3 }));
+
+      expect(await store.compareAndSwap(2, createRecord('cas-2', { version: 3, attempts: 9 }))).toBe(false);
+      expect(await store.compareAndSwap(3, createRecord('cas-2', { version: 4, attempts: 2 }))).toBe(true);
+      expect((await store.get('cas-2'))?.attempts).toBe(2);
+    });
+
+    it('should treat unversioned records as version 0', async () => {
+      await store.put(createRecord('cas-3'));
+
+      expect(await store.compareAndSwap(0, createRecord('cas-3', { version: 1 }))).toBe(true);
+    });
+
+    it('should only delete with a matching version when one is given', async () => {
+      await store.put(createRecord('versioned', { version: 2 }));
+
+      expect(await store.delete('versioned', 1)).toBe(false);
+      expect(await store.get('versioned')).toBeDefined();
+      expect(await store.delete('versioned', 2)).toBe(true);
+      expect(await store.delete('versioned', 2)).toBe(false);
+    });
+
+    it('should handle IDs that are not filesystem-safe', async () => {
+      await store.put(createRecord('../weird/id:1'));
+
+      expect((await store.get('../weird/id:1'))?.id).toBe('../weird/id:1');
+    });
+  });
+
+  describe('with IdempotencyGuard', () => {
+    let guard: IdempotencyGuard;
+
+    beforeEach(() => {
+      guard = new IdempotencyGuard({ ttl: 50, maxAttempts: 2, retryDelay: 10 }, store);
+    });
+
+    it('should apply the same status transitions', async () => {
+      expect(await guard.isDuplicate('job-1')).toBe(false);
+      expect(await guard.isDuplicate('job-1')).toBe(true);
+
+      await guard.markFailed('job-1', new Error('boom'));
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(await guard.isDuplicate('job-1')).toBe(false);
+      expect((await guard.getStatus('job-1'))?.attempts).toBe(2);
+
+      await guard.markComplete('job-1');
+      expect(await guard.isDuplicate('job-1')).toBe(true);
+      expect((await guard.getStatus('job-1'))?.status).toBe('completed');
+    });
+
+    it('should let exactly one of many concurrent claims win', async () => {
+      const guards = Array.from({ length: 5 }, () => new IdempotencyGuard({}, store));
+
+      const results = await Promise.all(
+        Array.from({ length: 50 }, (_, i) => guards[i % guards.length].claim('race-1'))
+      );
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+      expect((await guard.getStatus('race-1'))?.attempts).toBe(1);
+    });
+
+    it('should let exactly one concurrent retry of a failed job win', async () => {
+      await guard.claim('race-2');
+      await guard.markFailed('race-2', new Error('boom'));
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      const results = await Promise.all(
+        Array.from({ length: 20 }, () => guard.claim('race-2'))
+      );
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+      expect((await guard.getStatus('race-2'))?.attempts).toBe(2);
+    });
+
+    it('should report stats from the store', async () => {
+      await guard.isDuplicate('job-2');
+      await guard.isDuplicate('job-3');
+      await guard.markComplete('job-3');
+
+      expect(await guard.getStats()).toEqual({
+        total: 2,
+        pending: 0,
+        processing: 1,
+        completed: 1,
+        failed: 0,
+        dead_letter: 0,
+        cancelled: 0,
+        awaiting_approval: 0,
+      });
+    });
+
+    it('should clean up expired records', async () => {
+      await guard.isDuplicate('job-4');
+      await guard.markComplete('job-4');
+      await new Promise((resolve) => setTimeout(resolve, 80));
+
+      expect(await guard.cleanup()).toBe(1);
+      expect(await guard.getStatus('job-4')).toBeUndefined();
+    });
+
+    it('should keep unfinished records past the TTL', async () => {
+      await guard.isDuplicate('job-5');
+      await guard.isDuplicate('job-6');
+      await guard.markFailed('job-6', new Error('ECONNRESET'));
+      await new Promise((resolve) => setTimeout(resolve, 80));
+
+      expect(await guard.cleanup()).toBe(0);
+      expect((await guard.getStatus('job-5'))?.status).toBe('processing');
+      expect((await guard.getStatus('job-6'))?.status).toBe('failed');
+    });
+  });
+});
+
+describe('FileJobStore persistence', () => {
+  it('should keep records across store instances (restart)', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-'));
+    tempDirs.push(dir);
+
+    const before = new IdempotencyGuard({}, new FileJobStore(dir));
+    await before.isDuplicate('delivery-restart');
+    await before.markComplete('delivery-restart');
+
+    const after = new IdempotencyGuard({}, new FileJobStore(dir));
+
+    expect(await after.isDuplicate('delivery-restart')).toBe(true);
+  });
+
+  it('should skip unreadable files when listing', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-'));
+    tempDirs.push(dir);
+    const guard = new IdempotencyGuard({}, new FileJobStore(dir));
+    await guard.claim('readable');
+    fs.writeFileSync(path.join(dir, 'truncated.json'), '{"id": "trunc');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    try {
+      expect((await guard.list()).map((r) => r.id)).toEqual(['readable']);
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('truncated.json'),
+        expect.any(Error)
+      );
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('should let one claim win across store instances sharing a directory', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-'));
+    tempDirs.push(dir);
+
+    // Separate instances stand in for separate server processes
+    const guards = Array.from({ length: 4 }, () => new IdempotencyGuard({}, new FileJobStore(dir)));
+
+    const results = await Promise.all(
+      Array.from({ length: 40 }, (_, i) => guards[i % guards.length].claim('shared-delivery'))
+    );
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(fs.readdirSync(dir)).toEqual(['shared-delivery.json']);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Job Usage Tracker Tests
+ */
+
+import { toDay } from '../../agent/budget';
+import { IdempotencyGuard } from '../../jobs/IdempotencyGuard';
+import { MemoryJobStore } from '../../jobs/MemoryJobStore';
+import { JobUsageTracker, getJobSpend } from '../../jobs/JobUsageTracker';
+
+describe('JobUsageTracker', () => {
+  let store: MemoryJobStore;
+  let guard: IdempotencyGuard;
+
+  const claim = (id: string, fullName: string) =>
+    guard.claim(id, { context: { repository: { fullName } } });
+
+  beforeEach(() => {
+    store = new MemoryJobStore();
+    guard = new IdempotencyGuard({}, store);
+  });
+
+  it('should record spend on the job record', async () => {
+    await claim('job-1', 'acme/api');
+
+    await new JobUsageTracker(guard).record('job-1', 'acme/api', 100, 0.1);
+    await new JobUsageTracker(guard).record('job-1', 'acme/api', 50, 0.05);
+
+    const record = await guard.getStatus('job-1');
+    expect(record?.spend?.[toDay(new Date())]?.totalTokens).toBe(150);
+    expect(getJobSpend(record).costUsd).toBeCloseTo(0.15);
+  });
+
+  it('should sum the day\'s spend of a repository from the store', async () => {
+    await claim('job-1', 'acme/api');
+    await claim('job-2', 'acme/api');
+    await claim('job-3', 'acme/web');
+    await guard.recordSpend('job-1', toDay(new Date()), 100, 0.1);
+    await guard.recordSpend('job-2', toDay(new Date()), 50, 0.05);
+    await guard.recordSpend('job-2', '2000-01-01', 1000, 1);
+    await guard.recordSpend('job-3', toDay(new Date()), 10, 0.01);
+
+    // A fresh tracker stands in for a restarted process
+    const usage = await new JobUsageTracker(guard).get('acme/api');
+
+    expect(usage.totalTokens).toBe(150);
+    expect(usage.costUsd).toBeCloseTo(0.15);
+  });
+
+  it('should serve the cached total plus its own calls until the refresh', async () => {
+    const tracker = new JobUsageTracker(guard);
+    const list = jest.spyOn(store, 'list');
+    await claim('job-1', 'acme/api');
+
+    await tracker.get('acme/api');
+    await tracker.record('job-1', 'acme/api', 100, 0.1);
+
+    expect((await tracker.get('acme/api')).totalTokens).toBe(100);
+    expect(list).toHaveBeenCalledTimes(1);
+  });
+});
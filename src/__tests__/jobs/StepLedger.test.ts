@@ -0,0 +1,97 @@
+/**
+ * Step Ledger Tests
+ */
+
+import { IdempotencyGuard } from '../../jobs/IdempotencyGuard';
+import { MemoryJobStore } from '../../jobs/MemoryJobStore';
+import { StepLedger, canonicalJson, computeStepKey } from '../../jobs/StepLedger';
+
+describe('StepLedger', () => {
+  let guard: IdempotencyGuard;
+
+  beforeEach(async () => {
+    guard = new IdempotencyGuard({ retryDelay: 1 }, new MemoryJobStore());
+    await guard.claim('job-1');
+  });
+
+  describe('canonicalJson', () => {
+    it('should ignore key order and undefined values', () => {
+      expect(canonicalJson({ b: 1, a: { d: [1, { y: 2, x: 1 }], c: undefined } })).toBe(
+        canonicalJson({ a: { d: [1, { x: 1, y: 2 }] }, b: 1 })
+      );
+    });
+  });
+
+  describe('computeStepKey', () => {
+    it('should be deterministic and depend on every part', () => {
+      const key = computeStepKey('job-1', 'github_createComment', { body: 'hi' }, 1);
+
+      expect(computeStepKey('job-1', 'github_createComment', { body: 'hi' }, 1)).toBe(key);
+      expect(computeStepKey('job-2', 'github_createComment', { body: 'hi' }, 1)).not.toBe(key);
+      expect(computeStepKey('job-1', 'github_createComment', { body: 'hey' }, 1)).not.toBe(key);
+      expect(computeStepKey('job-1', 'github_createComment', { body: 'hi' }, 2)).not.toBe(key);
+    });
+  });
+
+  describe('run', () => {
+    const input = { owner: 'o', repo: 'r', issueNumber: 1, body: 'Fixed in #2' };
+
+    it('should replay recorded results in a retried run', async () => {
+      const execute = jest.fn().mockResolvedValue({ id: 99, url: 'https://example.com/c/99' });
+
+      const first = await new StepLedger('job-1', guard).run('github_createComment', input, execute);
+      const retried = await new StepLedger('job-1', guard).run('github_createComment', input, execute);
+
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(retried).toEqual(first);
+    });
+
+    it('should run repeated identical calls within one run', async () => {
+      const execute = jest.fn().mockResolvedValue({ id: 1 });
+      const ledger = new StepLedger('job-1', guard);
+
+      await ledger.run('github_createComment', input, execute);
+      await ledger.run('github_createComment', input, execute);
+
+      expect(execute).toHaveBeenCalledTimes(2);
+
+      // ...and a retry replays both
+      const retry = new StepLedger('job-1', guard);
+      await retry.run('github_createComment', input, execute);
+      await retry.run('github_createComment', input, execute);
+
+      expect(execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not record failed calls', async () => {
+      const execute = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('GitHub API error (502): Bad Gateway'))
+        .mockResolvedValueOnce({ number: 5 });
+
+      await expect(
+        new StepLedger('job-1', guard).run('github_createPullRequest', input, execute)
+      ).rejects.toThrow('502');
+
+      expect(await new StepLedger('job-1', guard).run('github_createPullRequest', input, execute)).toEqual({
+        number: 5,
+      });
+      expect(execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep recorded steps across a failed attempt and retry', async () => {
+      await new StepLedger('job-1', guard).run('github_createBranch', { branch: 'fix' }, async () => ({
+        ref: 'refs/heads/fix',
+      }));
+      await guard.markFailed('job-1', new Error('503 Service Unavailable'));
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await guard.claim('job-1');
+
+      const record = await guard.getStatus('job-1');
+      expect(Object.values(record?.steps ?? {})).toEqual([
+        expect.objectContaining({ tool: 'github_createBranch', result: { ref: 'refs/heads/fix' } }),
+      ]);
+      expect(Object.values(record?.steps ?? {})[0].recordedAt).toBeInstanceOf(Date);
+    });
+  });
+});
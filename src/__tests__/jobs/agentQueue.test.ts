@@ -0,0 +1,246 @@
+/**
+ * Agent Queue Tests
+ */
+
+import { runAgent, AgentContext } from '../../agent/runAgent';
+import { IdempotencyGuard } from '../../jobs/IdempotencyGuard';
+import { MemoryJobStore } from '../../jobs/MemoryJobStore';
+import {
+  processAgentJob,
+  retryDueJobs,
+  getAgentQueue,
+  findAwaitingApproval,
+  resumeAgentJob,
+  cleanupFinishedJobs,
+} from '../../jobs/agentQueue';
+import { StepLedger } from '../../jobs/StepLedger';
+import { JobUsageTracker } from '../../jobs/JobUsageTracker';
+import { TranscriptRecorder } from '../../runs/TranscriptRecorder';
+import { MemoryTranscriptStore } from '../../runs/MemoryTranscriptStore';
+import { createComment } from '../../tools/github';
+
+jest.mock('../../agent/runAgent', () => ({ runAgent: jest.fn() }));
+jest.mock('../../tools/github', () => ({ createComment: jest.fn() }));
+
+const mockRunAgent = runAgent as jest.MockedFunction<typeof runAgent>;
+const mockCreateComment = createComment as jest.MockedFunction<typeof createComment>;
+
+const createContext = (deliveryId: string): AgentContext => ({
+  eventType: 'issues',
+  action: 'opened',
+  repository: { owner: 'owner', name: 'repo', fullName: 'owner/repo' },
+  issue: { number: 1, title: 'Bug', body: 'Broken', labels: ['bug'] },
+  sender: { login: 'user' },
+  deliveryId,
+});
+
+describe('Agent Queue', () => {
+  let guard: IdempotencyGuard;
+
+  beforeEach(() => {
+    mockRunAgent.mockReset();
+    guard = new IdempotencyGuard({ retryDelay: 10, maxAttempts: 3 }, new MemoryJobStore());
+  });
+
+  describe('processAgentJob', () => {
+    const job = (id: string) => ({
+      id,
+      repo: 'owner/repo',
+      payload: { context: createContext(id) },
+    });
+
+    it('should mark successful runs complete', async () => {
+      mockRunAgent.mockResolvedValue({ success: true, completedSteps: [] });
+      await guard.claim('ok-1');
+
+      await processAgentJob(job('ok-1'), guard);
+
+      expect((await guard.getStatus('ok-1'))?.status).toBe('completed');
+    });
+
+    it('should drop the outcome when the job was claimed again during the run', async () => {
+      const expiring = new IdempotencyGuard({ leaseDuration: 20 }, new MemoryJobStore());
+      await expiring.claim('stale-1');
+      mockRunAgent.mockImplementation(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 40));
+        await expiring.claim('stale-1');
+        return { success: true, completedSteps: [] };
+      });
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      await processAgentJob(job('stale-1'), expiring);
+
+      const record = await expiring.getStatus('stale-1');
+      expect(record?.status).toBe('processing');
+      expect(record?.attempts).toBe(2);
+      jest.restoreAllMocks();
+    });
+
+    it('should start a retried run from the job\'s earlier spend', async () => {
+      mockRunAgent.mockResolvedValue({ success: true, completedSteps: [] });
+      await guard.claim('spend-1');
+      await guard.recordSpend('spend-1', '2026-03-01', 300, 0.25);
+      await guard.recordSpend('spend-1', '2026-03-02', 200, 0.5);
+
+      await processAgentJob(job('spend-1'), guard);
+
+      expect(mockRunAgent.mock.calls[0][1]?.previousUsage).toEqual({
+        totalTokens: 500,
+        costUsd: 0.75,
+      });
+    });
+
+    it('should classify unsuccessful runs by their original error', async () => {
+      const cause = Object.assign(new Error('Bad credentials'), { status: 401 });
+      mockRunAgent.mockResolvedValue({
+        success: false,
+        completedSteps: [],
+        error: cause.message,
+        cause,
+      });
+      await guard.claim('fail-1');
+
+      await processAgentJob(job('fail-1'), guard);
+
+      const record = await guard.getStatus('fail-1');
+      expect(record?.status).toBe('dead_letter');
+      expect(record?.error).toBe('Bad credentials');
+    });
+  });
+
+  describe('retryDueJobs', () => {
+    it('should re-run a failed job from its stored context', async () => {
+      const context = createContext('retry-1');
+      await guard.claim('retry-1', { eventType: 'issues', context });
+      await guard.markFailed('retry-1', new Error('GitHub API error (502): Bad Gateway'));
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      // retryDueJobs enqueues on the shared queue, which records via the default guard;
+      // here we only check that the stored context reaches runAgent
+      mockRunAgent.mockResolvedValue({ success: true, completedSteps: [] });
+
+      expect(await retryDueJobs(guard)).toBe(1);
+      await getAgentQueue().onIdle();
+
+      expect(mockRunAgent).toHaveBeenCalledWith(context, {
+        stepLedger: expect.any(StepLedger),
+        transcript: expect.any(TranscriptRecorder),
+        usageTracker: expect.any(JobUsageTracker),
+        previousUsage: { totalTokens: 0, costUsd: 0 },
+      });
+      expect((await guard.getStatus('retry-1'))?.attempts).toBe(2);
+    });
+
+    it('should keep the dry-run flag when retrying', async () => {
+      const context = createContext('retry-dry');
+      await guard.claim('retry-dry', { eventType: 'issues', context, dryRun: true });
+      await guard.markFailed('retry-dry', new Error('503 Service Unavailable'));
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      mockRunAgent.mockResolvedValue({ success: true, completedSteps: [], plannedActions: [] });
+
+      expect(await retryDueJobs(guard)).toBe(1);
+      await getAgentQueue().onIdle();
+
+      expect(mockRunAgent).toHaveBeenCalledWith(context, expect.objectContaining({ dryRun: true }));
+    });
+
+    it('should dead-letter due jobs without a stored context', async () => {
+      await guard.claim('retry-2');
+      await guard.markFailed('retry-2', new Error('overloaded'));
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      expect(await retryDueJobs(guard)).toBe(0);
+      expect((await guard.getStatus('retry-2'))?.status).toBe('dead_letter');
+      expect(mockRunAgent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cleanupFinishedJobs', () => {
+    it('should remove transcripts only once their job record is gone', async () => {
+      const expiring = new IdempotencyGuard({ ttl: 10 }, new MemoryJobStore());
+      const transcripts = new MemoryTranscriptStore();
+      const result = { success: true, messages: [], completedSteps: [] };
+      await expiring.claim('done-1');
+      await expiring.markComplete('done-1');
+      await expiring.claim('waiting-1');
+      await new TranscriptRecorder('done-1', transcripts).finish(result);
+      await new TranscriptRecorder('waiting-1', transcripts).finish(result);
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * 24 * 60 * 60 * 1000);
+
+      try {
+        expect(await cleanupFinishedJobs(expiring, transcripts)).toEqual({
+          jobs: 1,
+          transcripts: 1,
+        });
+      } finally {
+        jest.restoreAllMocks();
+      }
+
+      expect(await transcripts.get('done-1')).toBeUndefined();
+      expect(await transcripts.get('waiting-1')).toBeDefined();
+    });
+  });
+
+  describe('approvals', () => {
+    const toolCall = { id: 'call_1', name: 'github_createPullRequest', input: { title: 'Fix' } };
+    const state = {
+      messages: [{ role: 'user' as const, content: 'Fix it' }],
+      iteration: 1,
+      completedSteps: [],
+      pendingToolCalls: [toolCall],
+    };
+
+    const park = async (id: string) => {
+      const context = createContext(id);
+      await guard.claim(id, { eventType: 'issues', context });
+      mockRunAgent.mockResolvedValueOnce({
+        success: true,
+        completedSteps: [],
+        awaitingApproval: { toolCall, state },
+      });
+      await processAgentJob({ id, repo: 'owner/repo', payload: { context } }, guard);
+      return context;
+    };
+
+    beforeEach(() => mockCreateComment.mockReset());
+
+    it('should park the job and ask for approval on the issue', async () => {
+      await park('approve-1');
+
+      const record = await guard.getStatus('approve-1');
+      expect(record?.status).toBe('awaiting_approval');
+      expect(record?.approval).toMatchObject({ tool: 'github_createPullRequest', state });
+      expect(mockCreateComment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          owner: 'owner',
+          repo: 'repo',
+          issueNumber: 1,
+          body: expect.stringContaining('<sub>Job: approve-1</sub>'),
+        })
+      );
+    });
+
+    it('should find the job waiting on a thread', async () => {
+      await park('approve-2');
+
+      expect((await findAwaitingApproval('owner/repo', 1, guard))?.id).toBe('approve-2');
+      expect(await findAwaitingApproval('owner/repo', 2, guard)).toBeUndefined();
+      expect(await findAwaitingApproval('owner/other', 1, guard)).toBeUndefined();
+    });
+
+    it('should resume once with the saved state and the decision', async () => {
+      const context = await park('approve-3');
+      mockRunAgent.mockResolvedValue({ success: true, completedSteps: [] });
+      const decision = { approved: false, by: 'alice', reason: 'not now' };
+
+      expect(await resumeAgentJob('approve-3', decision, guard)).toBe(true);
+      expect(await resumeAgentJob('approve-3', { approved: true, by: 'bob' }, guard)).toBe(false);
+      await getAgentQueue().onIdle();
+
+      expect(mockRunAgent).toHaveBeenLastCalledWith(
+        context,
+        expect.objectContaining({ resume: { ...state, decision } })
+      );
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Retry Policy Tests
+ */
+
+import { isTransientError, computeRetryDelay, PermanentError } from '../../jobs/retryPolicy';
+
+describe('Retry Policy', () => {
+  describe('isTransientError', () => {
+    const withStatus = (status: number) => Object.assign(new Error(`${status} error`), { status });
+
+    it('should retry 5xx and rate limits from SDK errors', () => {
+      expect(isTransientError(withStatus(500))).toBe(true);
+      expect(isTransientError(withStatus(503))).toBe(true);
+      expect(isTransientError(withStatus(429))).toBe(true);
+      expect(isTransientError(withStatus(408))).toBe(true);
+    });
+
+    it('should not retry other client errors', () => {
+      expect(isTransientError(withStatus(400))).toBe(false);
+      expect(isTransientError(withStatus(401))).toBe(false);
+      expect(isTransientError(withStatus(404))).toBe(false);
+      expect(isTransientError(withStatus(422))).toBe(false);
+    });
+
+    it('should classify GitHub tool errors by the status in the message', () => {
+      expect(isTransientError(new Error('GitHub API error (502): Bad Gateway'))).toBe(true);
+      expect(isTransientError(new Error('GitHub API error (404): Not Found'))).toBe(false);
+      expect(isTransientError(new Error('503 Service Unavailable'))).toBe(true);
+    });
+
+    it('should retry network errors', () => {
+      const reset = Object.assign(new Error('socket closed'), { code: 'ECONNRESET' });
+      expect(isTransientError(reset)).toBe(true);
+      expect(isTransientError(new Error('fetch failed', { cause: reset }))).toBe(true);
+      expect(isTransientError(new Error('Request timed out'))).toBe(true);
+    });
+
+    it('should not retry programming errors', () => {
+      expect(isTransientError(new TypeError("Cannot read properties of undefined (reading 'x')"))).toBe(false);
+    });
+
+    it('should not retry permanent errors', () => {
+      expect(isTransientError(new PermanentError('.github/agent.yml is invalid'))).toBe(false);
+      expect(isTransientError(new Error('failed', { cause: new PermanentError('no') }))).toBe(false);
+    });
+
+    it('should retry unrecognized errors', () => {
+      expect(isTransientError(new Error('Something odd happened'))).toBe(true);
+    });
+  });
+
+  describe('computeRetryDelay', () => {
+    it('should double the delay per attempt', () => {
+      const noJitter = () => 1;
+
+      expect(computeRetryDelay(1, 1000, 60000, noJitter)).toBe(1000);
+      expect(computeRetryDelay(2, 1000, 60000, noJitter)).toBe(2000);
+      expect(computeRetryDelay(4, 1000, 60000, noJitter)).toBe(8000);
+    });
+
+    it('should cap the delay', () => {
+      expect(computeRetryDelay(20, 1000, 60000, () => 1)).toBe(60000);
+    });
+
+    it('should keep jitter within half of the delay', () => {
+      expect(computeRetryDelay(3, 1000, 60000, () => 0)).toBe(2000);
+      expect(computeRetryDelay(3, 1000, 60000, () => 0.5)).toBe(3000);
+    });
+  });
+});
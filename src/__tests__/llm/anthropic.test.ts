@@ -0,0 +1,107 @@
+/**
+ * Anthropic Provider Tests
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  toAnthropicMessages,
+  fromAnthropicResponse,
+  mapStopReason,
+} from '../../llm/anthropic';
+import { LLMMessage } from '../../llm/provider';
+
+describe('Anthropic Provider', () => {
+  describe('toAnthropicMessages', () => {
+    it('should map tool calls to tool_use blocks and results to tool_result blocks', () => {
+      const messages: LLMMessage[] = [
+        { role: 'user', content: 'Review PR #1' },
+        {
+          role: 'assistant',
+          content: 'Let me look at the diff.',
+          toolCalls: [
+            { id: 'tu_1', name: 'github_getPullRequestDiff', input: { pullNumber: 1 } },
+            { id: 'tu_2', name: 'github_listPullRequestFiles', input: { pullNumber: 1 } },
+          ],
+        },
+        { role: 'tool', toolCallId: 'tu_1', content: 'diff --git ...' },
+        { role: 'tool', toolCallId: 'tu_2', content: 'Error: Not Found', isError: true },
+      ];
+
+      const result = toAnthropicMessages(messages);
+
+      expect(result).toHaveLength(3);
+      expect(result[1]).toEqual({
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Let me look at the diff.' },
+          { type: 'tool_use', id: 'tu_1', name: 'github_getPullRequestDiff', input: { pullNumber: 1 } },
+          { type: 'tool_use', id: 'tu_2', name: 'github_listPullRequestFiles', input: { pullNumber: 1 } },
+        ],
+      });
+      // Both results share one user turn
+      expect(result[2]).toEqual({
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'tu_1', content: 'diff --git ...' },
+          { type: 'tool_result', tool_use_id: 'tu_2', content: 'Error: Not Found', is_error: true },
+        ],
+      });
+    });
+
+    it('should drop empty text and keep roles alternating', () => {
+      const messages: LLMMessage[] = [
+        { role: 'user', content: 'Hello' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ id: 'tu_1', name: 'github_getIssue', input: {} }],
+        },
+        { role: 'tool', toolCallId: 'tu_1', content: '{}' },
+        { role: 'user', content: 'Continue from where you left off.' },
+      ];
+
+      const result = toAnthropicMessages(messages);
+
+      expect(result.map((m) => m.role)).toEqual(['user', 'assistant', 'user']);
+      expect(result[1].content).toEqual([
+        { type: 'tool_use', id: 'tu_1', name: 'github_getIssue', input: {} },
+      ]);
+      expect(result[2].content).toHaveLength(2);
+    });
+  });
+
+  describe('fromAnthropicResponse', () => {
+    it('should extract text, tool calls and usage', () => {
+      const response = {
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet-4-20250514',
+        stop_reason: 'tool_use',
+        stop_sequence: null,
+        usage: { input_tokens: 10, output_tokens: 5 },
+        content: [
+          { type: 'text', text: 'Checking the issue.', citations: null },
+          { type: 'tool_use', id: 'tu_9', name: 'github_getIssue', input: { issueNumber: 3 } },
+        ],
+      } as unknown as Anthropic.Message;
+
+      expect(fromAnthropicResponse(response)).toEqual({
+        content: 'Checking the issue.',
+        toolCalls: [{ id: 'tu_9', name: 'github_getIssue', input: { issueNumber: 3 } }],
+        stopReason: 'tool_use',
+        usage: { promptTokens: 10, completionTokens: 5 },
+      });
+    });
+  });
+
+  describe('mapStopReason', () => {
+    it('should normalize stop reasons', () => {
+      expect(mapStopReason('end_turn')).toBe('end_turn');
+      expect(mapStopReason('stop_sequence')).toBe('end_turn');
+      expect(mapStopReason('tool_use')).toBe('tool_use');
+      expect(mapStopReason('max_tokens')).toBe('max_tokens');
+      expect(mapStopReason('refusal')).toBe('other');
+    });
+  });
+});
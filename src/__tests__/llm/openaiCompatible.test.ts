@@ -0,0 +1,115 @@
+/**
+ * OpenAI-Compatible Provider Tests
+ */
+
+import OpenAI from 'openai';
+import {
+  toOpenAIMessages,
+  fromOpenAIResponse,
+  mapFinishReason,
+  parseArguments,
+} from '../../llm/openaiCompatible';
+import { LLMMessage } from '../../llm/provider';
+
+describe('OpenAI-Compatible Provider', () => {
+  describe('toOpenAIMessages', () => {
+    it('should prepend the system prompt and map tool calls and results', () => {
+      const messages: LLMMessage[] = [
+        { role: 'user', content: 'Fix issue #2' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ id: 'call_1', name: 'github_getIssue', input: { issueNumber: 2 } }],
+        },
+        { role: 'tool', toolCallId: 'call_1', content: '{"number":2}' },
+        { role: 'assistant', content: 'Done.' },
+      ];
+
+      const result = toOpenAIMessages('You are an agent', messages);
+
+      expect(result).toEqual([
+        { role: 'system', content: 'You are an agent' },
+        { role: 'user', content: 'Fix issue #2' },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            {
+              id: 'call_1',
+              type: 'function',
+              function: { name: 'github_getIssue', arguments: '{"issueNumber":2}' },
+            },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: '{"number":2}' },
+        { role: 'assistant', content: 'Done.' },
+      ]);
+    });
+  });
+
+  describe('fromOpenAIResponse', () => {
+    it('should parse function tool calls', () => {
+      const response = {
+        choices: [
+          {
+            index: 0,
+            finish_reason: 'tool_calls',
+            message: {
+              role: 'assistant',
+              content: null,
+              tool_calls: [
+                {
+                  id: 'call_7',
+                  type: 'function',
+                  function: { name: 'github_getIssue', arguments: '{"issueNumber":7}' },
+                },
+              ],
+            },
+          },
+        ],
+      } as unknown as OpenAI.ChatCompletion;
+
+      expect(fromOpenAIResponse(response)).toEqual({
+        content: '',
+        toolCalls: [{ id: 'call_7', name: 'github_getIssue', input: { issueNumber: 7 } }],
+        stopReason: 'tool_use',
+      });
+    });
+
+    it('should map token usage when reported', () => {
+      const response = {
+        choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: 'Hi' } }],
+        usage: { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 },
+      } as unknown as OpenAI.ChatCompletion;
+
+      expect(fromOpenAIResponse(response).usage).toEqual({
+        promptTokens: 120,
+        completionTokens: 30,
+      });
+    });
+  });
+
+  describe('parseArguments', () => {
+    it('should keep malformed arguments as a parse error instead of throwing', () => {
+      expect(parseArguments('{"issueNumber":7}')).toEqual({ input: { issueNumber: 7 } });
+      expect(parseArguments('')).toEqual({ input: {} });
+      expect(parseArguments('{"issueNumber":')).toEqual({
+        input: {},
+        parseError: expect.stringMatching(/^arguments are not valid JSON/),
+      });
+      expect(parseArguments('[1]')).toEqual({
+        input: {},
+        parseError: 'arguments must be a JSON object',
+      });
+    });
+  });
+
+  describe('mapFinishReason', () => {
+    it('should normalize finish reasons', () => {
+      expect(mapFinishReason('stop')).toBe('end_turn');
+      expect(mapFinishReason('tool_calls')).toBe('tool_use');
+      expect(mapFinishReason('length')).toBe('max_tokens');
+      expect(mapFinishReason('content_filter')).toBe('other');
+    });
+  });
+});
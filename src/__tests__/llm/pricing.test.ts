@@ -0,0 +1,63 @@
+/**
+ * Model Pricing Tests
+ */
+
+import { calculateCost, getPriceTable } from '../../llm/pricing';
+
+describe('Model Pricing', () => {
+  const original = process.env.LLM_PRICES;
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.LLM_PRICES;
+    } else {
+      process.env.LLM_PRICES = original;
+    }
+  });
+
+  describe('getPriceTable', () => {
+    it('should merge LLM_PRICES over the built-in prices', () => {
+      process.env.LLM_PRICES = JSON.stringify({
+        'gpt-4o': { prompt: 2, completion: 8 },
+        'local-model': { prompt: 0, completion: 0 },
+      });
+
+      const table = getPriceTable();
+
+      expect(table['gpt-4o']).toEqual({ prompt: 2, completion: 8 });
+      expect(table['local-model']).toEqual({ prompt: 0, completion: 0 });
+      expect(table['claude-sonnet-4-20250514']).toEqual({ prompt: 3, completion: 15 });
+    });
+
+    it('should fail loudly on invalid prices', () => {
+      process.env.LLM_PRICES = '{oops';
+      expect(() => getPriceTable()).toThrow(/LLM_PRICES is not valid JSON/);
+
+      process.env.LLM_PRICES = JSON.stringify({ 'gpt-4o': { prompt: '2' } });
+      expect(() => getPriceTable()).toThrow(/LLM_PRICES\["gpt-4o"\] must be/);
+    });
+  });
+
+  describe('calculateCost', () => {
+    it('should price prompt and completion tokens per million', () => {
+      delete process.env.LLM_PRICES;
+
+      const cost = calculateCost('claude-sonnet-4-20250514', {
+        promptTokens: 10_000,
+        completionTokens: 2_000,
+      });
+
+      expect(cost).toBeCloseTo(0.03 + 0.03);
+    });
+
+    it('should cost nothing for unpriced models and warn once', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const usage = { promptTokens: 1000, completionTokens: 1000 };
+
+      expect(calculateCost('mystery-model', usage)).toBe(0);
+      expect(calculateCost('mystery-model', usage)).toBe(0);
+      expect(warnSpy).toHaveBeenCalledTimes(1);
+      warnSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * LLM Provider Selection Tests
+ */
+
+import { resolveProviderConfig, createLLMProvider } from '../../llm/provider';
+
+describe('LLM Provider Selection', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should default to openrouter', () => {
+    delete process.env.LLM_PROVIDER;
+    delete process.env.LLM_REPO_OVERRIDES;
+
+    expect(resolveProviderConfig('acme/api')).toEqual({ provider: 'openrouter' });
+  });
+
+  it('should use LLM_PROVIDER from env', () => {
+    process.env.LLM_PROVIDER = 'anthropic';
+
+    expect(resolveProviderConfig().provider).toBe('anthropic');
+  });
+
+  it('should apply per-repository overrides', () => {
+    process.env.LLM_PROVIDER = 'openrouter';
+    process.env.LLM_REPO_OVERRIDES = JSON.stringify({
+      'acme/api': { provider: 'anthropic', model: 'claude-opus-4-20250514' },
+      'acme/web': { model: 'openai/gpt-4o' },
+    });
+
+    expect(resolveProviderConfig('acme/api')).toEqual({
+      provider: 'anthropic',
+      model: 'claude-opus-4-20250514',
+    });
+    expect(resolveProviderConfig('acme/web')).toEqual({
+      provider: 'openrouter',
+      model: 'openai/gpt-4o',
+    });
+    expect(resolveProviderConfig('acme/other')).toEqual({ provider: 'openrouter' });
+  });
+
+  it('should reject unknown providers', () => {
+    process.env.LLM_PROVIDER = 'bedrock';
+
+    expect(() => resolveProviderConfig()).toThrow(/Unknown LLM provider "bedrock"/);
+  });
+
+  it('should create providers with the configured model', () => {
+    process.env.ANTHROPIC_MODEL = 'claude-test';
+
+    const anthropic = createLLMProvider({ provider: 'anthropic' });
+    const custom = createLLMProvider({ provider: 'openai-compatible', model: 'llama3' });
+
+    expect(anthropic.name).toBe('anthropic');
+    expect(anthropic.model).toBe('claude-test');
+    expect(custom.name).toBe('openai-compatible');
+    expect(custom.model).toBe('llama3');
+  });
+});
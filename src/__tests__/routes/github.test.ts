@@ -0,0 +1,359 @@
+/**
+ * GitHub Route Tests
+ */
+
+import * as crypto from 'crypto';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import {
+  githubRouter,
+  validateWebhookSignature,
+  getWebhookSecrets,
+  parseGitHubPayload,
+} from '../../routes/github';
+import { IdempotencyGuard } from '../../jobs/IdempotencyGuard';
+import * as githubTools from '../../tools/github';
+
+describe('GitHub Route', () => {
+  const sign = (payload: Buffer, secret: string): string =>
+    'sha256=' + crypto.createHmac('sha256', secret).update(payload).digest('hex');
+
+  describe('validateWebhookSignature', () => {
+    const payload = Buffer.from('{"action":"opened","issue":{"number":1}}');
+
+    it('should accept a valid signature', () => {
+      const signature = sign(payload, 'secret-a');
+
+      expect(validateWebhookSignature(payload, signature, ['secret-a'])).toBe(true);
+    });
+
+    it('should reject a signature made with another secret', () => {
+      const signature = sign(payload, 'wrong-secret');
+
+      expect(validateWebhookSignature(payload, signature, ['secret-a'])).toBe(false);
+    });
+
+    it('should reject a signature over different bytes', () => {
+      const reformatted = Buffer.from('{"action": "opened", "issue": {"number": 1}}');
+      const signature = sign(reformatted, 'secret-a');
+
+      expect(validateWebhookSignature(payload, signature, ['secret-a'])).toBe(false);
+    });
+
+    it('should reject missing or malformed signatures', () => {
+      expect(validateWebhookSignature(payload, undefined, ['secret-a'])).toBe(false);
+      expect(validateWebhookSignature(payload, 'sha1=abc', ['secret-a'])).toBe(false);
+      expect(validateWebhookSignature(payload, 'sha256=short', ['secret-a'])).toBe(false);
+    });
+
+    it('should accept signatures from any configured secret during rotation', () => {
+      const secrets = ['new-secret', 'old-secret'];
+
+      expect(validateWebhookSignature(payload, sign(payload, 'new-secret'), secrets)).toBe(true);
+      expect(validateWebhookSignature(payload, sign(payload, 'old-secret'), secrets)).toBe(true);
+    });
+
+    it('should reject when no secret is configured outside development', () => {
+      const originalEnv = process.env.NODE_ENV;
+      process.env.NODE_ENV = 'production';
+
+      expect(validateWebhookSignature(payload, sign(payload, 'x'), [])).toBe(false);
+
+      if (originalEnv === undefined) delete process.env.NODE_ENV;
+      else process.env.NODE_ENV = originalEnv;
+    });
+  });
+
+  describe('getWebhookSecrets', () => {
+    it('should split comma-separated secrets', () => {
+      const original = process.env.GITHUB_WEBHOOK_SECRET;
+      process.env.GITHUB_WEBHOOK_SECRET = 'new-secret, old-secret,';
+
+      expect(getWebhookSecrets()).toEqual(['new-secret', 'old-secret']);
+
+      if (original === undefined) delete process.env.GITHUB_WEBHOOK_SECRET;
+      else process.env.GITHUB_WEBHOOK_SECRET = original;
+    });
+  });
+
+  describe('parseGitHubPayload', () => {
+    const repository = {
+      name: 'test-repo',
+      full_name: 'test-owner/test-repo',
+      owner: { login: 'test-owner' },
+    };
+
+    it('should parse issue_comment on a plain issue', () => {
+      const context = parseGitHubPayload(
+        'issue_comment',
+        {
+          action: 'created',
+          issue: { number: 7, title: 'Crash on save', body: 'Steps...', labels: [{ name: 'bug' }] },
+          comment: {
+            id: 1001,
+            body: 'Still happening on 2.1, any update?',
+            user: { login: 'reporter' },
+            author_association: 'CONTRIBUTOR',
+            html_url: 'https://github.com/test-owner/test-repo/issues/7#issuecomment-1001',
+          },
+          repository,
+          sender: { login: 'reporter' },
+        },
+        'delivery-1'
+      );
+
+      expect(context.issue?.number).toBe(7);
+      expect(context.comment).toEqual({
+        id: 1001,
+        body: 'Still happening on 2.1, any update?',
+        author: 'reporter',
+        authorAssociation: 'CONTRIBUTOR',
+        url: 'https://github.com/test-owner/test-repo/issues/7#issuecomment-1001',
+        onPullRequest: false,
+      });
+    });
+
+    it('should flag comments left on pull requests', () => {
+      const context = parseGitHubPayload(
+        'issue_comment',
+        {
+          action: 'created',
+          issue: {
+            number: 12,
+            title: 'Add caching',
+            body: '',
+            labels: [],
+            pull_request: { url: 'https://api.github.com/repos/test-owner/test-repo/pulls/12' },
+          },
+          comment: {
+            id: 2002,
+            body: 'Can you explain the TTL choice?',
+            user: { login: 'maintainer' },
+            author_association: 'MEMBER',
+            html_url: 'https://github.com/test-owner/test-repo/pull/12#issuecomment-2002',
+          },
+          repository,
+          sender: { login: 'maintainer' },
+        },
+        'delivery-2'
+      );
+
+      expect(context.comment?.onPullRequest).toBe(true);
+      expect(context.comment?.authorAssociation).toBe('MEMBER');
+    });
+
+    it('should parse pull request labels', () => {
+      const context = parseGitHubPayload(
+        'pull_request',
+        {
+          action: 'opened',
+          pull_request: {
+            number: 13,
+            title: 'Bump lodash',
+            body: '',
+            head: { ref: 'deps/lodash' },
+            base: { ref: 'main' },
+            labels: [{ name: 'dependencies' }],
+          },
+          repository,
+          sender: { login: 'dev' },
+        },
+        'delivery-pr-labels'
+      );
+
+      expect(context.pullRequest).toMatchObject({ number: 13, labels: ['dependencies'] });
+    });
+
+    it('should parse push events with commits and changed paths', () => {
+      const context = parseGitHubPayload(
+        'push',
+        {
+          ref: 'refs/heads/main',
+          before: '1111111111111111111111111111111111111111',
+          after: '2222222222222222222222222222222222222222',
+          created: false,
+          deleted: false,
+          forced: false,
+          compare: 'https://github.com/test-owner/test-repo/compare/1111111...2222222',
+          commits: [
+            {
+              id: 'aaaa',
+              message: 'Add docs',
+              author: { name: 'Dev', username: 'dev' },
+              url: 'https://github.com/test-owner/test-repo/commit/aaaa',
+              added: ['docs/intro.md'],
+              modified: ['README.md'],
+              removed: [],
+            },
+            {
+              id: 'bbbb',
+              message: 'Drop old docs',
+              author: { name: 'Dev' },
+              url: 'https://github.com/test-owner/test-repo/commit/bbbb',
+              added: [],
+              modified: ['README.md'],
+              removed: ['docs/old.md'],
+            },
+          ],
+          repository,
+          sender: { login: 'dev' },
+        },
+        'delivery-4'
+      );
+
+      expect(context.action).toBe('pushed');
+      expect(context.push?.branch).toBe('main');
+      expect(context.push?.commits).toHaveLength(2);
+      expect(context.push?.commits[0].author).toBe('dev');
+      expect(context.push?.commits[1].author).toBe('Dev');
+      expect(context.push?.changedFiles.sort()).toEqual(
+        ['README.md', 'docs/intro.md', 'docs/old.md']
+      );
+    });
+
+    it('should leave branch undefined for tag pushes', () => {
+      const context = parseGitHubPayload(
+        'push',
+        { ref: 'refs/tags/v1.0.0', commits: [], repository, sender: { login: 'dev' } },
+        'delivery-5'
+      );
+
+      expect(context.push?.ref).toBe('refs/tags/v1.0.0');
+      expect(context.push?.branch).toBeUndefined();
+    });
+
+    it('should not set comment for issue events', () => {
+      const context = parseGitHubPayload(
+        'issues',
+        {
+          action: 'opened',
+          issue: { number: 1, title: 'Bug', body: 'desc', labels: [] },
+          repository,
+          sender: { login: 'user' },
+        },
+        'delivery-3'
+      );
+
+      expect(context.comment).toBeUndefined();
+    });
+  });
+
+  describe('POST /webhooks/github', () => {
+    const SECRET = 'route-secret';
+    const originalSecret = process.env.GITHUB_WEBHOOK_SECRET;
+    let server: Server;
+    let baseUrl: string;
+
+    const deliver = (event: string, payload: Record<string, unknown>, deliveryId: string) => {
+      const body = JSON.stringify(payload);
+      return fetch(`${baseUrl}/webhooks/github`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-GitHub-Event': event,
+          'X-GitHub-Delivery': deliveryId,
+          'X-Hub-Signature-256': sign(Buffer.from(body), SECRET),
+        },
+        body,
+      });
+    };
+
+    const repository = {
+      name: 'test-repo',
+      full_name: 'test-owner/test-repo',
+      owner: { login: 'test-owner' },
+    };
+
+    beforeAll(async () => {
+      process.env.GITHUB_WEBHOOK_SECRET = SECRET;
+
+      const app = express();
+      app.use('/webhooks/github', githubRouter);
+
+      server = app.listen(0);
+      await new Promise((resolve) => server.once('listening', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+      if (originalSecret === undefined) delete process.env.GITHUB_WEBHOOK_SECRET;
+      else process.env.GITHUB_WEBHOOK_SECRET = originalSecret;
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should answer 500 when the job store fails', async () => {
+      jest
+        .spyOn(IdempotencyGuard.prototype, 'isDuplicate')
+        .mockRejectedValue(new Error('Timed out waiting for lock'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const response = await deliver(
+        'issues',
+        {
+          action: 'opened',
+          issue: { number: 1, title: 'Bug', body: '', labels: [] },
+          repository,
+          sender: { login: 'user' },
+        },
+        'delivery-store-down'
+      );
+
+      expect(response.status).toBe(500);
+    });
+
+    describe('approval commands', () => {
+      const approveComment = (sender: Record<string, unknown>) => ({
+        action: 'created',
+        issue: { number: 7, title: 'Bug', body: '', labels: [] },
+        comment: { id: 1, body: '/approve', user: sender, author_association: 'MEMBER' },
+        repository,
+        sender,
+      });
+
+      it('should ignore commands from bots', async () => {
+        const response = await deliver(
+          'issue_comment',
+          approveComment({ login: 'ci[bot]', type: 'Bot' }),
+          'delivery-bot-approve'
+        );
+
+        expect(await response.json()).toMatchObject({ status: 'ignored' });
+      });
+
+      it('should ignore commands from the agent account', async () => {
+        jest
+          .spyOn(githubTools, 'getAuthenticatedUser')
+          .mockResolvedValue({ login: 'agent-account', type: 'User' });
+
+        const response = await deliver(
+          'issue_comment',
+          approveComment({ login: 'agent-account', type: 'User' }),
+          'delivery-self-approve'
+        );
+
+        expect(await response.json()).toMatchObject({ status: 'ignored' });
+      });
+
+      it('should only read commands from issue_comment events', async () => {
+        jest.spyOn(IdempotencyGuard.prototype, 'isDuplicate').mockResolvedValue(true);
+
+        const response = await deliver(
+          'pull_request_review_comment',
+          {
+            ...approveComment({ login: 'alice', type: 'User' }),
+            issue: undefined,
+            pull_request: { number: 7, head: { ref: 'fix' }, base: { ref: 'main' } },
+          },
+          'delivery-review-approve'
+        );
+
+        expect(await response.json()).toMatchObject({ status: 'duplicate' });
+      });
+    });
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Jobs Route Tests
+ */
+
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { runAgent, AgentContext } from '../../agent/runAgent';
+import { defaultGuard } from '../../jobs/IdempotencyGuard';
+import { enqueueAgentJob, getAgentQueue } from '../../jobs/agentQueue';
+import { jobsRouter, filterJobs } from '../../routes/jobs';
+
+jest.mock('../../agent/runAgent', () => ({ runAgent: jest.fn() }));
+
+const mockRunAgent = runAgent as jest.MockedFunction<typeof runAgent>;
+
+const TOKEN = 'test-admin-token';
+
+const createContext = (deliveryId: string, fullName = 'owner/repo'): AgentContext => ({
+  eventType: 'issues',
+  action: 'opened',
+  repository: { owner: fullName.split('/')[0], name: fullName.split('/')[1], fullName },
+  issue: { number: 1, title: 'Bug', body: 'Broken', labels: ['bug'] },
+  sender: { login: 'user' },
+  deliveryId,
+});
+
+describe('Jobs Route', () => {
+  let server: Server;
+  let baseUrl: string;
+  const originalToken = process.env.ADMIN_API_TOKEN;
+
+  const request = (path: string, init: RequestInit = {}, token: string | null = TOKEN) =>
+    fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    });
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const getJson = async (path: string, init: RequestInit = {}): Promise<any> =>
+    (await request(path, init)).json();
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_TOKEN = TOKEN;
+
+    const app = express();
+    app.use(express.json());
+    app.use('/jobs', jobsRouter);
+
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    if (originalToken === undefined) {
+      delete process.env.ADMIN_API_TOKEN;
+    } else {
+      process.env.ADMIN_API_TOKEN = originalToken;
+    }
+  });
+
+  beforeEach(() => {
+    mockRunAgent.mockReset();
+  });
+
+  describe('authentication', () => {
+    it('should reject requests without the bearer token', async () => {
+      expect((await request('/jobs', {}, null)).status).toBe(401);
+      expect((await request('/jobs', {}, 'wrong-token')).status).toBe(401);
+    });
+
+    it('should disable the API when no token is configured', async () => {
+      delete process.env.ADMIN_API_TOKEN;
+      try {
+        expect((await request('/jobs')).status).toBe(503);
+      } finally {
+        process.env.ADMIN_API_TOKEN = TOKEN;
+      }
+    });
+  });
+
+  describe('GET /jobs', () => {
+    it('should list and filter jobs', async () => {
+      await defaultGuard.claim('list-1', { eventType: 'issues', context: createContext('list-1') });
+      await defaultGuard.claim('list-2', {
+        eventType: 'push',
+        context: createContext('list-2', 'owner/other'),
+      });
+      await defaultGuard.markComplete('list-2');
+
+      const byRepo = await getJson('/jobs?repo=owner/other');
+      expect(byRepo.jobs.map((j: { id: string }) => j.id)).toContain('list-2');
+      expect(byRepo.jobs.map((j: { id: string }) => j.id)).not.toContain('list-1');
+
+      const byStatus = await getJson('/jobs?status=completed&event=push');
+      expect(byStatus.jobs[0]).toMatchObject({ id: 'list-2', status: 'completed', repo: 'owner/other' });
+      expect(byStatus.jobs[0]).not.toHaveProperty('metadata');
+    });
+
+    it('should reject unknown statuses', async () => {
+      expect((await request('/jobs?status=exploded')).status).toBe(400);
+    });
+  });
+
+  describe('GET /jobs/:id', () => {
+    it('should return the full record', async () => {
+      await defaultGuard.claim('get-1', { eventType: 'issues', context: createContext('get-1') });
+      await defaultGuard.markFailed('get-1', new Error('GitHub API error (404): Not Found'));
+
+      const response = await request('/jobs/get-1');
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body).toMatchObject({
+        id: 'get-1',
+        status: 'dead_letter',
+        attempts: 1,
+        error: 'GitHub API error (404): Not Found',
+      });
+    });
+
+    it('should return 404 for unknown jobs', async () => {
+      expect((await request('/jobs/nope')).status).toBe(404);
+    });
+  });
+
+  describe('POST /jobs/:id/retry', () => {
+    it('should re-run a dead-lettered job from its stored context', async () => {
+      const context = createContext('retry-1');
+      await defaultGuard.claim('retry-1', { eventType: 'issues', context });
+      await defaultGuard.markFailed('retry-1', new TypeError('bug'));
+      mockRunAgent.mockResolvedValue({ success: true, completedSteps: [] });
+
+      const response = await request('/jobs/retry-1/retry', { method: 'POST' });
+      await getAgentQueue().onIdle();
+
+      expect(response.status).toBe(202);
+      expect(mockRunAgent).toHaveBeenCalledWith(context, expect.anything());
+      expect(await defaultGuard.getStatus('retry-1')).toMatchObject({
+        status: 'completed',
+        attempts: 2,
+      });
+    });
+
+    it('should refuse to retry a completed job', async () => {
+      await defaultGuard.claim('retry-2', { eventType: 'issues', context: createContext('retry-2') });
+      await defaultGuard.markComplete('retry-2');
+
+      expect((await request('/jobs/retry-2/retry', { method: 'POST' })).status).toBe(409);
+    });
+
+    it('should refuse to retry a cancelled job that is still running', async () => {
+      const context = createContext('retry-3');
+      let finish: () => void = () => undefined;
+      mockRunAgent.mockImplementation(async () => {
+        await new Promise<void>((resolve) => (finish = resolve));
+        return { success: true, completedSteps: [] };
+      });
+      await defaultGuard.claim('retry-3', { eventType: 'issues', context });
+      enqueueAgentJob(context, 'issues');
+      await request('/jobs/retry-3/cancel', { method: 'POST' });
+
+      const response = await request('/jobs/retry-3/retry', { method: 'POST' });
+      finish();
+      await getAgentQueue().onIdle();
+
+      expect(response.status).toBe(409);
+      expect(mockRunAgent).toHaveBeenCalledTimes(1);
+      expect((await defaultGuard.getStatus('retry-3'))?.status).toBe('cancelled');
+    });
+  });
+
+  describe('POST /jobs/:id/cancel', () => {
+    it('should cancel a failed job so it is not retried', async () => {
+      await defaultGuard.claim('cancel-1', { eventType: 'issues', context: createContext('cancel-1') });
+      await defaultGuard.markFailed('cancel-1', new Error('503 Service Unavailable'));
+
+      const response = await request('/jobs/cancel-1/cancel', { method: 'POST' });
+
+      expect(response.status).toBe(200);
+      expect((await defaultGuard.getStatus('cancel-1'))?.status).toBe('cancelled');
+      expect(await defaultGuard.claim('cancel-1')).toBe(false);
+    });
+
+    it('should keep a cancelled running job cancelled when it finishes', async () => {
+      await defaultGuard.claim('cancel-2');
+      await request('/jobs/cancel-2/cancel', { method: 'POST' });
+      await defaultGuard.markComplete('cancel-2');
+
+      expect((await defaultGuard.getStatus('cancel-2'))?.status).toBe('cancelled');
+    });
+  });
+
+  describe('POST /jobs/:id/approve and /reject', () => {
+    const park = async (id: string) => {
+      const context = createContext(id);
+      const toolCall = { id: 'call_1', name: 'github_createPullRequest', input: {} };
+      await defaultGuard.claim(id, { eventType: 'issues', context });
+      await defaultGuard.markAwaitingApproval(id, {
+        tool: toolCall.name,
+        input: toolCall.input,
+        state: { messages: [], iteration: 1, completedSteps: [], pendingToolCalls: [toolCall] },
+      });
+      return context;
+    };
+
+    it('should resume an approved job', async () => {
+      const context = await park('approve-1');
+      mockRunAgent.mockResolvedValue({ success: true, completedSteps: [] });
+
+      const body = await getJson('/jobs/approve-1/approve', {
+        method: 'POST',
+        body: JSON.stringify({ by: 'ops' }),
+      });
+      await getAgentQueue().onIdle();
+
+      expect(body).toEqual({ status: 'approved', id: 'approve-1' });
+      expect(mockRunAgent).toHaveBeenCalledWith(
+        context,
+        expect.objectContaining({
+          resume: expect.objectContaining({ decision: { approved: true, by: 'ops' } }),
+        })
+      );
+      expect((await defaultGuard.getStatus('approve-1'))?.status).toBe('completed');
+    });
+
+    it('should pass the rejection reason to the resumed run', async () => {
+      await park('reject-1');
+      mockRunAgent.mockResolvedValue({ success: true, completedSteps: [] });
+
+      const response = await request('/jobs/reject-1/reject', {
+        method: 'POST',
+        body: JSON.stringify({ reason: 'wrong branch' }),
+      });
+      await getAgentQueue().onIdle();
+
+      expect(response.status).toBe(202);
+      expect(mockRunAgent.mock.calls[0][1]?.resume?.decision).toEqual({
+        approved: false,
+        by: 'admin-api',
+        reason: 'wrong branch',
+      });
+    });
+
+    it('should refuse jobs that are not awaiting approval', async () => {
+      await defaultGuard.claim('approve-2');
+
+      expect((await request('/jobs/approve-2/approve', { method: 'POST' })).status).toBe(409);
+      expect((await request('/jobs/missing/approve', { method: 'POST' })).status).toBe(404);
+    });
+  });
+
+  describe('stats and purge', () => {
+    it('should report guard and queue statistics', async () => {
+      const body = await getJson('/jobs/stats');
+
+      expect(body.jobs).toHaveProperty('dead_letter');
+      expect(body.queue).toHaveProperty('workers');
+    });
+
+    it('should purge through cleanup()', async () => {
+      const body = await getJson('/jobs/purge', { method: 'POST' });
+
+      expect(typeof body.removed).toBe('number');
+    });
+  });
+
+  describe('store errors', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('should answer 500 instead of crashing when the store fails', async () => {
+      jest.spyOn(defaultGuard, 'list').mockRejectedValue(new Error('Unexpected end of JSON input'));
+      jest.spyOn(defaultGuard, 'getStatus').mockRejectedValue(new Error('Timed out waiting'));
+      jest.spyOn(defaultGuard, 'getStats').mockRejectedValue(new Error('EACCES'));
+
+      expect((await request('/jobs')).status).toBe(500);
+      expect((await request('/jobs/stats')).status).toBe(500);
+      expect((await request('/jobs/store-1')).status).toBe(500);
+      expect((await request('/jobs/store-1/retry', { method: 'POST' })).status).toBe(500);
+      expect((await request('/jobs/store-1/approve', { method: 'POST' })).status).toBe(500);
+    });
+  });
+
+  describe('filterJobs', () => {
+    it('should pass everything through without filters', () => {
+      const record = {
+        id: 'x',
+        status: 'completed' as const,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        attempts: 1,
+      };
+
+      expect(filterJobs([record], {})).toEqual([record]);
+      expect(filterJobs([record], { repo: 'owner/repo' })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Runs Route Tests
+ */
+
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { TranscriptRecorder } from '../../runs/TranscriptRecorder';
+import { getDefaultTranscriptStore } from '../../runs/TranscriptStore';
+import * as replay from '../../agent/replay';
+import { runsRouter } from '../../routes/runs';
+
+describe('Runs Route', () => {
+  let server: Server;
+  let baseUrl: string;
+  const originalToken = process.env.ADMIN_API_TOKEN;
+
+  const request = (path: string, init: RequestInit = {}, token: string | null = 'runs-token') =>
+    fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const getJson = async (path: string, init: RequestInit = {}): Promise<any> =>
+    (await request(path, init)).json();
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_TOKEN = 'runs-token';
+
+    const app = express();
+    app.use('/runs', runsRouter);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    if (originalToken === undefined) {
+      delete process.env.ADMIN_API_TOKEN;
+    } else {
+      process.env.ADMIN_API_TOKEN = originalToken;
+    }
+  });
+
+  it('should return the recorded runs of a job', async () => {
+    await new TranscriptRecorder('delivery-r1').finish({
+      success: false,
+      messages: [],
+      completedSteps: [],
+      error: '503',
+    });
+    await new TranscriptRecorder('delivery-r1').finish({
+      success: true,
+      messages: [],
+      completedSteps: [],
+      finalAnswer: 'Commented on #1',
+    });
+
+    const all = await getJson('/runs/delivery-r1');
+    expect(all.runs).toHaveLength(2);
+
+    const latest = await getJson('/runs/delivery-r1?attempt=latest');
+    expect(latest.runs).toEqual([expect.objectContaining({ finalAnswer: 'Commented on #1' })]);
+  });
+
+  it('should return 404 for jobs without runs', async () => {
+    expect((await request('/runs/unknown')).status).toBe(404);
+  });
+
+  it('should answer 500 instead of crashing when the transcript cannot be read', async () => {
+    const get = jest
+      .spyOn(getDefaultTranscriptStore(), 'get')
+      .mockRejectedValue(new SyntaxError('Unexpected end of JSON input'));
+
+    try {
+      expect((await request('/runs/delivery-broken')).status).toBe(500);
+    } finally {
+      get.mockRestore();
+    }
+  });
+
+  it('should replay a recorded run and report divergences', async () => {
+    const recorder = new TranscriptRecorder('delivery-r2');
+    recorder.start({
+      context: {
+        eventType: 'issues',
+        action: 'opened',
+        repository: { owner: 'owner', name: 'repo', fullName: 'owner/repo' },
+        issue: { number: 2, title: 'Question', body: '', labels: [] },
+        sender: { login: 'user' },
+        deliveryId: 'delivery-r2',
+      },
+      provider: { name: 'anthropic', model: 'claude-test' },
+      systemPrompt: 'old prompt',
+      skills: [],
+      allowedTools: [],
+    });
+    await recorder.finish({ success: true, messages: [], completedSteps: [] });
+
+    const body = await getJson('/runs/delivery-r2/replay', { method: 'POST' });
+
+    // The recording has no LLM calls, so the replay's first call is extra
+    expect(body).toMatchObject({ jobId: 'delivery-r2', attempt: 1, matches: false });
+    expect(body.divergences.map((d: { kind: string }) => d.kind)).toEqual(['llm_call']);
+  });
+
+  it('should answer 500 instead of crashing when the replay throws', async () => {
+    const replayRun = jest
+      .spyOn(replay, 'replayRun')
+      .mockRejectedValue(new Error('Prompt template "base" not found'));
+
+    try {
+      expect((await request('/runs/delivery-r2/replay', { method: 'POST' })).status).toBe(500);
+    } finally {
+      replayRun.mockRestore();
+    }
+  });
+
+  it('should reject replays of runs without a context or unknown attempts', async () => {
+    expect((await request('/runs/delivery-r1/replay', { method: 'POST' })).status).toBe(409);
+    expect((await request('/runs/delivery-r1/replay?attempt=9', { method: 'POST' })).status).toBe(
+      400
+    );
+  });
+
+  it('should require the admin token', async () => {
+    expect((await request('/runs/delivery-r1', {}, null)).status).toBe(401);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Transcript Recorder Tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TranscriptRecorder } from '../../runs/TranscriptRecorder';
+import { TranscriptStore } from '../../runs/TranscriptStore';
+import { MemoryTranscriptStore } from '../../runs/MemoryTranscriptStore';
+import { FileTranscriptStore } from '../../runs/FileTranscriptStore';
+
+const tempDirs: string[] = [];
+
+const backends: Array<[string, () => TranscriptStore]> = [
+  ['MemoryTranscriptStore', () => new MemoryTranscriptStore()],
+  [
+    'FileTranscriptStore',
+    () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'runs-'));
+      tempDirs.push(dir);
+      return new FileTranscriptStore(dir);
+    },
+  ],
+];
+
+afterAll(() => {
+  for (const dir of tempDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe.each(backends)('TranscriptRecorder with %s', (_name, createStore) => {
+  let store: TranscriptStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it('should save checkpoints and the final transcript under the job ID', async () => {
+    const recorder = new TranscriptRecorder('delivery-1', store);
+    recorder.start({
+      context: {
+        eventType: 'issues',
+        action: 'opened',
+        repository: { owner: 'owner', name: 'repo', fullName: 'owner/repo' },
+        sender: { login: 'user' },
+        deliveryId: 'delivery-1',
+      },
+      provider: { name: 'anthropic', model: 'claude-test' },
+      systemPrompt: 'You are an agent',
+      skills: ['bugfix-skill'],
+      allowedTools: ['github_getIssue'],
+    });
+    recorder.recordLLMCall({
+      iteration: 1,
+      durationMs: 12,
+      messageCount: 1,
+      toolNames: ['github_getIssue'],
+      response: { content: '', toolCalls: [], stopReason: 'end_turn' },
+    });
+
+    await recorder.checkpoint([{ role: 'user', content: 'Fix #1' }], ['Selected 1 skills']);
+    expect((await store.get('delivery-1'))?.runs[0].status).toBe('running');
+
+    await recorder.finish({
+      success: true,
+      messages: [
+        { role: 'user', content: 'Fix #1' },
+        { role: 'assistant', content: 'Done' },
+      ],
+      completedSteps: ['Task completed'],
+      finalAnswer: 'Done',
+    });
+
+    const transcript = await store.get('delivery-1');
+    expect(transcript?.runs).toHaveLength(1);
+    expect(transcript?.runs[0]).toMatchObject({
+      jobId: 'delivery-1',
+      status: 'completed',
+      systemPrompt: 'You are an agent',
+      skills: ['bugfix-skill'],
+      finalAnswer: 'Done',
+      context: { deliveryId: 'delivery-1' },
+      events: [{ type: 'llm', iteration: 1, messageCount: 1 }],
+    });
+    expect(transcript?.runs[0].messages).toHaveLength(2);
+  });
+
+  it('should keep each attempt of a job as a separate run', async () => {
+    const first = new TranscriptRecorder('delivery-2', store);
+    await first.finish({ success: false, messages: [], completedSteps: [], error: '503' });
+
+    const second = new TranscriptRecorder('delivery-2', store);
+    await second.finish({ success: true, messages: [], completedSteps: [] });
+
+    const runs = (await store.get('delivery-2'))?.runs ?? [];
+    expect(runs.map((r) => r.status)).toEqual(['failed', 'completed']);
+    expect(runs[0].runId).not.toBe(runs[1].runId);
+  });
+
+  it('should return undefined for unknown jobs', async () => {
+    expect(await store.get('missing')).toBeUndefined();
+  });
+
+  it('should list and delete transcripts not written since a given time', async () => {
+    await new TranscriptRecorder('delivery-3', store).finish({
+      success: true,
+      messages: [],
+      completedSteps: [],
+    });
+
+    expect(await store.listStale(new Date(Date.now() - 60 * 1000))).toEqual([]);
+    expect(await store.listStale(new Date(Date.now() + 1000))).toEqual(['delivery-3']);
+    expect(await store.delete('delivery-3')).toBe(true);
+    expect(await store.delete('delivery-3')).toBe(false);
+    expect(await store.get('delivery-3')).toBeUndefined();
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * ===========================================
+ * Approval Gate
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Decide which tool calls need a human's approval (per repository and
+ *   per skill)
+ * - Define the state a paused run keeps until it is resumed
+ * - Format approval requests and parse /approve and /reject replies
+ * - Check that the person replying has write access and is not a bot
+ *
+ * INPUT:
+ * - APPROVAL_REQUIRED_TOOLS: JSON map of "owner/repo" (or "*") to tool names
+ * - `requires_approval` in a skill's SKILL.md front-matter
+ *
+ * OUTPUT:
+ * - Approval checks for runAgent, request comments, parsed decisions
+ *
+ * ARCHITECTURE POSITION:
+ * Agent → [THIS: Approval Gate] → (pause) → Guard → Route / Jobs API → (resume) → Agent
+ *
+ * KEY CONCEPT:
+ * A gated call does not block a worker while a human decides. runAgent
+ * stops before the call and returns the conversation so far plus the
+ * calls still to execute; the job record keeps that state with status
+ * 'awaiting_approval'. On /approve (or POST /jobs/:id/approve) a new run
+ * resumes from the saved state, runs the call and continues the loop.
+ * On /reject the call is answered with an error and the model carries on.
+ *
+ * A review with event COMMENT is never gated: only APPROVE and
+ * REQUEST_CHANGES reviews carry a decision.
+ */
+
+import { LLMMessage, ToolCall } from '../llm/provider';
+import { getAuthenticatedUser, getCollaboratorPermission } from '../tools/github';
+import { isKnownTool } from './toolRegistry';
+import { StoredToolResult } from './toolResults';
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Loop state of a run paused for approval
+ */
+export interface PausedRunState {
+  /** Conversation up to and including the assistant turn with the gated call */
+  messages: LLMMessage[];
+
+  /** Loop iteration the run paused in */
+  iteration: number;
+
+  completedSteps: string[];
+
+  /** Calls of that turn not yet executed; the first one awaits approval */
+  pendingToolCalls: ToolCall[];
+
+  /** Full text of truncated and compacted results, so their refs stay readable */
+  toolResults?: Record<string, StoredToolResult>;
+}
+
+/**
+ * Returned by runAgent when it stopped for approval
+ */
+export interface ApprovalRequest {
+  toolCall: ToolCall;
+  state: PausedRunState;
+}
+
+/**
+ * A human's answer to an approval request
+ */
+export interface ApprovalDecision {
+  approved: boolean;
+
+  /** GitHub login (or operator name) that decided */
+  by: string;
+
+  /** Optional explanation, passed to the model on rejection */
+  reason?: string;
+}
+
+/**
+ * What a resumed run starts from
+ */
+export interface ResumeState extends PausedRunState {
+  decision: ApprovalDecision;
+}
+
+/**
+ * Permission levels allowed to approve
+ */
+const APPROVER_PERMISSIONS = ['write', 'maintain', 'admin'];
+
+/**
+ * Longest tool input shown in an approval request comment
+ */
+const MAX_INPUT_PREVIEW = 2000;
+
+// ===========================================
+// Configuration
+// ===========================================
+
+/**
+ * Reads the tools that need approval in a repository
+ *
+ * APPROVAL_REQUIRED_TOOLS example:
+ *   {"*": ["github_createPullRequest"], "acme/api": ["github_createOrUpdateFile"]}
+ * Entries for "*" apply to every repository and add up with the
+ * repository's own entry.
+ *
+ * @param repoFullName - "owner/repo"
+ * @returns Tool names configured for the repository
+ * @throws Error if the variable is not valid JSON or lists unknown tools
+ */
+export function getRepoApprovalTools(repoFullName: string): string[] {
+  const raw = process.env.APPROVAL_REQUIRED_TOOLS;
+  if (!raw) return [];
+
+  let config: Record<string, unknown>;
+  try {
+    config = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`APPROVAL_REQUIRED_TOOLS is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const tools = [...toToolList(config['*'], '*'), ...toToolList(config[repoFullName], repoFullName)];
+  return Array.from(new Set(tools));
+}
+
+/**
+ * Validates one APPROVAL_REQUIRED_TOOLS entry
+ */
+function toToolList(value: unknown, key: string): string[] {
+  if (value === undefined) return [];
+
+  if (!Array.isArray(value) || !value.every((t) => typeof t === 'string')) {
+    throw new Error(`APPROVAL_REQUIRED_TOOLS["${key}"] must be a list of tool names`);
+  }
+
+  const unknown = value.filter((t) => !isKnownTool(t));
+  if (unknown.length > 0) {
+    throw new Error(`APPROVAL_REQUIRED_TOOLS["${key}"] lists unknown tools: ${unknown.join(', ')}`);
+  }
+
+  return value;
+}
+
+/**
+ * Checks whether a tool call must wait for approval
+ *
+ * @param toolCall - Call requested by the model
+ * @param gatedTools - Tools that need approval in this run
+ * @returns true if the call must be approved first
+ */
+export function requiresApproval(toolCall: ToolCall, gatedTools: Set<string>): boolean {
+  if (!gatedTools.has(toolCall.name)) return false;
+
+  // A plain review comment decides nothing
+  if (toolCall.name === 'github_createPullRequestReview' && toolCall.input.event === 'COMMENT') {
+    return false;
+  }
+
+  return true;
+}
+
+// ===========================================
+// Approval Comments
+// ===========================================
+
+/**
+ * Formats the comment asking for approval
+ *
+ * @param toolCall - Call waiting for approval
+ * @param jobId - Job that paused
+ * @returns Markdown comment body
+ */
+export function formatApprovalRequest(toolCall: ToolCall, jobId: string): string {
+  let input = JSON.stringify(toolCall.input, null, 2);
+  if (input.length > MAX_INPUT_PREVIEW) {
+    input = `${input.slice(0, MAX_INPUT_PREVIEW)}\n... (${input.length - MAX_INPUT_PREVIEW} more characters)`;
+  }
+
+  return [
+    '⏸️ **Approval needed**',
+    '',
+    `The agent wants to run \`${toolCall.name}\`:`,
+    '',
+    '```json',
+    input,
+    '```',
+    '',
+    'Reply `/approve` to let it proceed, or `/reject <reason>` to refuse.',
+    'Only users with write access to this repository can decide.',
+    '',
+    `<sub>Job: ${jobId}</sub>`,
+  ].join('\n');
+}
+
+/**
+ * Parses an /approve or /reject command at the start of a comment
+ *
+ * @param body - Comment body
+ * @returns Decision without its author, or null if the comment is not a command
+ */
+export function parseApprovalCommand(body: string): Omit<ApprovalDecision, 'by'> | null {
+  const match = body.trim().match(/^\/(approve|reject)\b[ \t]*(.*)/i);
+  if (!match) return null;
+
+  const reason = match[2].trim();
+  return {
+    approved: match[1].toLowerCase() === 'approve',
+    ...(reason && { reason }),
+  };
+}
+
+/**
+ * Checks whether a user may approve in a repository
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param login - GitHub login of the user
+ * @returns true for write, maintain and admin permission
+ */
+export async function canApprove(owner: string, repo: string, login: string): Promise<boolean> {
+  try {
+    const permission = await getCollaboratorPermission({ owner, repo, username: login });
+    return APPROVER_PERMISSIONS.includes(permission);
+  } catch (error) {
+    console.error(`[Approval] Could not check permission of @${login} on ${owner}/${repo}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Login behind GITHUB_TOKEN, looked up on first use
+ */
+let agentLogin: Promise<string> | null = null;
+
+/**
+ * Checks whether a comment comes from a bot or from the agent's own account
+ *
+ * Neither may decide an approval: the agent quotes the commands in its
+ * own comments, and a bot could be made to post one. If the token's
+ * account cannot be looked up (GitHub App tokens cannot read /user, but
+ * their comments are posted by a bot), only the bot check applies.
+ *
+ * @param author - Comment author's login and account type
+ * @returns true if the comment must not be treated as a decision
+ */
+export async function isAutomatedAuthor(author: {
+  login: string;
+  type?: string;
+}): Promise<boolean> {
+  if (author.type === 'Bot' || author.login.endsWith('[bot]')) return true;
+
+  if (!agentLogin) {
+    agentLogin = getAuthenticatedUser().then((user) => user.login);
+  }
+
+  try {
+    return (await agentLogin).toLowerCase() === author.login.toLowerCase();
+  } catch (error) {
+    agentLogin = null;
+    console.warn('[Approval] Could not look up the account behind GITHUB_TOKEN:', error);
+    return false;
+  }
+}
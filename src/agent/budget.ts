@@ -0,0 +1,297 @@
+/**
+ * ===========================================
+ * Token and Cost Budgets
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Add up the tokens and cost of a run's LLM calls
+ * - Track each repository's spend per UTC day
+ * - Decide when a run must stop because a budget is used up
+ *
+ * INPUT:
+ * - RUN_TOKEN_BUDGET / RUN_COST_BUDGET_USD: limits per run
+ * - REPO_DAILY_BUDGETS: JSON map of "owner/repo" (or "*") to
+ *   { "tokens": n, "costUsd": n } per UTC day
+ *
+ * OUTPUT:
+ * - RunUsage on AgentResult, budget checks for runAgent
+ *
+ * ARCHITECTURE POSITION:
+ * Agent → [THIS: Budget] (before and after each LLM call) → Pricing
+ *
+ * KEY CONCEPT:
+ * Budgets are checked before each LLM call, so a run stops cleanly
+ * between iterations instead of mid-turn; it can overshoot by at most one
+ * call. The run budget covers every run of a job: retries and runs
+ * resumed after approval start from the job's earlier spend. Spend is
+ * counted by a UsageTracker; queued jobs use the job store
+ * (jobs/JobUsageTracker), so it survives restarts and is shared by the
+ * instances using that store. DailyUsageTracker keeps it in memory.
+ */
+
+import { LLMUsage } from '../llm/provider';
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Tokens and cost of a run, summed over its LLM calls
+ */
+export interface RunUsage {
+  llmCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+
+  /** USD, from the price table (0 for unpriced models) */
+  costUsd: number;
+}
+
+/**
+ * Limits for a run or a repository day; unset fields are unlimited
+ */
+export interface Budget {
+  tokens?: number;
+  costUsd?: number;
+}
+
+/**
+ * Spend counted against a budget
+ */
+export interface BudgetUsage {
+  totalTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Records LLM spend and reports each repository's spend for the day
+ */
+export interface UsageTracker {
+  /**
+   * Adds the spend of one LLM call
+   *
+   * @param jobId - Job the call was made for
+   * @param repoFullName - "owner/repo"
+   * @param tokens - Prompt plus completion tokens
+   * @param costUsd - Cost of the call
+   */
+  record(jobId: string, repoFullName: string, tokens: number, costUsd: number): Promise<void>;
+
+  /**
+   * Gets a repository's spend for the current UTC day
+   *
+   * @param repoFullName - "owner/repo"
+   * @returns Tokens and cost spent today
+   */
+  get(repoFullName: string): Promise<BudgetUsage>;
+}
+
+// ===========================================
+// Run Usage
+// ===========================================
+
+/**
+ * Creates an empty usage total
+ *
+ * @returns Usage with every counter at 0
+ */
+export function createRunUsage(): RunUsage {
+  return { llmCalls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+/**
+ * Adds one LLM call to a usage total
+ *
+ * @param total - Usage total (updated in place)
+ * @param usage - Tokens of the call (undefined when the backend reported none)
+ * @param costUsd - Cost of the call
+ */
+export function addUsage(total: RunUsage, usage: LLMUsage | undefined, costUsd: number): void {
+  total.llmCalls++;
+  if (!usage) return;
+
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+  total.totalTokens += usage.promptTokens + usage.completionTokens;
+  total.costUsd += costUsd;
+}
+
+// ===========================================
+// Configuration
+// ===========================================
+
+/**
+ * Reads the per-run budget
+ *
+ * @returns Limits from RUN_TOKEN_BUDGET and RUN_COST_BUDGET_USD
+ * @throws Error if a value is not a positive number
+ */
+export function getRunBudget(): Budget {
+  return {
+    tokens: readLimit(process.env.RUN_TOKEN_BUDGET, 'RUN_TOKEN_BUDGET'),
+    costUsd: readLimit(process.env.RUN_COST_BUDGET_USD, 'RUN_COST_BUDGET_USD'),
+  };
+}
+
+/**
+ * Reads the daily budget of a repository
+ *
+ * REPO_DAILY_BUDGETS example:
+ *   {"*": {"costUsd": 20}, "acme/noisy": {"tokens": 500000, "costUsd": 5}}
+ * The repository's entry overrides the "*" entry field by field.
+ *
+ * @param repoFullName - "owner/repo"
+ * @returns Daily limits for the repository
+ * @throws Error if the variable is not valid JSON or has invalid limits
+ */
+export function getRepoDailyBudget(repoFullName: string): Budget {
+  const raw = process.env.REPO_DAILY_BUDGETS;
+  if (!raw) return {};
+
+  let config: Record<string, Budget>;
+  try {
+    config = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`REPO_DAILY_BUDGETS is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const merged: Budget = { ...config['*'], ...config[repoFullName] };
+  return {
+    tokens: readLimit(merged.tokens, `REPO_DAILY_BUDGETS["${repoFullName}"].tokens`),
+    costUsd: readLimit(merged.costUsd, `REPO_DAILY_BUDGETS["${repoFullName}"].costUsd`),
+  };
+}
+
+/**
+ * Combines two budgets, keeping the stricter limit of each field
+ *
+ * @param a - First budget
+ * @param b - Second budget
+ * @returns Budget with the lower of each pair of set limits
+ */
+export function tightenBudget(a: Budget, b: Budget): Budget {
+  const lower = (x?: number, y?: number) =>
+    x === undefined ? y : y === undefined ? x : Math.min(x, y);
+  return { tokens: lower(a.tokens, b.tokens), costUsd: lower(a.costUsd, b.costUsd) };
+}
+
+/**
+ * Parses an optional positive limit
+ */
+function readLimit(raw: unknown, name: string): number | undefined {
+  if (raw === undefined || raw === '') return undefined;
+
+  const value = Number(raw);
+  if (typeof raw === 'boolean' || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`${name} must be a positive number, got "${raw}"`);
+  }
+  return value;
+}
+
+// ===========================================
+// Budget Checks
+// ===========================================
+
+/**
+ * Checks whether spend has reached a budget
+ *
+ * @param usage - Spend so far
+ * @param budget - Limits
+ * @param label - What the budget belongs to, for the message (e.g. "Run")
+ * @returns Description of the exhausted limit, or undefined if within budget
+ */
+export function checkBudget(
+  usage: BudgetUsage,
+  budget: Budget,
+  label: string
+): string | undefined {
+  if (budget.tokens !== undefined && usage.totalTokens >= budget.tokens) {
+    return `${label} token budget used up (${usage.totalTokens}/${budget.tokens} tokens)`;
+  }
+
+  if (budget.costUsd !== undefined && usage.costUsd >= budget.costUsd) {
+    return `${label} cost budget used up ($${usage.costUsd.toFixed(4)}/$${budget.costUsd})`;
+  }
+
+  return undefined;
+}
+
+// ===========================================
+// DailyUsageTracker Class
+// ===========================================
+
+/**
+ * Sums LLM spend per repository per UTC day, in memory
+ *
+ * Only the current day is kept; older entries are dropped as soon as
+ * spend for a new day is recorded.
+ */
+export class DailyUsageTracker implements UsageTracker {
+  private usage = new Map<string, BudgetUsage>();
+
+  /**
+   * Adds the spend of one LLM call
+   *
+   * @param _jobId - Job the call was made for (not tracked here)
+   * @param repoFullName - "owner/repo"
+   * @param tokens - Prompt plus completion tokens
+   * @param costUsd - Cost of the call
+   * @param now - Time of the call (for tests)
+   */
+  async record(
+    _jobId: string,
+    repoFullName: string,
+    tokens: number,
+    costUsd: number,
+    now: Date = new Date()
+  ): Promise<void> {
+    const day = toDay(now);
+    for (const key of this.usage.keys()) {
+      if (!key.startsWith(`${day}|`)) this.usage.delete(key);
+    }
+
+    const key = `${day}|${repoFullName}`;
+    this.usage.set(key, addSpend(this.usage.get(key), { totalTokens: tokens, costUsd }));
+  }
+
+  /**
+   * Gets a repository's spend for a day
+   *
+   * @param repoFullName - "owner/repo"
+   * @param now - Any time on the day (defaults to today)
+   * @returns Tokens and cost spent that day
+   */
+  async get(repoFullName: string, now: Date = new Date()): Promise<BudgetUsage> {
+    return this.usage.get(`${toDay(now)}|${repoFullName}`) ?? { totalTokens: 0, costUsd: 0 };
+  }
+}
+
+/**
+ * Adds up two amounts of spend
+ *
+ * @param a - First amount (missing counts as nothing)
+ * @param b - Second amount
+ * @returns Sum of tokens and cost
+ */
+export function addSpend(a: BudgetUsage | undefined, b: BudgetUsage): BudgetUsage {
+  return {
+    totalTokens: (a?.totalTokens ?? 0) + b.totalTokens,
+    costUsd: (a?.costUsd ?? 0) + b.costUsd,
+  };
+}
+
+/**
+ * UTC date as YYYY-MM-DD
+ *
+ * @param date - Time on the day
+ * @returns Day key used for daily spend
+ */
+export function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Tracker for runs that are given none (runs outside the job queue)
+ */
+export const defaultUsageTracker = new DailyUsageTracker();
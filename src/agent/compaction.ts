@@ -0,0 +1,239 @@
+/**
+ * ===========================================
+ * Conversation Compaction
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Keep a running estimate of how many tokens the next LLM request uses
+ * - Shrink old tool results once the estimate crosses the context limit
+ * - Keep the full text of every compacted result for later reference
+ *
+ * INPUT:
+ * - CONTEXT_TOKEN_LIMIT: tokens the conversation may use (default 120000)
+ * - The conversation before each LLM call
+ *
+ * OUTPUT:
+ * - The same conversation with old tool results replaced by previews
+ *
+ * ARCHITECTURE POSITION:
+ * Agent → [THIS: Compaction] → LLM Provider
+ *
+ * KEY CONCEPT:
+ * Tool results (whole diffs, file contents) make up most of a long run's
+ * context and are rarely needed verbatim after the model has read them.
+ * Compaction replaces the oldest ones with a short preview and a
+ * reference ("ref") to the full copy in the run's ToolResultStore, which
+ * read_tool_result pages through, until the conversation is back under
+ * 75% of the limit. Results the model has not seen yet (after the last
+ * assistant turn) are never compacted.
+ *
+ * Token counts are estimates (about 4 characters per token), corrected
+ * with the prompt tokens the provider reports after each call.
+ */
+
+import { LLMMessage } from '../llm/provider';
+import { ToolResultStore, readHint } from './toolResults';
+
+// ===========================================
+// Configuration
+// ===========================================
+
+/**
+ * Rough characters per token for English text and code
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Default context budget for the conversation
+ */
+const DEFAULT_CONTEXT_TOKEN_LIMIT = 120000;
+
+/**
+ * Compaction stops once the conversation is below this share of the limit
+ */
+const COMPACTION_TARGET_RATIO = 0.75;
+
+/**
+ * Characters of a compacted result kept as a preview
+ */
+const PREVIEW_CHARS = 500;
+
+/**
+ * Marks a tool result that was compacted
+ */
+export const COMPACTED_MARKER = '[Compacted tool result';
+
+/**
+ * Reads the context budget
+ *
+ * @returns CONTEXT_TOKEN_LIMIT, or 120000 when unset
+ * @throws Error if CONTEXT_TOKEN_LIMIT is not a positive integer
+ */
+export function getContextTokenLimit(): number {
+  const raw = process.env.CONTEXT_TOKEN_LIMIT;
+  if (!raw) return DEFAULT_CONTEXT_TOKEN_LIMIT;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`CONTEXT_TOKEN_LIMIT must be a positive integer, got "${raw}"`);
+  }
+  return value;
+}
+
+// ===========================================
+// Token Accounting
+// ===========================================
+
+/**
+ * Estimates the tokens of a text
+ *
+ * @param text - Any text
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimates the tokens of one message, including its tool calls
+ *
+ * @param message - Conversation message
+ * @returns Estimated token count
+ */
+export function estimateMessageTokens(message: LLMMessage): number {
+  let tokens = estimateTokens(message.content);
+  if (message.role === 'assistant' && message.toolCalls) {
+    tokens += estimateTokens(JSON.stringify(message.toolCalls));
+  }
+  return tokens;
+}
+
+/**
+ * Tracks the size of the conversation sent with each LLM request
+ *
+ * Between calls the size is the last reported prompt size plus estimates
+ * for the messages added since. After compaction the reported size is
+ * stale, so the meter falls back to estimating everything.
+ */
+export class ContextMeter {
+  private fixedTokens: number;
+  private measured?: { tokens: number; messageCount: number };
+
+  /**
+   * Creates a meter for one run
+   *
+   * @param fixedText - Text sent with every request (system prompt, tool definitions)
+   */
+  constructor(fixedText: string) {
+    this.fixedTokens = estimateTokens(fixedText);
+  }
+
+  /**
+   * Records the prompt size the provider reported for a request
+   *
+   * @param promptTokens - Reported prompt tokens
+   * @param messageCount - Number of messages sent with that request
+   */
+  record(promptTokens: number, messageCount: number): void {
+    this.measured = { tokens: promptTokens, messageCount };
+  }
+
+  /**
+   * Forgets the reported size (after the conversation was rewritten)
+   */
+  reset(): void {
+    this.measured = undefined;
+  }
+
+  /**
+   * Estimates the size of the next request
+   *
+   * @param messages - Current conversation
+   * @returns Estimated prompt tokens
+   */
+  estimate(messages: LLMMessage[]): number {
+    const base = this.measured ?? { tokens: this.fixedTokens, messageCount: 0 };
+    return messages
+      .slice(base.messageCount)
+      .reduce((sum, message) => sum + estimateMessageTokens(message), base.tokens);
+  }
+}
+
+// ===========================================
+// Compaction
+// ===========================================
+
+/**
+ * Shrinks old tool results until the conversation fits the target
+ *
+ * Messages are rewritten in place, oldest tool result first. Results
+ * already compacted, short results and results after the last assistant
+ * turn are left alone.
+ *
+ * @param messages - Conversation (updated in place)
+ * @param contextTokens - Current size estimate of the next request
+ * @param limit - Context budget in tokens
+ * @param store - Where full copies of compacted results are kept
+ * @returns Number of compacted results and the estimated tokens saved
+ */
+export function compactMessages(
+  messages: LLMMessage[],
+  contextTokens: number,
+  limit: number,
+  store: ToolResultStore
+): { compacted: number; tokensSaved: number } {
+  const target = Math.floor(limit * COMPACTION_TARGET_RATIO);
+  const toolNames = new Map<string, string>();
+  let lastAssistant = -1;
+
+  messages.forEach((message, index) => {
+    if (message.role !== 'assistant') return;
+    lastAssistant = index;
+    for (const call of message.toolCalls ?? []) toolNames.set(call.id, call.name);
+  });
+
+  let compacted = 0;
+  let tokensSaved = 0;
+
+  for (let i = 0; i < lastAssistant && contextTokens - tokensSaved > target; i++) {
+    const message = messages[i];
+    if (
+      message.role !== 'tool' ||
+      message.content.startsWith(COMPACTED_MARKER) ||
+      message.content.length <= PREVIEW_CHARS * 2
+    ) {
+      continue;
+    }
+
+    // A truncated result is already stored in full; keep that copy
+    const stored = store.get(message.toolCallId) ?? {
+      tool: toolNames.get(message.toolCallId) ?? 'unknown',
+      content: message.content,
+    };
+    store.save(message.toolCallId, stored);
+
+    const stub = formatCompactedResult(message.toolCallId, stored.tool, stored.content);
+    tokensSaved += estimateTokens(message.content) - estimateTokens(stub);
+    messages[i] = { ...message, content: stub };
+    compacted++;
+  }
+
+  return { compacted, tokensSaved };
+}
+
+/**
+ * Formats the preview that replaces a compacted tool result
+ *
+ * @param ref - Tool call ID the full copy is stored under
+ * @param tool - Tool that produced the result
+ * @param content - Full result text
+ * @returns Replacement content
+ */
+export function formatCompactedResult(ref: string, tool: string, content: string): string {
+  return [
+    `${COMPACTED_MARKER}: ${tool}, ${content.length} characters, ref "${ref}". ` +
+      `Only the beginning is shown to save context. ${readHint(ref, PREVIEW_CHARS)}]`,
+    content.slice(0, PREVIEW_CHARS),
+    '...',
+  ].join('\n');
+}
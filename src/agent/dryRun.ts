@@ -0,0 +1,210 @@
+/**
+ * ===========================================
+ * Dry Run
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Decide whether a run is a dry run (per request or per repository)
+ * - Produce realistic fake results for write tools
+ *
+ * INPUT:
+ * - DRY_RUN_REPOS: comma-separated owner/repo list, or * for all
+ * - Write tool calls from the Agent loop
+ *
+ * OUTPUT:
+ * - Simulated tool results, recorded by runAgent as planned actions
+ *
+ * ARCHITECTURE POSITION:
+ * Agent → [THIS: Dry Run] (instead of write Tools)
+ *
+ * KEY CONCEPT:
+ * In a dry run read tools still hit GitHub, so the model sees the real
+ * repository. Write tools return results shaped like the real ones
+ * (IDs, SHAs, URLs), so the model carries on as if the action happened
+ * and the whole plan becomes visible. Fake values are derived from the
+ * tool arguments, never from real GitHub state.
+ */
+
+import * as crypto from 'crypto';
+import {
+  GitHubBranch,
+  GitHubComment,
+  GitHubFileCommitResult,
+  GitHubPullRequest,
+  GitHubPullRequestReview,
+} from '../tools/github';
+import { FileWriteResult } from '../tools/fs';
+import { HttpResponse } from '../tools/http';
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Side effect a dry run would have performed
+ */
+export interface PlannedAction {
+  /** Agent loop iteration */
+  iteration: number;
+
+  tool: string;
+  input: Record<string, unknown>;
+
+  /** Fake result returned to the model */
+  simulatedResult: unknown;
+}
+
+/**
+ * Login shown as the author of simulated comments, PRs and reviews
+ */
+const DRY_RUN_LOGIN = 'agent-dry-run';
+
+// ===========================================
+// Configuration
+// ===========================================
+
+/**
+ * Checks whether a repository is configured for dry runs
+ *
+ * @param repoFullName - "owner/repo"
+ * @returns true if DRY_RUN_REPOS lists the repository (or is *)
+ */
+export function isDryRunRepo(repoFullName: string): boolean {
+  const repos = (process.env.DRY_RUN_REPOS || '')
+    .split(',')
+    .map((repo) => repo.trim().toLowerCase())
+    .filter((repo) => repo.length > 0);
+
+  return repos.includes('*') || repos.includes(repoFullName.toLowerCase());
+}
+
+/**
+ * Parses a dry-run flag from a query parameter or header value
+ *
+ * @param value - Raw flag value
+ * @returns true for "1", "true" or "yes"
+ */
+export function parseDryRunFlag(value: unknown): boolean {
+  return typeof value === 'string' && ['1', 'true', 'yes'].includes(value.toLowerCase());
+}
+
+// ===========================================
+// Simulated Results
+// ===========================================
+
+/**
+ * Derives a 40-character hex SHA from the call
+ */
+function fakeSha(tool: string, input: unknown): string {
+  return crypto.createHash('sha1').update(`${tool}\n${JSON.stringify(input)}`).digest('hex');
+}
+
+/**
+ * Derives a six-digit ID from the call
+ */
+function fakeId(tool: string, input: unknown): number {
+  return 100000 + (parseInt(fakeSha(tool, input).slice(0, 8), 16) % 900000);
+}
+
+/**
+ * Builds the fake result of a write tool
+ *
+ * @param tool - Write tool name
+ * @param input - Tool arguments
+ * @returns Result shaped like the real tool's result
+ */
+export function simulateWriteTool(tool: string, input: Record<string, unknown>): unknown {
+  const owner = String(input.owner ?? '');
+  const repo = String(input.repo ?? '');
+  const repoUrl = `https://github.com/${owner}/${repo}`;
+  const now = new Date().toISOString();
+
+  switch (tool) {
+    case 'github_createComment': {
+      const comment: GitHubComment = {
+        id: fakeId(tool, input),
+        body: String(input.body ?? ''),
+        user: { login: DRY_RUN_LOGIN },
+        created_at: now,
+      };
+      return comment;
+    }
+
+    case 'github_createBranch': {
+      const branch: GitHubBranch = {
+        name: String(input.branch ?? ''),
+        sha: fakeSha(tool, input),
+        protected: false,
+      };
+      return branch;
+    }
+
+    case 'github_createOrUpdateFile': {
+      const commitSha = fakeSha(tool, input);
+      const commit: GitHubFileCommitResult = {
+        path: String(input.path ?? ''),
+        sha: fakeSha('blob', input.content),
+        commitSha,
+        commitUrl: `${repoUrl}/commit/${commitSha}`,
+      };
+      return commit;
+    }
+
+    case 'github_createPullRequest': {
+      const number = fakeId(tool, input);
+      const pullRequest: GitHubPullRequest = {
+        number,
+        title: String(input.title ?? ''),
+        body: String(input.body ?? ''),
+        state: 'open',
+        head: { ref: String(input.head ?? ''), sha: fakeSha(tool, input) },
+        base: { ref: String(input.base ?? '') },
+        user: { login: DRY_RUN_LOGIN },
+        html_url: `${repoUrl}/pull/${number}`,
+      };
+      return pullRequest;
+    }
+
+    case 'github_createPullRequestReview': {
+      const id = fakeId(tool, input);
+      const states: Record<string, GitHubPullRequestReview['state']> = {
+        APPROVE: 'APPROVED',
+        REQUEST_CHANGES: 'CHANGES_REQUESTED',
+        COMMENT: 'COMMENTED',
+      };
+      const review: GitHubPullRequestReview = {
+        id,
+        user: { login: DRY_RUN_LOGIN },
+        body: String(input.body ?? ''),
+        state: states[String(input.event)] ?? 'COMMENTED',
+        html_url: `${repoUrl}/pull/${input.pullNumber}#pullrequestreview-${id}`,
+        submitted_at: now,
+      };
+      return review;
+    }
+
+    case 'fs_writeFile': {
+      const written: FileWriteResult = {
+        path: String(input.path ?? ''),
+        size: Buffer.byteLength(String(input.content ?? '')),
+        success: true,
+      };
+      return written;
+    }
+
+    case 'http_post': {
+      const response: HttpResponse = {
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        data: null,
+        url: String(input.url ?? ''),
+        duration: 0,
+      };
+      return response;
+    }
+
+    default:
+      return { success: true };
+  }
+}
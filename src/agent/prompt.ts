@@ -7,9 +7,11 @@
  * - Define the Agent's core identity and role
  * - Establish decision-making principles
  * - Set boundaries between Agent, Skills, and Tools
+ * - Add guidance for the event that triggered the run
  *
  * INPUT:
- * - None (static configuration)
+ * - Prompt templates in src/agent/prompts/*.md (PROMPTS_DIR overrides)
+ * - Optional per-repository overrides in PROMPT_OVERRIDES_DIR
  *
  * OUTPUT:
  * - Base system prompt string for Claude
@@ -18,7 +20,92 @@
  * This prompt defines WHO the Agent is.
  * Skills define WHAT the Agent can do.
  * Tools define HOW actions are executed.
+ *
+ * KEY CONCEPT:
+ * Every prompt is a Markdown template named after its context type
+ * (base.md, github_issue.md, ...). A template is looked up in
+ *   1. PROMPT_OVERRIDES_DIR/<owner>/<repo>/<name>.md (one repository)
+ *   2. PROMPT_OVERRIDES_DIR/<name>.md                (every repository)
+ *   3. the built-in prompts directory
+ * so a deployment can reword any prompt without touching the code.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ===========================================
+// Configuration
+// ===========================================
+
+/**
+ * Default directory of the built-in templates, next to this module
+ * (npm run build copies src/agent/prompts to dist/agent/prompts)
+ *
+ * Override with PROMPTS_DIR.
+ */
+const DEFAULT_PROMPTS_DIR = path.join(__dirname, 'prompts');
+
+/**
+ * Context type of each event type; events without an entry get no
+ * context section
  */
+const CONTEXT_TYPES: Record<string, string> = {
+  issues: 'github_issue',
+  pull_request: 'github_pull_request',
+  issue_comment: 'github_issue_comment',
+  push: 'github_push',
+  schedule: 'scheduled_run',
+  manual: 'manual_run',
+};
+
+/**
+ * Template names and path segments that are safe to join into a path
+ */
+const SAFE_SEGMENT = /^[A-Za-z0-9_.-]+$/;
+
+// ===========================================
+// Template Loading
+// ===========================================
+
+/**
+ * Loads a prompt template, preferring a repository's override
+ *
+ * @param name - Template name without extension (e.g. 'github_issue')
+ * @param repoFullName - "owner/repo" whose overrides apply (optional)
+ * @returns Template text, or undefined if no template has that name
+ */
+export function loadPromptTemplate(name: string, repoFullName?: string): string | undefined {
+  if (!isSafeSegment(name)) return undefined;
+
+  const candidates: string[] = [];
+  const overridesDir = process.env.PROMPT_OVERRIDES_DIR;
+  if (overridesDir) {
+    const [owner, repo] = repoFullName?.split('/') ?? [];
+    if (isSafeSegment(owner) && isSafeSegment(repo)) {
+      candidates.push(path.join(overridesDir, owner, repo, `${name}.md`));
+    }
+    candidates.push(path.join(overridesDir, `${name}.md`));
+  }
+  candidates.push(path.join(process.env.PROMPTS_DIR || DEFAULT_PROMPTS_DIR, `${name}.md`));
+
+  for (const candidate of candidates) {
+    if (fs.existsSync(candidate)) {
+      return fs.readFileSync(candidate, 'utf8');
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks that a value can be used as a single path segment
+ */
+function isSafeSegment(value: string | undefined): value is string {
+  return value !== undefined && SAFE_SEGMENT.test(value) && value !== '.' && value !== '..';
+}
+
+// ===========================================
+// Prompts
+// ===========================================
 
 /**
  * Returns the base system prompt for the Agent
@@ -29,141 +116,53 @@
  * 3. Relationship with Tools (execution interfaces)
  * 4. General behavior guidelines
  *
+ * @param repoFullName - "owner/repo" whose overrides apply (optional)
  * @returns Base system prompt string
+ * @throws Error if no base.md template exists
  */
-export function getBasePrompt(): string {
-  return `# Agent Workflow Engine
-
-You are an intelligent Agent in a workflow automation system. Your role is to make decisions and coordinate actions, NOT to directly execute them.
-
-## Your Identity
-
-You are the **Control Plane** - the decision-making layer that:
-- Understands goals and requirements
-- Judges the current state of tasks
-- Decides whether and when to use loaded Skills
-- Decides whether to invoke Tools
-- Determines when tasks are complete
-
-You do NOT directly execute any business actions. All actions flow through Tools.
-
-## Architecture Understanding
-
-\`\`\`
-You (Agent) → Skills (Knowledge) → Tools (Execution)
-\`\`\`
-
-- **Skills** are loaded into your context to teach you HOW to approach specific task types
-- **Tools** are functions you can call to execute concrete actions
-- You decide WHEN to apply knowledge from Skills
-- You decide WHICH Tools to invoke and with what parameters
-
-## Core Principles
-
-1. **Think before acting**: Always analyze the situation before taking action
-2. **Minimal intervention**: Do only what's necessary to complete the task
-3. **Skill-guided behavior**: Follow the guidance in loaded Skills
-4. **Clear communication**: Explain your reasoning and actions
-5. **Error awareness**: Recognize when something goes wrong and adapt
-
-## Decision Framework
-
-When you receive a task:
-
-1. **Understand**: What is being asked? What is the goal?
-2. **Assess**: What Skills do I have loaded? What Tools are available?
-3. **Plan**: What steps are needed? In what order?
-4. **Execute**: Invoke Tools as needed, following Skill guidance
-5. **Verify**: Did the action succeed? Is the task complete?
-6. **Report**: Summarize what was done and the outcome
-
-## Constraints
-
-- Only use Tools that are explicitly available to you
-- Follow the "Do NOT" sections in loaded Skills strictly
-- If uncertain, prefer to ask for clarification over guessing
-- Never modify code outside the scope of the specific task
-- Always respect repository conventions and existing patterns
-
-## Communication Style
-
-- Be concise but thorough
-- Use structured formats (lists, headers) for clarity
-- Include relevant code snippets when discussing changes
-- Explain the "why" behind decisions, not just the "what"
-
----
+export function getBasePrompt(repoFullName?: string): string {
+  const prompt = loadPromptTemplate('base', repoFullName);
+  if (prompt === undefined) {
+    const dir = process.env.PROMPTS_DIR || DEFAULT_PROMPTS_DIR;
+    throw new Error(
+      `Prompt template "base" not found in ${dir} ` +
+        '(run "npm run build" to copy src/agent/prompts, or set PROMPTS_DIR)'
+    );
+  }
+  return prompt;
+}
 
-The Skills loaded below will provide specific guidance for the current task type.
-`;
+/**
+ * Maps an event type to its context type
+ *
+ * @param eventType - Trigger event (e.g. 'issues', 'push', 'schedule')
+ * @returns Context type (e.g. 'github_issue'), or undefined for unknown events
+ */
+export function getContextType(eventType: string): string | undefined {
+  return CONTEXT_TYPES[eventType];
 }
 
 /**
  * Returns a prompt section for a specific context type
  *
  * @param contextType - Type of trigger context (e.g., 'github_issue')
- * @returns Context-specific prompt additions
- *
- * TODO: Expand with more context types as needed
+ * @param repoFullName - "owner/repo" whose overrides apply (optional)
+ * @returns Context-specific prompt additions (empty for unknown types)
  */
-export function getContextPrompt(contextType: string): string {
-  const contextPrompts: Record<string, string> = {
-    github_issue: `
-## GitHub Issue Context
-
-You are responding to a GitHub issue. Consider:
-- Is this a bug report, feature request, or question?
-- What information is provided vs. missing?
-- What labels are attached?
-- Who is the reporter?
-
-Your actions may include:
-- Asking clarifying questions via comments
-- Proposing solutions
-- Creating pull requests with fixes
-- Closing invalid issues with explanation
-`,
-
-    github_pull_request: `
-## GitHub Pull Request Context
-
-You are responding to a pull request. Consider:
-- What changes are being proposed?
-- Does it follow repository conventions?
-- Are there any potential issues or improvements?
-- Is it ready for review or needs work?
-
-Your actions may include:
-- Reviewing code and leaving comments
-- Suggesting improvements
-- Approving or requesting changes
-- Merging if authorized
-`,
-
-    github_issue_comment: `
-## GitHub Comment Context
-
-You are responding to a comment on an issue or PR. Consider:
-- Is this a response to your previous action?
-- Is there new information or a follow-up request?
-- Does this change the task scope?
-
-Respond appropriately to continue the conversation.
-`,
-  };
-
-  return contextPrompts[contextType] || '';
+export function getContextPrompt(contextType: string, repoFullName?: string): string {
+  return loadPromptTemplate(contextType, repoFullName) ?? '';
 }
 
 /**
  * Combines base prompt with context-specific additions
  *
  * @param contextType - Type of trigger context
+ * @param repoFullName - "owner/repo" whose overrides apply (optional)
  * @returns Combined prompt string
  */
-export function buildSystemPrompt(contextType: string): string {
-  const base = getBasePrompt();
-  const context = getContextPrompt(contextType);
+export function buildSystemPrompt(contextType: string, repoFullName?: string): string {
+  const base = getBasePrompt(repoFullName);
+  const context = getContextPrompt(contextType, repoFullName);
 
   return `${base}\n${context}`;
 }
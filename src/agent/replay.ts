@@ -0,0 +1,369 @@
+/**
+ * ===========================================
+ * Run Replay
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Re-run a recorded Agent run offline: the LLM returns the recorded
+ *   responses in order, tools return their recorded results
+ * - Compare what the current code does with what the recording did and
+ *   report every divergence
+ *
+ * INPUT:
+ * - RunTranscript (from GET /runs/:id or the TranscriptStore)
+ *
+ * OUTPUT:
+ * - ReplayReport: the replayed run, its transcript and the divergences
+ *
+ * ARCHITECTURE POSITION:
+ * Transcript → [THIS: Replay] → runAgent (ReplayProvider, recorded tools)
+ *
+ * KEY CONCEPT:
+ * Replay uses no network and no API credits, so a stored run becomes a
+ * regression test for the loop logic, selectSkills and
+ * buildContextMessage. The model's answers are fixed by the recording;
+ * what can change is what the code sends to the model and which tool
+ * calls it executes. Those are the points that get flagged:
+ *   - system_prompt / tools / messages: the request differs from the
+ *     recorded request (reported once per kind, at the first occurrence)
+ *   - llm_call: the code made more or fewer LLM calls than recorded
+ *   - tool_call: the executed tool calls differ (name, arguments, order)
+ *   - tool_result: the same call produced a different result, e.g. it is
+ *     now refused by the allowlist
+ */
+
+import { AgentContext, AgentResult, ToolExecutor, runAgent } from './runAgent';
+import { LLMProvider, LLMRequest, LLMResponse, ProviderName } from '../llm/provider';
+import { canonicalJson } from '../jobs/StepLedger';
+import {
+  LLMCallEvent,
+  RunTranscript,
+  ToolCallEvent,
+  TranscriptRecorder,
+} from '../runs/TranscriptRecorder';
+import { MemoryTranscriptStore } from '../runs/MemoryTranscriptStore';
+import { DailyUsageTracker } from './budget';
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Kind of difference between the recording and the replay
+ */
+export type DivergenceKind =
+  | 'system_prompt'
+  | 'tools'
+  | 'messages'
+  | 'llm_call'
+  | 'tool_call'
+  | 'tool_result';
+
+/**
+ * A point where the replay did not match the recording
+ */
+export interface Divergence {
+  kind: DivergenceKind;
+
+  /** Agent loop iteration, when known */
+  iteration?: number;
+
+  /** Human-readable description */
+  message: string;
+
+  expected?: unknown;
+  actual?: unknown;
+}
+
+/**
+ * Outcome of a replay
+ */
+export interface ReplayReport {
+  /** true when no divergence was found */
+  matches: boolean;
+  divergences: Divergence[];
+
+  /** Result returned by runAgent during the replay */
+  result: AgentResult;
+
+  /** Transcript of the replayed run */
+  transcript: RunTranscript;
+}
+
+// ===========================================
+// ReplayProvider Class
+// ===========================================
+
+/**
+ * LLM provider that answers with a recording's responses, in order
+ *
+ * Each request is compared with the recorded request first. When the
+ * recording runs out, the provider ends the run with an empty answer.
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+
+  private recording: RunTranscript;
+  private calls: LLMCallEvent[];
+  private index = 0;
+  private reported = new Set<DivergenceKind>();
+  private divergences: Divergence[] = [];
+
+  /**
+   * Creates a provider for one recorded run
+   *
+   * @param recording - Run to replay
+   */
+  constructor(recording: RunTranscript) {
+    this.recording = recording;
+    this.calls = recording.events.filter((e): e is LLMCallEvent => e.type === 'llm');
+    this.name = (recording.provider?.name ?? 'openrouter') as ProviderName;
+    this.model = recording.provider?.model ?? 'replay';
+  }
+
+  /**
+   * Returns the next recorded response
+   *
+   * @param request - Request built by the current code
+   * @returns Recorded response
+   */
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const recorded = this.calls[this.index++];
+    if (!recorded) {
+      this.divergences.push({
+        kind: 'llm_call',
+        iteration: this.index,
+        message: `Replay made LLM call ${this.index}, the recording has only ${this.calls.length}`,
+      });
+      return { content: '', toolCalls: [], stopReason: 'end_turn' };
+    }
+
+    this.compareRequest(request, recorded);
+    return recorded.response;
+  }
+
+  /**
+   * Gets the divergences found so far, including unused recorded calls
+   *
+   * @returns Request and LLM call divergences
+   */
+  getDivergences(): Divergence[] {
+    if (this.index >= this.calls.length) return [...this.divergences];
+
+    return [
+      ...this.divergences,
+      {
+        kind: 'llm_call',
+        iteration: this.index + 1,
+        message: `Replay stopped after ${this.index} LLM calls, the recording has ${this.calls.length}`,
+      },
+    ];
+  }
+
+  /**
+   * Flags differences between the current and the recorded request
+   */
+  private compareRequest(request: LLMRequest, recorded: LLMCallEvent): void {
+    const iteration = recorded.iteration;
+
+    if (request.systemPrompt !== this.recording.systemPrompt) {
+      this.flag({
+        kind: 'system_prompt',
+        iteration,
+        message: 'System prompt differs from the recording',
+        expected: this.recording.systemPrompt,
+        actual: request.systemPrompt,
+      });
+    }
+
+    const toolNames = request.tools.map((t) => t.name);
+    if (canonicalJson(toolNames) !== canonicalJson(recorded.toolNames)) {
+      this.flag({
+        kind: 'tools',
+        iteration,
+        message: 'Offered tools differ from the recording',
+        expected: recorded.toolNames,
+        actual: toolNames,
+      });
+    }
+
+    const expected =
+      recorded.messages ?? this.recording.messages.slice(0, recorded.messageCount);
+    const length = Math.max(expected.length, request.messages.length);
+    for (let i = 0; i < length; i++) {
+      if (canonicalJson(expected[i] ?? null) !== canonicalJson(request.messages[i] ?? null)) {
+        this.flag({
+          kind: 'messages',
+          iteration,
+          message: `Message ${i} sent to the LLM differs from the recording`,
+          expected: expected[i],
+          actual: request.messages[i],
+        });
+        break;
+      }
+    }
+  }
+
+  /**
+   * Records a request divergence, once per kind
+   */
+  private flag(divergence: Divergence): void {
+    if (this.reported.has(divergence.kind)) return;
+    this.reported.add(divergence.kind);
+    this.divergences.push(divergence);
+  }
+}
+
+// ===========================================
+// Recorded Tools
+// ===========================================
+
+/**
+ * Creates a tool executor that returns recorded results by tool call ID
+ *
+ * Recorded errors are thrown again so runAgent reports them the same
+ * way. A call missing from the recording fails instead of running.
+ *
+ * @param recording - Run to replay
+ * @returns Tool executor for runAgent
+ */
+export function createRecordedToolExecutor(
+  recording: RunTranscript
+): ToolExecutor {
+  const byId = new Map<string, ToolCallEvent>();
+  for (const event of recording.events) {
+    if (event.type === 'tool') byId.set(event.toolCallId, event);
+  }
+
+  return async (toolCall) => {
+    const recorded = byId.get(toolCall.id);
+    if (!recorded || recorded.name !== toolCall.name) {
+      throw new Error(`No recorded result for ${toolCall.name} (call ${toolCall.id})`);
+    }
+
+    if (recorded.isError) {
+      throw new Error(recorded.result.replace(/^Error: /, ''));
+    }
+
+    // runAgent stringifies results with 2-space indentation, so parsing
+    // the recorded text gives back a value that serializes identically
+    return recorded.result === undefined ? undefined : JSON.parse(recorded.result);
+  };
+}
+
+/**
+ * Compares the executed tool calls of two runs, in order
+ *
+ * @param recorded - Recorded tool events
+ * @param replayed - Tool events of the replay
+ * @returns tool_call and tool_result divergences
+ */
+export function compareToolCalls(
+  recorded: ToolCallEvent[],
+  replayed: ToolCallEvent[]
+): Divergence[] {
+  const divergences: Divergence[] = [];
+  const length = Math.max(recorded.length, replayed.length);
+
+  for (let i = 0; i < length; i++) {
+    const expected = recorded[i];
+    const actual = replayed[i];
+
+    if (!expected || !actual) {
+      divergences.push({
+        kind: 'tool_call',
+        iteration: (actual ?? expected).iteration,
+        message: actual
+          ? `Replay executed ${actual.name}, which the recording did not`
+          : `Recording executed ${expected.name}, which the replay did not`,
+        expected: expected && { name: expected.name, input: expected.input },
+        actual: actual && { name: actual.name, input: actual.input },
+      });
+      continue;
+    }
+
+    if (
+      expected.toolCallId !== actual.toolCallId ||
+      expected.name !== actual.name ||
+      canonicalJson(expected.input) !== canonicalJson(actual.input)
+    ) {
+      divergences.push({
+        kind: 'tool_call',
+        iteration: actual.iteration,
+        message: `Tool call ${i + 1} differs: expected ${expected.name}, got ${actual.name}`,
+        expected: { name: expected.name, input: expected.input },
+        actual: { name: actual.name, input: actual.input },
+      });
+      continue;
+    }
+
+    if (expected.result !== actual.result || expected.isError !== actual.isError) {
+      divergences.push({
+        kind: 'tool_result',
+        iteration: actual.iteration,
+        message: `Tool call ${i + 1} (${actual.name}) returned a different result`,
+        expected: expected.result,
+        actual: actual.result,
+      });
+    }
+  }
+
+  return divergences;
+}
+
+// ===========================================
+// Replay
+// ===========================================
+
+/**
+ * Re-runs a recorded run against the current code, offline
+ *
+ * @param recording - Run to replay
+ * @param context - Trigger context, for recordings made before the
+ *   context was stored
+ * @returns Replay report
+ */
+export async function replayRun(
+  recording: RunTranscript,
+  context?: AgentContext
+): Promise<ReplayReport> {
+  const replayContext = context ?? recording.context;
+  if (!replayContext) {
+    throw new Error(`Run ${recording.runId} has no recorded context to replay`);
+  }
+
+  console.log(`[Replay] Replaying run ${recording.runId} of job ${recording.jobId}`);
+
+  const provider = new ReplayProvider(recording);
+  const recorder = new TranscriptRecorder(recording.jobId, new MemoryTranscriptStore());
+
+  // Deep copy: runAgent resolves changed files onto the context
+  const result = await runAgent(JSON.parse(JSON.stringify(replayContext)), {
+    provider,
+    executeTool: createRecordedToolExecutor(recording),
+    transcript: recorder,
+    // Replayed calls cost nothing; keep them out of the repository's daily spend
+    usageTracker: new DailyUsageTracker(),
+    // The configuration the run saw, not whatever the repository has today
+    repoConfig: recording.repoConfig ?? {},
+  });
+
+  const transcript = recorder.getTranscript();
+  const toolEvents = (run: RunTranscript) =>
+    run.events.filter((e): e is ToolCallEvent => e.type === 'tool');
+
+  const divergences = [
+    ...provider.getDivergences(),
+    ...compareToolCalls(toolEvents(recording), toolEvents(transcript)),
+  ];
+
+  console.log(`[Replay] Run ${recording.runId}: ${divergences.length} divergence(s)`);
+
+  return {
+    matches: divergences.length === 0,
+    divergences,
+    result,
+    transcript,
+  };
+}
@@ -0,0 +1,292 @@
+/**
+ * ===========================================
+ * Repository Configuration
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Fetch .github/agent.yml from the target repository
+ * - Validate it against the configuration schema
+ * - Cache parsed configurations by commit SHA
+ * - Decide whether a trigger is ignored by the repository
+ *
+ * INPUT:
+ * - The repository's .github/agent.yml on its default branch
+ *
+ * OUTPUT:
+ * - RepoConfig for runAgent (model, skills, tools, budget, prompt, ignores)
+ *
+ * ARCHITECTURE POSITION:
+ * Agent → [THIS: Repo Config] → Tools (github_getFileContent)
+ *
+ * KEY CONCEPT:
+ * The file is always read from the head of the default branch, never from
+ * a pull request, so a PR cannot change the rules it is reviewed under.
+ * Settings can only narrow what the server allows: tools are intersected
+ * with the skills' tools and budgets with the server's budgets. A missing
+ * file means no configuration; an invalid file fails the run with every
+ * problem listed, without retries (fixing it takes a new commit).
+ *
+ * Example:
+ * ```yaml
+ * model: anthropic/claude-opus-4
+ * skills: [code-review-skill]
+ * tools: [github_getPullRequest, github_getPullRequestDiff, github_createPullRequestReview]
+ * budget:
+ *   tokens: 200000
+ *   cost_usd: 1
+ * prompt: |
+ *   We use tabs, not spaces. Never suggest adding dependencies.
+ * ignore:
+ *   labels: [wontfix]
+ *   events: [push]
+ * ```
+ */
+
+import { parse as parseYaml } from 'yaml';
+import { getBranch, getFileContent } from '../tools/github';
+import { PermanentError } from '../jobs/retryPolicy';
+import { isKnownTool } from './toolRegistry';
+import { JsonSchema, validateSchema } from './schemaValidator';
+import { Budget } from './budget';
+import { AgentContext } from './runAgent';
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Settings a repository applies to its own runs; unset fields keep the
+ * server's behavior
+ */
+export interface RepoConfig {
+  /** Model name for the repository's configured provider */
+  model?: string;
+
+  /** Skills that may be selected (all when unset) */
+  skills?: string[];
+
+  /** Tools the run may use, within the selected skills' tools */
+  tools?: string[];
+
+  /** Per-run limits, applied when stricter than the server's */
+  budget?: Budget;
+
+  /** Extra instructions added to the system prompt */
+  prompt?: string;
+
+  /** Triggers that do not start a run */
+  ignore?: {
+    labels?: string[];
+    events?: string[];
+  };
+}
+
+// ===========================================
+// Configuration
+// ===========================================
+
+/**
+ * Location of the configuration file in the repository
+ */
+export const REPO_CONFIG_PATH = '.github/agent.yml';
+
+/**
+ * Most configurations kept in memory (oldest dropped first)
+ */
+const MAX_CACHED_CONFIGS = 500;
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string', minLength: 1 } };
+
+/**
+ * Schema of .github/agent.yml
+ */
+export const repoConfigSchema: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    model: { type: 'string', minLength: 1 },
+    skills: stringList,
+    tools: stringList,
+    budget: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        tokens: { type: 'integer', minimum: 1 },
+        cost_usd: { type: 'number', minimum: 0.000001 },
+      },
+    },
+    prompt: { type: 'string' },
+    ignore: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        labels: stringList,
+        events: stringList,
+      },
+    },
+  },
+};
+
+// ===========================================
+// Parsing
+// ===========================================
+
+/**
+ * Parses and validates the text of .github/agent.yml
+ *
+ * @param text - File content
+ * @returns Configuration (empty for an empty file)
+ * @throws PermanentError listing every problem if the file is invalid
+ */
+export function parseRepoConfig(text: string): RepoConfig {
+  let data: unknown;
+  try {
+    data = parseYaml(text);
+  } catch (error) {
+    throw new PermanentError(`${REPO_CONFIG_PATH} is not valid YAML: ${(error as Error).message}`);
+  }
+  if (data === null || data === undefined) return {};
+
+  const problems = validateSchema(data, repoConfigSchema);
+  const raw = data as {
+    model?: string;
+    skills?: string[];
+    tools?: string[];
+    budget?: { tokens?: number; cost_usd?: number };
+    prompt?: string;
+    ignore?: RepoConfig['ignore'];
+  };
+
+  if (problems.length === 0 && raw.tools) {
+    const unknown = raw.tools.filter((t) => !isKnownTool(t));
+    if (unknown.length > 0) {
+      problems.push(`tools: unknown tools: ${unknown.join(', ')}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new PermanentError(`${REPO_CONFIG_PATH} is invalid: ${problems.join('; ')}`);
+  }
+
+  return {
+    model: raw.model,
+    skills: raw.skills,
+    tools: raw.tools,
+    budget: raw.budget && { tokens: raw.budget.tokens, costUsd: raw.budget.cost_usd },
+    prompt: raw.prompt,
+    ignore: raw.ignore,
+  };
+}
+
+// ===========================================
+// RepoConfigCache Class
+// ===========================================
+
+/**
+ * Parsed configurations by "owner/repo@sha"
+ *
+ * A commit never changes, so entries stay valid until evicted; a push to
+ * the default branch simply leads to a new key.
+ */
+export class RepoConfigCache {
+  private configs = new Map<string, RepoConfig>();
+
+  /**
+   * Gets a cached configuration
+   *
+   * @param repoFullName - "owner/repo"
+   * @param sha - Commit SHA the file was read at
+   * @returns Configuration, or undefined on a cache miss
+   */
+  get(repoFullName: string, sha: string): RepoConfig | undefined {
+    return this.configs.get(`${repoFullName}@${sha}`);
+  }
+
+  /**
+   * Caches a configuration
+   *
+   * @param repoFullName - "owner/repo"
+   * @param sha - Commit SHA the file was read at
+   * @param config - Parsed configuration
+   */
+  set(repoFullName: string, sha: string, config: RepoConfig): void {
+    this.configs.set(`${repoFullName}@${sha}`, config);
+    if (this.configs.size > MAX_CACHED_CONFIGS) {
+      const oldest = this.configs.keys().next().value as string;
+      this.configs.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Cache shared by all runs of this process
+ */
+export const defaultRepoConfigCache = new RepoConfigCache();
+
+// ===========================================
+// Loading
+// ===========================================
+
+/**
+ * Loads the configuration of the repository a run belongs to
+ *
+ * Reads .github/agent.yml at the head commit of the default branch and
+ * caches it by that commit. Contexts without a known default branch read
+ * the file from the default branch directly, without caching.
+ *
+ * @param context - Trigger context
+ * @param cache - Parsed configurations (defaults to the shared cache)
+ * @returns Configuration (empty if the repository has no file)
+ * @throws Error if GitHub cannot be reached, PermanentError if the file is invalid
+ */
+export async function loadRepoConfig(
+  context: AgentContext,
+  cache: RepoConfigCache = defaultRepoConfigCache
+): Promise<RepoConfig> {
+  const { owner, name, fullName, defaultBranch } = context.repository;
+
+  let sha: string | undefined;
+  if (defaultBranch) {
+    sha = (await getBranch({ owner, repo: name, branch: defaultBranch })).sha;
+    const cached = cache.get(fullName, sha);
+    if (cached) return cached;
+  }
+
+  let config: RepoConfig;
+  try {
+    const file = await getFileContent({ owner, repo: name, path: REPO_CONFIG_PATH, ref: sha });
+    config = parseRepoConfig(file.content);
+    console.log(`[RepoConfig] Loaded ${REPO_CONFIG_PATH} for ${fullName}`);
+  } catch (error) {
+    if (!(error as Error).message.startsWith('GitHub API error (404)')) throw error;
+    config = {};
+  }
+
+  if (sha) cache.set(fullName, sha, config);
+  return config;
+}
+
+// ===========================================
+// Ignore Rules
+// ===========================================
+
+/**
+ * Checks whether the repository ignores a trigger
+ *
+ * @param config - Repository configuration
+ * @param context - Trigger context
+ * @returns Reason the trigger is ignored, or undefined if it runs
+ */
+export function getIgnoreReason(config: RepoConfig, context: AgentContext): string | undefined {
+  if (config.ignore?.events?.includes(context.eventType)) {
+    return `event "${context.eventType}" is ignored`;
+  }
+
+  const labels = [...(context.issue?.labels ?? []), ...(context.pullRequest?.labels ?? [])];
+  const label = labels.find((l) => config.ignore?.labels?.includes(l));
+  if (label) {
+    return `label "${label}" is ignored`;
+  }
+
+  return undefined;
+}
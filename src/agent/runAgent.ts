@@ -31,35 +31,52 @@
  */
 
 import 'dotenv/config';
-import OpenAI from 'openai';
-import { getBasePrompt } from './prompt';
-import { selectSkills, loadSkillContent, Skill } from './skillPolicy';
-import * as githubTool from '../tools/github';
-import * as fsTool from '../tools/fs';
-import * as httpTool from '../tools/http';
-
-// Initialize OpenRouter client (OpenAI-compatible)
-// Lazy initialization to ensure env vars are loaded
-let _openrouter: OpenAI | null = null;
-
-function getOpenRouterClient(): OpenAI {
-  if (!_openrouter) {
-    _openrouter = new OpenAI({
-      baseURL: 'https://openrouter.ai/api/v1',
-      apiKey: process.env.OPENROUTER_API_KEY,
-      defaultHeaders: {
-        'HTTP-Referer': process.env.APP_URL || 'http://localhost:3000',
-        'X-Title': 'Agent Workflow Server',
-      },
-    });
-  }
-  return _openrouter;
-}
-
-// Model to use (can be configured via env)
-function getModel(): string {
-  return process.env.OPENROUTER_MODEL || 'anthropic/claude-sonnet-4';
-}
+import { buildSystemPrompt, getBasePrompt, getContextType } from './prompt';
+import {
+  selectSkills,
+  loadSkillContent,
+  resolveChangedFiles,
+  getAllowedTools,
+  getApprovalTools,
+  Skill,
+} from './skillPolicy';
+import {
+  toolRegistry,
+  toolDefinitions,
+  ToolDefinition,
+  ToolFunction,
+  isWriteTool,
+  validateToolInput,
+} from './toolRegistry';
+import { getLLMProvider, LLMProvider, LLMMessage, LLMResponse, ToolCall } from '../llm/provider';
+import { PlannedAction, simulateWriteTool } from './dryRun';
+import { ApprovalRequest, ResumeState, requiresApproval } from './approval';
+import {
+  BudgetUsage,
+  RunUsage,
+  UsageTracker,
+  addSpend,
+  addUsage,
+  checkBudget,
+  createRunUsage,
+  defaultUsageTracker,
+  getRepoDailyBudget,
+  getRunBudget,
+  tightenBudget,
+} from './budget';
+import { RepoConfig, getIgnoreReason, loadRepoConfig } from './repoConfig';
+import { calculateCost } from '../llm/pricing';
+import { ContextMeter, compactMessages, getContextTokenLimit } from './compaction';
+import {
+  READ_TOOL_RESULT,
+  ToolResultStore,
+  getToolResultMaxChars,
+  readToolResult,
+  readToolResultDefinition,
+  truncateToolResult,
+} from './toolResults';
+import { StepLedger } from '../jobs/StepLedger';
+import { TranscriptRecorder } from '../runs/TranscriptRecorder';
 
 // ===========================================
 // Types
@@ -75,6 +92,8 @@ export interface AgentContext {
     owner: string;
     name: string;
     fullName: string;
+    /** Where .github/agent.yml is read from (unknown for older jobs) */
+    defaultBranch?: string;
   };
   issue?: {
     number: number;
@@ -88,28 +107,95 @@ export interface AgentContext {
     body: string;
     headBranch: string;
     baseBranch: string;
+    /** Label names (unknown for older jobs) */
+    labels?: string[];
+  };
+  comment?: {
+    id: number;
+    body: string;
+    author: string;
+    authorAssociation: string;
+    url: string;
+    /** true when the comment was left on a pull request rather than a plain issue */
+    onPullRequest: boolean;
+  };
+  push?: {
+    ref: string;
+    /** Branch name without the refs/heads/ prefix (undefined for tag pushes) */
+    branch?: string;
+    before: string;
+    after: string;
+    created: boolean;
+    deleted: boolean;
+    forced: boolean;
+    compareUrl: string;
+    /** Commits in the push (GitHub includes at most 20) */
+    commits: Array<{
+      id: string;
+      message: string;
+      author: string;
+      url: string;
+      added: string[];
+      modified: string[];
+      removed: string[];
+    }>;
+    /** Unique paths added, modified or removed across all commits */
+    changedFiles: string[];
   };
   sender: {
     login: string;
+    /** Account type: 'User', 'Bot' or 'Organization' */
+    type?: string;
   };
   deliveryId: string;
+  /**
+   * Files touched by the PR or push, resolved once per run by
+   * resolveChangedFiles() and reused for path_pattern triggers
+   */
+  changedFiles?: string[];
 }
 
 /**
- * Message in the conversation history
+ * Executes a tool call that passed the allowlist check
  */
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
-}
+export type ToolExecutor = (toolCall: ToolCall) => Promise<unknown>;
 
 /**
- * Tool call request from Claude
+ * Optional collaborators for a run
  */
-interface ToolCall {
-  id: string;
-  name: string;
-  input: Record<string, unknown>;
+export interface RunAgentOptions {
+  /**
+   * Records write-tool results per job so a retried run replays them
+   * instead of repeating the side effect
+   */
+  stepLedger?: StepLedger;
+
+  /** Records prompts, LLM calls and tool calls for GET /runs/:id */
+  transcript?: TranscriptRecorder;
+
+  /** LLM backend to use instead of the repository's configured one (e.g. replay) */
+  provider?: LLMProvider;
+
+  /** Runs tool calls instead of the tool registry (e.g. replay) */
+  executeTool?: ToolExecutor;
+
+  /**
+   * Simulate write tools instead of running them; read tools still run.
+   * The simulated calls are returned as `plannedActions`.
+   */
+  dryRun?: boolean;
+
+  /** Continue a run that paused for approval, with the human's decision */
+  resume?: ResumeState;
+
+  /** Records spend and reports the repository's daily spend (defaults to in-memory) */
+  usageTracker?: UsageTracker;
+
+  /** Spend of the job's earlier runs (retries, runs before an approval pause) */
+  previousUsage?: BudgetUsage;
+
+  /** Repository configuration to use instead of reading .github/agent.yml (e.g. replay) */
+  repoConfig?: RepoConfig;
 }
 
 /**
@@ -119,392 +205,123 @@ export interface AgentResult {
   success: boolean;
   completedSteps: string[];
   error?: string;
+  /** Original error behind `error`, kept so callers can classify it (e.g. HTTP status) */
+  cause?: unknown;
+  /** Write tool calls that were simulated (dry runs only) */
+  plannedActions?: PlannedAction[];
+  /** Set when the run stopped before a call that needs approval */
+  awaitingApproval?: ApprovalRequest;
+  /** Tokens and cost of the run's LLM calls */
+  usage?: RunUsage;
+  /** Set when the run stopped early because a token or cost budget was used up */
+  budgetExceeded?: string;
+  /** Set when the repository's .github/agent.yml ignores the trigger; nothing ran */
+  ignored?: string;
 }
 
 // ===========================================
-// Tool Registry
+// LLM Integration
 // ===========================================
 
 /**
- * Generic tool function type
- * Using 'any' here to allow flexible tool signatures while maintaining
- * runtime type safety through the tool definitions schema validation.
- */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-type ToolFunction = (input: any) => Promise<unknown>;
-
-/**
- * Maps tool names to their implementations
- *
- * Tools are pure execution interfaces - they contain
- * no decision logic, no business judgment.
- */
-const toolRegistry: Record<string, ToolFunction> = {
-  // GitHub Tools - Read Operations
-  'github_getIssue': githubTool.getIssue,
-  'github_getFileContent': githubTool.getFileContent,
-  'github_listFiles': githubTool.listFiles,
-  'github_getBranch': githubTool.getBranch,
-  'github_getFileSha': githubTool.getFileSha,
-
-  // GitHub Tools - Write Operations (Phase 3)
-  'github_createComment': githubTool.createComment,
-  'github_createBranch': githubTool.createBranch,
-  'github_createOrUpdateFile': githubTool.createOrUpdateFile,
-  'github_createPullRequest': githubTool.createPullRequest,
-
-  // GitHub Tools - PR Review Operations (Code Review Skill)
-  'github_getPullRequest': githubTool.getPullRequest,
-  'github_listPullRequestFiles': githubTool.listPullRequestFiles,
-  'github_getPullRequestDiff': githubTool.getPullRequestDiff,
-  'github_createPullRequestReview': githubTool.createPullRequestReview,
-
-  // File System Tools
-  'fs_readFile': fsTool.readFile,
-  'fs_writeFile': fsTool.writeFile,
-  'fs_listDirectory': fsTool.listDirectory,
-
-  // HTTP Tools
-  'http_get': httpTool.get,
-  'http_post': httpTool.post,
-};
-
-/**
- * Tool definitions for Claude API
- * These describe what tools are available and their parameters
+ * Maximum tokens per LLM completion
  */
-const toolDefinitions = [
-  {
-    name: 'github_getIssue',
-    description: 'Get details of a GitHub issue',
-    input_schema: {
-      type: 'object',
-      properties: {
-        owner: { type: 'string', description: 'Repository owner' },
-        repo: { type: 'string', description: 'Repository name' },
-        issueNumber: { type: 'number', description: 'Issue number' },
-      },
-      required: ['owner', 'repo', 'issueNumber'],
-    },
-  },
-  {
-    name: 'github_createComment',
-    description: 'Create a comment on an issue or PR',
-    input_schema: {
-      type: 'object',
-      properties: {
-        owner: { type: 'string' },
-        repo: { type: 'string' },
-        issueNumber: { type: 'number' },
-        body: { type: 'string', description: 'Comment content' },
-      },
-      required: ['owner', 'repo', 'issueNumber', 'body'],
-    },
-  },
-  {
-    name: 'github_createPullRequest',
-    description: 'Create a new pull request',
-    input_schema: {
-      type: 'object',
-      properties: {
-        owner: { type: 'string' },
-        repo: { type: 'string' },
-        title: { type: 'string' },
-        body: { type: 'string' },
-        head: { type: 'string', description: 'Branch with changes' },
-        base: { type: 'string', description: 'Target branch' },
-      },
-      required: ['owner', 'repo', 'title', 'head', 'base'],
-    },
-  },
-  {
-    name: 'github_getFileContent',
-    description: 'Get content of a file from repository',
-    input_schema: {
-      type: 'object',
-      properties: {
-        owner: { type: 'string' },
-        repo: { type: 'string' },
-        path: { type: 'string', description: 'File path in repo' },
-        ref: { type: 'string', description: 'Branch or commit SHA' },
-      },
-      required: ['owner', 'repo', 'path'],
-    },
-  },
-  {
-    name: 'github_listFiles',
-    description: 'List files in a directory',
-    input_schema: {
-      type: 'object',
-      properties: {
-        owner: { type: 'string' },
-        repo: { type: 'string' },
-        path: { type: 'string' },
-      },
-      required: ['owner', 'repo'],
-    },
-  },
-  {
-    name: 'github_getBranch',
-    description: 'Get information about a branch including its SHA',
-    input_schema: {
-      type: 'object',
-      properties: {
-        owner: { type: 'string', description: 'Repository owner' },
-        repo: { type: 'string', description: 'Repository name' },
-        branch: { type: 'string', description: 'Branch name' },
-      },
-      required: ['owner', 'repo', 'branch'],
-    },
-  },
-  {
-    name: 'github_getFileSha',
-    description: 'Get the SHA of a file (needed for updating existing files)',
-    input_schema: {
-      type: 'object',
-      properties: {
-        owner: { type: 'string', description: 'Repository owner' },
-        repo: { type: 'string', description: 'Repository name' },
-        path: { type: 'string', description: 'File path' },
-        branch: { type: 'string', description: 'Branch name (optional)' },
-      },
-      required: ['owner', 'repo', 'path'],
-    },
-  },
-  {
-    name: 'github_createBranch',
-    description: 'Create a new branch from an existing branch',
-    input_schema: {
-      type: 'object',
-      properties: {
-        owner: { type: 'string', description: 'Repository owner' },
-        repo: { type: 'string', description: 'Repository name' },
-        branch: { type: 'string', description: 'New branch name' },
-        fromBranch: { type: 'string', description: 'Source branch (defaults to main)' },
-      },
-      required: ['owner', 'repo', 'branch'],
-    },
-  },
-  {
-    name: 'github_createOrUpdateFile',
-    description: 'Create or update a file in the repository (commits the change)',
-    input_schema: {
-      type: 'object',
-      properties: {
-        owner: { type: 'string', description: 'Repository owner' },
-        repo: { type: 'string', description: 'Repository name' },
-        path: { type: 'string', description: 'File path in repository' },
-        content: { type: 'string', description: 'File content' },
-        message: { type: 'string', description: 'Commit message' },
-        branch: { type: 'string', description: 'Target branch' },
-        sha: { type: 'string', description: 'File SHA (required for updates, omit for new files)' },
-      },
-      required: ['owner', 'repo', 'path', 'content', 'message', 'branch'],
-    },
-  },
-  {
-    name: 'fs_readFile',
-    description: 'Read a local file',
-    input_schema: {
-      type: 'object',
-      properties: {
-        path: { type: 'string', description: 'File path' },
-      },
-      required: ['path'],
-    },
-  },
-  {
-    name: 'fs_writeFile',
-    description: 'Write content to a local file',
-    input_schema: {
-      type: 'object',
-      properties: {
-        path: { type: 'string' },
-        content: { type: 'string' },
-      },
-      required: ['path', 'content'],
-    },
-  },
-  {
-    name: 'fs_listDirectory',
-    description: 'List files in a local directory',
-    input_schema: {
-      type: 'object',
-      properties: {
-        path: { type: 'string' },
-      },
-      required: ['path'],
-    },
-  },
-  {
-    name: 'http_get',
-    description: 'Make an HTTP GET request',
-    input_schema: {
-      type: 'object',
-      properties: {
-        url: { type: 'string' },
-        headers: { type: 'object' },
-      },
-      required: ['url'],
-    },
-  },
-  {
-    name: 'http_post',
-    description: 'Make an HTTP POST request',
-    input_schema: {
-      type: 'object',
-      properties: {
-        url: { type: 'string' },
-        body: { type: 'object' },
-        headers: { type: 'object' },
-      },
-      required: ['url'],
-    },
-  },
-  // PR Review Tools (Code Review Skill)
-  {
-    name: 'github_getPullRequest',
-    description: 'Get details of a pull request',
-    input_schema: {
-      type: 'object',
-      properties: {
-        owner: { type: 'string', description: 'Repository owner' },
-        repo: { type: 'string', description: 'Repository name' },
-        pullNumber: { type: 'number', description: 'Pull request number' },
-      },
-      required: ['owner', 'repo', 'pullNumber'],
-    },
-  },
-  {
-    name: 'github_listPullRequestFiles',
-    description: 'List files changed in a pull request with diff patches',
-    input_schema: {
-      type: 'object',
-      properties: {
-        owner: { type: 'string', description: 'Repository owner' },
-        repo: { type: 'string', description: 'Repository name' },
-        pullNumber: { type: 'number', description: 'Pull request number' },
-      },
-      required: ['owner', 'repo', 'pullNumber'],
-    },
-  },
-  {
-    name: 'github_getPullRequestDiff',
-    description: 'Get the full diff of a pull request as plain text',
-    input_schema: {
-      type: 'object',
-      properties: {
-        owner: { type: 'string', description: 'Repository owner' },
-        repo: { type: 'string', description: 'Repository name' },
-        pullNumber: { type: 'number', description: 'Pull request number' },
-      },
-      required: ['owner', 'repo', 'pullNumber'],
-    },
-  },
-  {
-    name: 'github_createPullRequestReview',
-    description: 'Create a review on a pull request (approve, request changes, or comment)',
-    input_schema: {
-      type: 'object',
-      properties: {
-        owner: { type: 'string', description: 'Repository owner' },
-        repo: { type: 'string', description: 'Repository name' },
-        pullNumber: { type: 'number', description: 'Pull request number' },
-        body: { type: 'string', description: 'Review comment body (Markdown supported)' },
-        event: {
-          type: 'string',
-          enum: ['APPROVE', 'REQUEST_CHANGES', 'COMMENT'],
-          description: 'Review action: APPROVE, REQUEST_CHANGES, or COMMENT',
-        },
-      },
-      required: ['owner', 'repo', 'pullNumber', 'body', 'event'],
-    },
-  },
-];
-
-// ===========================================
-// OpenRouter API Integration
-// ===========================================
-
-/**
- * Converts our tool definitions to OpenAI function format
- */
-function convertToolsToOpenAI(tools: typeof toolDefinitions): OpenAI.ChatCompletionTool[] {
-  return tools.map((tool) => ({
-    type: 'function' as const,
-    function: {
-      name: tool.name,
-      description: tool.description,
-      parameters: tool.input_schema,
-    },
-  }));
-}
+const MAX_OUTPUT_TOKENS = 2048;
 
 /**
- * Calls LLM via OpenRouter with messages and tools
+ * Calls the configured LLM provider with messages and tools
  *
+ * @param provider - LLM backend for this run
  * @param systemPrompt - System instructions including loaded Skills
- * @param messages - Conversation history (OpenAI format)
+ * @param messages - Conversation history (provider-neutral)
  * @param tools - Available tool definitions
  * @returns LLM response with potential tool calls
  */
 async function callLLM(
+  provider: LLMProvider,
   systemPrompt: string,
-  messages: OpenAI.ChatCompletionMessageParam[],
-  tools: typeof toolDefinitions
-): Promise<{
-  content: string;
-  toolCalls: ToolCall[];
-  finishReason: string;
-}> {
-  const model = getModel();
-  console.log('[Agent] Calling OpenRouter API');
-  console.log('[Agent] Model:', model);
+  messages: LLMMessage[],
+  tools: ToolDefinition[]
+): Promise<LLMResponse> {
+  console.log(`[Agent] Calling LLM provider: ${provider.name}`);
+  console.log('[Agent] Model:', provider.model);
   console.log('[Agent] System prompt length:', systemPrompt.length);
   console.log('[Agent] Messages:', messages.length);
   console.log('[Agent] Available tools:', tools.length);
 
-  const openaiTools = convertToolsToOpenAI(tools);
-  const client = getOpenRouterClient();
-
-  const response = await client.chat.completions.create({
-    model: model,
-    max_tokens: 2048,
-    messages: [
-      { role: 'system', content: systemPrompt },
-      ...messages,
-    ],
-    tools: openaiTools,
-    tool_choice: 'auto',
+  const response = await provider.complete({
+    systemPrompt,
+    messages,
+    tools,
+    maxTokens: MAX_OUTPUT_TOKENS,
   });
 
-  const choice = response.choices[0];
-  const message = choice.message;
+  console.log('[Agent] Response stop reason:', response.stopReason);
+  console.log('[Agent] Tool calls:', response.toolCalls.length);
 
-  // Extract text content and tool calls from response
-  const textContent = message.content || '';
-  const toolCalls: ToolCall[] = [];
+  return response;
+}
 
-  if (message.tool_calls) {
-    for (const tc of message.tool_calls) {
-      if (tc.type === 'function') {
-        toolCalls.push({
-          id: tc.id,
-          name: tc.function.name,
-          input: JSON.parse(tc.function.arguments),
-        });
-      }
-    }
-  }
+// ===========================================
+// Tool Execution
+// ===========================================
+
+/**
+ * Default number of read-only tool calls run at the same time
+ */
+const DEFAULT_TOOL_CONCURRENCY = 4;
 
-  console.log('[Agent] Response finish_reason:', choice.finish_reason);
-  console.log('[Agent] Tool calls:', toolCalls.length);
+/**
+ * Result of one tool call, as returned to the model
+ */
+interface ToolCallOutcome {
+  resultContent: string;
+  isError: boolean;
+  durationMs: number;
+}
 
-  return {
-    content: textContent,
-    toolCalls,
-    finishReason: choice.finish_reason || 'stop',
+/**
+ * Reads how many read-only tool calls may run at once
+ *
+ * @returns TOOL_CONCURRENCY, or 4 when unset (1 runs every call sequentially)
+ * @throws Error if TOOL_CONCURRENCY is not a positive integer
+ */
+export function getToolConcurrency(): number {
+  const raw = process.env.TOOL_CONCURRENCY;
+  if (!raw) return DEFAULT_TOOL_CONCURRENCY;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`TOOL_CONCURRENCY must be a positive integer, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Maps items through an async function with at most `limit` in flight
+ *
+ * @param items - Inputs
+ * @param limit - Maximum concurrent calls
+ * @param fn - Async function to apply
+ * @returns Results in the order of `items`
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
   };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
 }
 
 // ===========================================
@@ -522,20 +339,61 @@ async function callLLM(
  *    a. Call Claude with current state
  *    b. If tool calls requested, execute them
  *    c. Add results to conversation
- *    d. Repeat until task complete or max iterations
+ *    d. Repeat until task complete, max iterations or a budget is used up
+ *
+ * Consecutive read-only tool calls of one turn run concurrently (up to
+ * TOOL_CONCURRENCY); write tools run one at a time, in order. Results
+ * always go back to the model in the order of the calls.
+ *
+ * A call that needs approval stops the loop before it runs; the result
+ * carries the saved state (`awaitingApproval`), and a later call with
+ * `options.resume` continues from there.
  *
  * @param context - Trigger context (e.g., GitHub issue)
+ * @param options - Optional collaborators (step ledger, transcript, provider, tool
+ *   executor, usage tracker), the dry-run flag, the state to resume from and
+ *   the job's earlier spend
  * @returns Agent execution result
  */
-export async function runAgent(context: AgentContext): Promise<AgentResult> {
+export async function runAgent(
+  context: AgentContext,
+  options: RunAgentOptions = {}
+): Promise<AgentResult> {
   console.log('[Agent] Starting agent run');
   console.log('[Agent] Context:', JSON.stringify(context, null, 2));
 
   const completedSteps: string[] = [];
+  const messages: LLMMessage[] = [];
+  const { transcript } = options;
+  const plannedActions: PlannedAction[] | undefined = options.dryRun ? [] : undefined;
+  const usage = createRunUsage();
+  let finalAnswer: string | undefined;
+
+  if (options.dryRun) {
+    console.log('[Agent] Dry run: write tools will be simulated');
+  }
 
   try {
+    // Step 0: Apply the repository's own configuration
+    const repoConfig = options.repoConfig ?? (await loadRepoConfig(context));
+    const ignored = options.resume ? undefined : getIgnoreReason(repoConfig, context);
+    if (ignored) {
+      console.log(`[Agent] Skipping run: ${ignored} by the repository configuration`);
+      completedSteps.push(`Ignored: ${ignored}`);
+      transcript?.start({
+        context,
+        repoConfig,
+        skills: [],
+        allowedTools: [],
+        dryRun: options.dryRun,
+      });
+      await transcript?.finish({ success: true, ignored: true, messages, completedSteps });
+      return { success: true, completedSteps, ignored };
+    }
+
     // Step 1: Select appropriate Skills for this context
-    const selectedSkills: Skill[] = selectSkills(context);
+    await resolveChangedFiles(context);
+    const selectedSkills: Skill[] = selectSkills(context, undefined, repoConfig.skills);
     console.log(
       '[Agent] Selected skills:',
       selectedSkills.map((s) => s.name)
@@ -548,89 +406,353 @@ export async function runAgent(context: AgentContext): Promise<AgentResult> {
     );
     completedSteps.push('Loaded skill content');
 
-    // Step 3: Build system prompt with base + skills
-    const basePrompt = getBasePrompt();
+    // Only the union of the selected skills' tools (narrowed by the repository
+    // configuration) is offered and executable, plus read_tool_result for
+    // paging through large results
+    const allowedTools = getAllowedTools(selectedSkills);
+    for (const name of allowedTools) {
+      if (repoConfig.tools && !repoConfig.tools.includes(name)) allowedTools.delete(name);
+    }
+    allowedTools.add(READ_TOOL_RESULT);
+    const tools = [...toolDefinitions, readToolResultDefinition].filter((t) =>
+      allowedTools.has(t.name)
+    );
+    console.log('[Agent] Allowed tools:', Array.from(allowedTools));
+
+    // Step 3: Build system prompt with base + event context + skills
+    const contextType = getContextType(context.eventType);
+    const basePrompt = contextType
+      ? buildSystemPrompt(contextType, context.repository.fullName)
+      : getBasePrompt(context.repository.fullName);
+    const repoSection = repoConfig.prompt
+      ? `\n\n## Repository Instructions\n\n${repoConfig.prompt.trim()}`
+      : '';
     const skillSection = skillContents.join('\n\n---\n\n');
-    const systemPrompt = `${basePrompt}\n\n## Loaded Skills\n\n${skillSection}`;
+    const systemPrompt = `${basePrompt}${repoSection}\n\n## Loaded Skills\n\n${skillSection}`;
+
+    // Step 4: Build initial user message from context, or pick up where a
+    // run paused for approval left off
+    const { resume } = options;
+    if (resume) {
+      messages.push(...resume.messages);
+      completedSteps.splice(0, completedSteps.length, ...resume.completedSteps);
+      console.log(
+        `[Agent] Resuming after ${resume.decision.approved ? 'approval' : 'rejection'} by @${resume.decision.by}`
+      );
+    } else {
+      const initialMessage = buildContextMessage(context);
+      messages.push({ role: 'user', content: initialMessage });
+    }
 
-    // Step 4: Build initial user message from context
-    const initialMessage = buildContextMessage(context);
-    const messages: OpenAI.ChatCompletionMessageParam[] = [
-      { role: 'user', content: initialMessage },
-    ];
+    // Calls that need a human's approval first (never in dry runs: nothing happens anyway)
+    const approvalTools = options.dryRun
+      ? new Set<string>()
+      : getApprovalTools(selectedSkills, context.repository.fullName);
 
     // Step 5: Agent loop
+    const provider =
+      options.provider ?? getLLMProvider(context.repository.fullName, repoConfig.model);
+    transcript?.start({
+      context,
+      repoConfig,
+      provider: { name: provider.name, model: provider.model },
+      systemPrompt,
+      skills: selectedSkills.map((s) => s.name),
+      allowedTools: Array.from(allowedTools),
+      dryRun: options.dryRun,
+    });
+
+    const repoFullName = context.repository.fullName;
+    const runBudget = tightenBudget(getRunBudget(), repoConfig.budget ?? {});
+    const repoBudget = getRepoDailyBudget(repoFullName);
+    const usageTracker = options.usageTracker ?? defaultUsageTracker;
+    let budgetExceeded: string | undefined;
+
+    const contextLimit = getContextTokenLimit();
+    const contextMeter = new ContextMeter(systemPrompt + JSON.stringify(tools));
+
+    // Full copies of truncated and compacted results (including those saved before an
+    // approval pause), served by read_tool_result
+    const toolResults = new ToolResultStore(resume?.toolResults);
+    const toolResultMaxChars = getToolResultMaxChars();
+    const runTools: Record<string, ToolFunction> = {
+      ...toolRegistry,
+      [READ_TOOL_RESULT]: async (input) => readToolResult(toolResults, input, toolResultMaxChars),
+    };
+
     const MAX_ITERATIONS = 15;
-    let iteration = 0;
-    let lastToolCalls: ToolCall[] = [];
+    let iteration = resume?.iteration ?? 0;
+
+    // Tool calls of the current assistant turn still to execute
+    let pendingToolCalls: ToolCall[] = resume ? [...resume.pendingToolCalls] : [];
+    const decidedCallId = resume?.pendingToolCalls[0]?.id;
+    let awaitingApproval: ApprovalRequest | undefined;
+
+    const toolConcurrency = getToolConcurrency();
+    const decisionFor = (toolCall: ToolCall) =>
+      toolCall.id === decidedCallId ? resume?.decision : undefined;
+    const inputErrorsOf = (toolCall: ToolCall) =>
+      toolCall.parseError
+        ? [toolCall.parseError]
+        : validateToolInput(toolCall.name, toolCall.input, tools);
+
+    // A valid, allowed call to a gated tool waits for a human unless already decided
+    const mustPause = (toolCall: ToolCall) =>
+      Boolean(runTools[toolCall.name]) &&
+      allowedTools.has(toolCall.name) &&
+      inputErrorsOf(toolCall).length === 0 &&
+      !decisionFor(toolCall) &&
+      requiresApproval(toolCall, approvalTools);
+
+    const canRunConcurrently = (toolCall: ToolCall) =>
+      !isWriteTool(toolCall.name) && !mustPause(toolCall);
+
+    /**
+     * Runs one tool call, turning every refusal and failure into an error result
+     */
+    const executeToolCall = async (toolCall: ToolCall): Promise<ToolCallOutcome> => {
+      const toolFn = runTools[toolCall.name];
+      const decision = decisionFor(toolCall);
+      const inputErrors = inputErrorsOf(toolCall);
+      const toolStarted = Date.now();
+      let resultContent: string;
+      let isError = true;
+
+      if (!toolFn) {
+        resultContent = `Error: Unknown tool "${toolCall.name}"`;
+      } else if (!allowedTools.has(toolCall.name)) {
+        console.warn(`[Agent] Refused tool outside skill allowlist: ${toolCall.name}`);
+        resultContent = `Error: Tool "${toolCall.name}" is not allowed for the loaded skills`;
+      } else if (inputErrors.length > 0) {
+        // Hand the violations back so the model can fix the call instead of the tool
+        // running with missing or mistyped arguments
+        console.warn(`[Agent] Invalid arguments for ${toolCall.name}:`, inputErrors);
+        resultContent =
+          `Error: Invalid arguments for ${toolCall.name}: ${inputErrors.join('; ')}. ` +
+          'Fix the arguments and call the tool again.';
+      } else if (decision && !decision.approved) {
+        console.log(`[Agent] Tool ${toolCall.name} rejected by @${decision.by}`);
+        resultContent = `Error: Rejected by @${decision.by}${decision.reason ? `: ${decision.reason}` : ''}`;
+      } else {
+        // read_tool_result only reads this run's memory, so it never goes to executeTool
+        const execute = () =>
+          options.executeTool && toolCall.name !== READ_TOOL_RESULT
+            ? options.executeTool(toolCall)
+            : toolFn(toolCall.input);
+        try {
+          let toolResult: unknown;
+          if (plannedActions && isWriteTool(toolCall.name)) {
+            toolResult = simulateWriteTool(toolCall.name, toolCall.input);
+            plannedActions.push({
+              iteration,
+              tool: toolCall.name,
+              input: toolCall.input,
+              simulatedResult: toolResult,
+            });
+            console.log(`[Agent] Dry run: simulated ${toolCall.name}`);
+          } else if (options.stepLedger && isWriteTool(toolCall.name)) {
+            // Write tools go through the step ledger so retries don't repeat side effects
+            toolResult = await options.stepLedger.run(toolCall.name, toolCall.input, execute);
+          } else {
+            toolResult = await execute();
+          }
+          resultContent = JSON.stringify(toolResult, null, 2);
+          isError = false;
+        } catch (error) {
+          resultContent = `Error: ${(error as Error).message}`;
+        }
+      }
 
-    while (iteration < MAX_ITERATIONS) {
-      iteration++;
-      console.log(`[Agent] Iteration ${iteration}/${MAX_ITERATIONS}`);
+      return { resultContent, isError, durationMs: Date.now() - toolStarted };
+    };
 
-      // Call LLM via OpenRouter
-      const response = await callLLM(systemPrompt, messages, toolDefinitions);
+    while (pendingToolCalls.length > 0 || iteration < MAX_ITERATIONS) {
+      if (pendingToolCalls.length === 0) {
+        // Stop between iterations once the run or the repository is out of budget
+        budgetExceeded =
+          checkBudget(addSpend(options.previousUsage, usage), runBudget, 'Run') ??
+          checkBudget(await usageTracker.get(repoFullName), repoBudget, `${repoFullName} daily`);
+        if (budgetExceeded) {
+          console.warn(`[Agent] ${budgetExceeded}, stopping`);
+          completedSteps.push(`Budget exceeded: ${budgetExceeded}`);
+          break;
+        }
 
-      // Add assistant response to history
-      if (response.toolCalls.length > 0) {
-        // Assistant message with tool calls
-        messages.push({
-          role: 'assistant',
-          content: response.content || null,
-          tool_calls: response.toolCalls.map((tc) => ({
-            id: tc.id,
-            type: 'function' as const,
-            function: {
-              name: tc.name,
-              arguments: JSON.stringify(tc.input),
-            },
-          })),
+        iteration++;
+        console.log(`[Agent] Iteration ${iteration}/${MAX_ITERATIONS}`);
+
+        // Shrink old tool results before the conversation outgrows the context window
+        const contextTokens = contextMeter.estimate(messages);
+        if (contextTokens > contextLimit) {
+          transcript?.recordCompaction(messages);
+          const { compacted, tokensSaved } = compactMessages(
+            messages,
+            contextTokens,
+            contextLimit,
+            toolResults
+          );
+          if (compacted > 0) {
+            contextMeter.reset();
+            console.log(
+              `[Agent] Context at ~${contextTokens}/${contextLimit} tokens, ` +
+                `compacted ${compacted} tool results (~${tokensSaved} tokens saved)`
+            );
+            completedSteps.push(`Compacted ${compacted} tool results`);
+          } else {
+            console.warn(
+              `[Agent] Context at ~${contextTokens}/${contextLimit} tokens, nothing left to compact`
+            );
+          }
+        }
+
+        const llmStarted = Date.now();
+        const messageCount = messages.length;
+        const response = await callLLM(provider, systemPrompt, messages, tools);
+        if (response.usage) contextMeter.record(response.usage.promptTokens, messageCount);
+        const cost = response.usage ? calculateCost(provider.model, response.usage) : 0;
+        addUsage(usage, response.usage, cost);
+        if (response.usage) {
+          const { promptTokens, completionTokens } = response.usage;
+          await usageTracker.record(
+            context.deliveryId,
+            repoFullName,
+            promptTokens + completionTokens,
+            cost
+          );
+        }
+        transcript?.recordLLMCall({
+          iteration,
+          durationMs: Date.now() - llmStarted,
+          messageCount: messages.length,
+          toolNames: tools.map((t) => t.name),
+          response,
         });
-        lastToolCalls = response.toolCalls;
-      } else {
-        // Regular assistant message
+
+        // Add assistant response to history
         messages.push({
           role: 'assistant',
           content: response.content,
+          toolCalls: response.toolCalls.length > 0 ? response.toolCalls : undefined,
         });
-      }
 
-      // Check if we're done
-      if (response.finishReason === 'stop' && response.toolCalls.length === 0) {
-        console.log('[Agent] Task completed');
-        console.log('[Agent] Final response:', response.content);
-        completedSteps.push('Task completed');
-        break;
-      }
+        // Output was cut off mid-answer - ask the model to carry on
+        if (response.toolCalls.length === 0 && response.stopReason === 'max_tokens') {
+          console.log('[Agent] Output truncated by token limit, continuing');
+          messages.push({ role: 'user', content: 'Continue from where you left off.' });
+          continue;
+        }
 
-      // Execute tool calls if any
-      if (response.toolCalls.length > 0) {
-        for (const toolCall of response.toolCalls) {
-          console.log(`[Agent] Executing tool: ${toolCall.name}`);
-          completedSteps.push(`Executed tool: ${toolCall.name}`);
+        // Check if we're done
+        if (response.toolCalls.length === 0) {
+          console.log('[Agent] Task completed');
+          console.log('[Agent] Final response:', response.content);
+          completedSteps.push('Task completed');
+          finalAnswer = response.content;
+          break;
+        }
 
-          const toolFn = toolRegistry[toolCall.name];
-          let resultContent: string;
+        pendingToolCalls = [...response.toolCalls];
+      }
 
-          if (!toolFn) {
-            resultContent = `Error: Unknown tool "${toolCall.name}"`;
-          } else {
-            try {
-              const toolResult = await toolFn(toolCall.input);
-              resultContent = JSON.stringify(toolResult, null, 2);
-            } catch (error) {
-              resultContent = `Error: ${(error as Error).message}`;
-            }
+      // Execute tool calls
+      while (pendingToolCalls.length > 0) {
+        const toolCall = pendingToolCalls[0];
+
+        // Stop before a gated call; the state is saved and the run resumes once a human decides
+        if (mustPause(toolCall)) {
+          console.log(`[Agent] Pausing for approval of tool: ${toolCall.name}`);
+          completedSteps.push(`Awaiting approval: ${toolCall.name}`);
+          awaitingApproval = {
+            toolCall,
+            state: {
+              messages: [...messages],
+              iteration,
+              completedSteps: [...completedSteps],
+              pendingToolCalls: [...pendingToolCalls],
+              toolResults: toolResults.toRecord(),
+            },
+          };
+          break;
+        }
+
+        // Consecutive read-only calls run concurrently; write tools and gated calls run alone
+        let batchSize = 1;
+        if (canRunConcurrently(toolCall)) {
+          while (
+            batchSize < pendingToolCalls.length &&
+            canRunConcurrently(pendingToolCalls[batchSize])
+          ) {
+            batchSize++;
           }
+        }
+
+        const batch = pendingToolCalls.splice(0, batchSize);
+        for (const call of batch) {
+          console.log(`[Agent] Executing tool: ${call.name}`);
+          completedSteps.push(`Executed tool: ${call.name}`);
+        }
 
-          // Add tool result message (OpenAI format)
+        const outcomes = await runWithConcurrency(batch, toolConcurrency, executeToolCall);
+
+        // Results go back in the order the model asked for them
+        batch.forEach((call, index) => {
+          const { resultContent, isError, durationMs } = outcomes[index];
+          transcript?.recordToolCall({
+            iteration,
+            durationMs,
+            toolCallId: call.id,
+            name: call.name,
+            input: call.input,
+            result: resultContent,
+            isError,
+          });
+
+          // Add tool result message; large results and errors go in as a preview
+          // (pages are already sized to fit)
           messages.push({
             role: 'tool',
-            tool_call_id: toolCall.id,
-            content: resultContent,
+            toolCallId: call.id,
+            content:
+              call.name === READ_TOOL_RESULT
+                ? resultContent
+                : truncateToolResult(
+                    call.id,
+                    call.name,
+                    resultContent,
+                    toolResultMaxChars,
+                    toolResults
+                  ),
+            isError,
           });
-        }
+        });
       }
+
+      if (awaitingApproval) break;
+
+      await transcript?.checkpoint(messages, completedSteps);
+    }
+
+    console.log(
+      `[Agent] Usage: ${usage.totalTokens} tokens in ${usage.llmCalls} LLM calls ($${usage.costUsd.toFixed(4)})`
+    );
+
+    if (awaitingApproval) {
+      await transcript?.finish({
+        success: true,
+        awaitingApproval: true,
+        messages,
+        completedSteps,
+        plannedActions,
+        usage,
+      });
+
+      return {
+        success: true,
+        completedSteps,
+        plannedActions,
+        awaitingApproval,
+        usage,
+      };
     }
 
     if (iteration >= MAX_ITERATIONS) {
@@ -638,16 +760,39 @@ export async function runAgent(context: AgentContext): Promise<AgentResult> {
       completedSteps.push('Max iterations reached');
     }
 
+    await transcript?.finish({
+      success: true,
+      messages,
+      completedSteps,
+      finalAnswer,
+      plannedActions,
+      usage,
+    });
+
     return {
       success: true,
       completedSteps,
+      plannedActions,
+      usage,
+      budgetExceeded,
     };
   } catch (error) {
     console.error('[Agent] Error:', error);
+    await transcript?.finish({
+      success: false,
+      messages,
+      completedSteps,
+      error: (error as Error).message,
+      plannedActions,
+      usage,
+    });
     return {
       success: false,
       completedSteps,
       error: (error as Error).message,
+      cause: error,
+      plannedActions,
+      usage,
     };
   }
 }
@@ -665,7 +810,9 @@ function buildContextMessage(context: AgentContext): string {
   message += `**Triggered by:** ${context.sender.login}\n\n`;
 
   if (context.issue) {
-    message += `## Issue #${context.issue.number}\n`;
+    // Comments on PRs arrive with the PR described as an issue
+    const issueKind = context.comment?.onPullRequest ? 'Pull Request' : 'Issue';
+    message += `## ${issueKind} #${context.issue.number}\n`;
     message += `**Title:** ${context.issue.title}\n`;
     message += `**Labels:** ${context.issue.labels.join(', ') || 'none'}\n\n`;
     message += `### Description\n${context.issue.body || 'No description provided.'}\n`;
@@ -678,6 +825,39 @@ function buildContextMessage(context: AgentContext): string {
     message += `### Description\n${context.pullRequest.body || 'No description provided.'}\n`;
   }
 
+  if (context.push) {
+    const push = context.push;
+    message += `## Push to ${push.branch || push.ref}\n`;
+    message += `**Ref:** ${push.ref} (${push.before.slice(0, 7)} → ${push.after.slice(0, 7)})\n`;
+    if (push.forced) message += `**Forced:** yes\n`;
+    if (push.deleted) message += `**Deleted:** yes\n`;
+    message += `**Compare:** ${push.compareUrl}\n\n`;
+
+    message += `### Commits (${push.commits.length})\n`;
+    for (const commit of push.commits) {
+      message += `- ${commit.id.slice(0, 7)} ${commit.message.split('\n')[0]} (${commit.author})\n`;
+    }
+
+    const MAX_LISTED_FILES = 100;
+    message += `\n### Changed Files (${push.changedFiles.length})\n`;
+    for (const file of push.changedFiles.slice(0, MAX_LISTED_FILES)) {
+      message += `- ${file}\n`;
+    }
+    if (push.changedFiles.length > MAX_LISTED_FILES) {
+      message += `- ...and ${push.changedFiles.length - MAX_LISTED_FILES} more\n`;
+    }
+  }
+
+  if (context.comment) {
+    const target = context.comment.onPullRequest ? 'pull request' : 'issue';
+    message += `\n## New Comment on this ${target}\n`;
+    message += `**Author:** ${context.comment.author} (${context.comment.authorAssociation})\n`;
+    message += `**URL:** ${context.comment.url}\n\n`;
+    message += `### Comment\n${context.comment.body || 'Empty comment.'}\n`;
+    message += `\n---\n\nPlease respond to this comment, using the ${target} above as context and your loaded skills as guidance.`;
+    return message;
+  }
+
   message += `\n---\n\nPlease analyze this event and take appropriate action based on your loaded skills.`;
 
   return message;
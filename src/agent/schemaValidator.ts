@@ -0,0 +1,185 @@
+/**
+ * ===========================================
+ * Schema Validator
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Check a value against a JSON Schema
+ * - Describe every violation in words the LLM can act on
+ *
+ * INPUT:
+ * - A value (e.g. tool-call arguments) and its schema
+ *
+ * OUTPUT:
+ * - List of violations, empty when the value is valid
+ *
+ * ARCHITECTURE POSITION:
+ * Agent → [THIS: Schema Validator] → Tools (only valid calls get through)
+ *
+ * KEY CONCEPT:
+ * Supports the subset of JSON Schema the tool definitions use: type,
+ * properties, required, additionalProperties, enum, items and
+ * minimum / maximum / minLength. Unknown keywords are ignored, so a
+ * schema can carry descriptions and other annotations freely.
+ */
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * JSON type names
+ */
+export type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * The supported subset of JSON Schema
+ */
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+
+  /** false rejects properties not listed in `properties` */
+  additionalProperties?: boolean | JsonSchema;
+
+  enum?: unknown[];
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+}
+
+// ===========================================
+// Validation
+// ===========================================
+
+/**
+ * Validates a value against a schema
+ *
+ * @param value - Value to check
+ * @param schema - Schema to check against
+ * @param path - Location of the value, used as the message prefix
+ * @returns Violations such as "issueNumber: expected number, got string"
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = ''): string[] {
+  const at = path || '(root)';
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${at}: expected ${types.join(' or ')}, got ${describeType(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((allowed) => allowed === value)) {
+    const allowed = schema.enum.map((v) => JSON.stringify(v)).join(', ');
+    return [`${at}: must be one of ${allowed}, got ${JSON.stringify(value)}`];
+  }
+
+  const problems: string[] = [];
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      problems.push(`${at}: must be >= ${schema.minimum}, got ${value}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      problems.push(`${at}: must be <= ${schema.maximum}, got ${value}`);
+    }
+  }
+
+  const { minLength } = schema;
+  if (typeof value === 'string' && minLength !== undefined && value.length < minLength) {
+    problems.push(`${at}: must be at least ${minLength} characters long`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      problems.push(...validateSchema(item, schema.items!, `${path}[${index}]`));
+    });
+  }
+
+  if (isPlainObject(value)) {
+    problems.push(...validateObject(value, schema, path));
+  }
+
+  return problems;
+}
+
+/**
+ * Validates required, declared and additional properties of an object
+ */
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  path: string
+): string[] {
+  const problems: string[] = [];
+  const properties = schema.properties ?? {};
+  const prefix = path ? `${path}.` : '';
+
+  for (const name of schema.required ?? []) {
+    if (value[name] === undefined) {
+      problems.push(`${prefix}${name}: required property is missing`);
+    }
+  }
+
+  for (const [name, propertyValue] of Object.entries(value)) {
+    if (propertyValue === undefined) continue;
+
+    const propertySchema = properties[name];
+    if (propertySchema) {
+      problems.push(...validateSchema(propertyValue, propertySchema, `${prefix}${name}`));
+    } else if (schema.additionalProperties === false) {
+      problems.push(`${prefix}${name}: unknown property`);
+    } else if (typeof schema.additionalProperties === 'object') {
+      problems.push(
+        ...validateSchema(propertyValue, schema.additionalProperties, `${prefix}${name}`)
+      );
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Checks a value against one JSON type
+ */
+function matchesType(value: unknown, type: JsonType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Names the JSON type of a value for messages
+ */
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Checks for a non-array, non-null object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
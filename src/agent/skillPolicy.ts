@@ -29,7 +29,11 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
 import { AgentContext } from './runAgent';
+import { listPullRequestFiles } from '../tools/github';
+import { getReadOnlyToolNames, isKnownTool } from './toolRegistry';
+import { getRepoApprovalTools } from './approval';
 
 // ===========================================
 // Types
@@ -37,15 +41,17 @@ import { AgentContext } from './runAgent';
 
 /**
  * Metadata for an Agent Skill
+ *
+ * Declared in YAML front-matter at the top of each skill's SKILL.md.
  */
 export interface Skill {
-  /** Unique identifier for the skill */
+  /** Unique identifier for the skill (must match its directory name) */
   name: string;
 
   /** Human-readable description */
   description: string;
 
-  /** Path to skill directory (relative to skills/) */
+  /** Absolute path to the skill directory */
   path: string;
 
   /** Conditions for when this skill should be loaded */
@@ -53,14 +59,28 @@ export interface Skill {
 
   /** Priority for selection (higher = selected first when multiple match) */
   priority: number;
+
+  /**
+   * Tools this skill may use. Skills that do not declare any get the
+   * read-only tools only.
+   */
+  tools: string[];
+
+  /** Tools whose calls wait for a human's approval (see approval.ts) */
+  requiresApproval: string[];
 }
 
+/**
+ * Supported trigger types
+ */
+const TRIGGER_TYPES = ['event_type', 'label', 'keyword', 'path_pattern', 'branch'] as const;
+
 /**
  * Condition that triggers skill loading
  */
 interface SkillTrigger {
   /** Type of trigger condition */
-  type: 'event_type' | 'label' | 'keyword' | 'path_pattern';
+  type: (typeof TRIGGER_TYPES)[number];
 
   /** Value to match against */
   value: string | string[];
@@ -70,50 +90,234 @@ interface SkillTrigger {
 // Skill Registry
 // ===========================================
 
+/**
+ * Default directory scanned for skills, one subdirectory per skill
+ *
+ * src/skills under ts-node and jest, dist/skills in a build (`npm run
+ * build` copies it). Override with SKILLS_DIR.
+ */
+const DEFAULT_SKILLS_DIR = path.join(__dirname, '..', 'skills');
+
 /**
  * Registry of all available Skills
  *
- * Each skill defines:
- * - name: unique identifier
- * - description: what the skill does
- * - path: directory containing SKILL.md and examples.md
- * - triggers: conditions that activate this skill
- * - priority: selection order when multiple skills match
+ * Built by scanning the skills directory (see initSkillRegistry).
+ * Each skill directory contains:
+ * - SKILL.md: front-matter (name, description, triggers, priority, tools,
+ *   requires_approval) + instructions
+ * - examples.md: few-shot examples (optional)
  *
- * TODO: Consider loading this from a config file or database
+ * Example front-matter:
+ * ```yaml
+ * ---
+ * name: bugfix-skill
+ * description: Handles bug fix workflows
+ * priority: 10
+ * triggers:
+ *   - type: label
+ *     value: [bug, fix]
+ * tools: [github_getIssue, github_createComment]
+ * requires_approval: [github_createPullRequest]
+ * ---
+ * ```
  */
-const skillRegistry: Skill[] = [
-  {
-    name: 'bugfix-skill',
-    description: 'Handles bug fix workflows: analyze, fix, and PR',
-    path: 'bugfix-skill',
-    triggers: [
-      { type: 'label', value: ['bug', 'bugfix', 'fix'] },
-      { type: 'keyword', value: ['bug', 'error', 'crash', 'broken', 'fix'] },
-    ],
-    priority: 10,
-  },
-  {
-    name: 'code-review-skill',
-    description: 'Reviews code changes and provides feedback',
-    path: 'code-review-skill',
-    triggers: [
-      { type: 'event_type', value: 'pull_request' },
-      { type: 'label', value: ['review', 'needs-review'] },
-    ],
-    priority: 8,
-  },
-  {
-    name: 'security-skill',
-    description: 'Analyzes code for security vulnerabilities',
-    path: 'security-skill',
-    triggers: [
-      { type: 'label', value: ['security', 'vulnerability', 'cve'] },
-      { type: 'keyword', value: ['security', 'vulnerability', 'exploit', 'cve'] },
-    ],
-    priority: 15, // High priority - security issues should be flagged first
-  },
-];
+let skillRegistry: Skill[] | null = null;
+
+/**
+ * Builds the skill registry by scanning a skills directory
+ *
+ * Invalid or missing front-matter throws, listing every problem found in
+ * every SKILL.md, so a broken skill fails the boot instead of being
+ * skipped. Skills that are declared but not written yet (a directory
+ * without a SKILL.md, or a SKILL.md with front-matter only) are reported
+ * together and left out of the registry.
+ *
+ * @param skillsDir - Directory to scan (defaults to SKILLS_DIR or the bundled skills)
+ * @returns Registered skills
+ * @throws Error if the directory is missing or any SKILL.md has invalid front-matter
+ */
+export function initSkillRegistry(
+  skillsDir: string = process.env.SKILLS_DIR || DEFAULT_SKILLS_DIR
+): Skill[] {
+  console.log(`[SkillPolicy] Scanning skills directory: ${skillsDir}`);
+
+  if (!fs.existsSync(skillsDir)) {
+    throw new Error(
+      `Skills directory not found: ${skillsDir} ` +
+        '(run "npm run build" to copy src/skills, or set SKILLS_DIR)'
+    );
+  }
+
+  const skills: Skill[] = [];
+  const errors: string[] = [];
+  const skipped: string[] = [];
+
+  const entries = fs
+    .readdirSync(skillsDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    const skillDir = path.join(skillsDir, entry.name);
+    const skillMdPath = path.join(skillDir, 'SKILL.md');
+
+    if (!fs.existsSync(skillMdPath)) {
+      skipped.push(`${entry.name}: no SKILL.md`);
+      continue;
+    }
+
+    let frontMatter: { metadata: unknown; body: string };
+    try {
+      frontMatter = parseSkillFrontMatter(fs.readFileSync(skillMdPath, 'utf8'));
+    } catch (error) {
+      // The parser's message continues with a code frame; the first line is enough
+      const reason = (error as Error).message.split('\n')[0];
+      errors.push(`${entry.name}/SKILL.md: front-matter is not valid YAML: ${reason}`);
+      continue;
+    }
+
+    const problems = validateSkillMetadata(frontMatter.metadata, entry.name);
+    if (problems.length > 0) {
+      errors.push(...problems.map((p) => `${entry.name}/SKILL.md: ${p}`));
+      continue;
+    }
+
+    if (frontMatter.body.trim().length === 0) {
+      skipped.push(`${entry.name}: SKILL.md has no instructions after the front-matter`);
+      continue;
+    }
+
+    const data = frontMatter.metadata as Record<string, unknown>;
+    skills.push({
+      name: data.name as string,
+      description: data.description as string,
+      path: skillDir,
+      triggers: data.triggers as SkillTrigger[],
+      priority: data.priority as number,
+      tools: (data.tools as string[] | undefined) ?? getReadOnlyToolNames(),
+      requiresApproval: (data.requires_approval as string[] | undefined) ?? [],
+    });
+  }
+
+  if (skipped.length > 0) {
+    console.error(`[SkillPolicy] Skills not registered:\n  - ${skipped.join('\n  - ')}`);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid skill front-matter:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  console.log(
+    `[SkillPolicy] Registered ${skills.length} skills:`,
+    skills.map((s) => s.name)
+  );
+  skillRegistry = skills;
+  return skills;
+}
+
+/**
+ * Gets the skill registry, scanning the skills directory on first use
+ *
+ * @returns Registered skills
+ */
+function getSkillRegistry(): Skill[] {
+  return skillRegistry ?? initSkillRegistry();
+}
+
+/**
+ * Splits SKILL.md into YAML front-matter and Markdown body
+ *
+ * @param markdown - SKILL.md content
+ * @returns Parsed front-matter (undefined if absent) and the remaining body
+ * @throws Error if the front-matter is not valid YAML
+ */
+export function parseSkillFrontMatter(markdown: string): {
+  metadata: unknown;
+  body: string;
+} {
+  const match = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) {
+    return { metadata: undefined, body: markdown };
+  }
+
+  return {
+    metadata: parseYaml(match[1]),
+    body: markdown.slice(match[0].length),
+  };
+}
+
+/**
+ * Validates skill front-matter
+ *
+ * @param metadata - Parsed front-matter
+ * @param dirName - Name of the skill directory
+ * @returns List of problems (empty if valid)
+ */
+function validateSkillMetadata(metadata: unknown, dirName: string): string[] {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    return ['missing YAML front-matter block'];
+  }
+
+  const data = metadata as Record<string, unknown>;
+  const problems: string[] = [];
+
+  if (typeof data.name !== 'string' || data.name.length === 0) {
+    problems.push('"name" must be a non-empty string');
+  } else if (data.name !== dirName) {
+    problems.push(`"name" (${data.name}) must match the directory name (${dirName})`);
+  }
+
+  if (typeof data.description !== 'string' || data.description.length === 0) {
+    problems.push('"description" must be a non-empty string');
+  }
+
+  if (typeof data.priority !== 'number' || !Number.isFinite(data.priority)) {
+    problems.push('"priority" must be a number');
+  }
+
+  if (!Array.isArray(data.triggers) || data.triggers.length === 0) {
+    problems.push('"triggers" must be a non-empty list');
+  } else {
+    data.triggers.forEach((trigger: unknown, i: number) => {
+      const t = trigger as Record<string, unknown> | null;
+      if (!t || !TRIGGER_TYPES.includes(t.type as SkillTrigger['type'])) {
+        problems.push(`triggers[${i}].type must be one of: ${TRIGGER_TYPES.join(', ')}`);
+      }
+      const value = t?.value;
+      const validValue =
+        (typeof value === 'string' && value.length > 0) ||
+        (Array.isArray(value) && value.length > 0 && value.every((v) => typeof v === 'string'));
+      if (!validValue) {
+        problems.push(`triggers[${i}].value must be a string or a list of strings`);
+      }
+    });
+  }
+
+  if (data.tools !== undefined) {
+    if (!Array.isArray(data.tools) || !data.tools.every((t) => typeof t === 'string')) {
+      problems.push('"tools" must be a list of tool names');
+    } else {
+      const unknown = data.tools.filter((t: string) => !isKnownTool(t));
+      if (unknown.length > 0) {
+        problems.push(`"tools" lists unknown tools: ${unknown.join(', ')}`);
+      }
+    }
+  }
+
+  if (data.requires_approval !== undefined) {
+    const gated = data.requires_approval;
+    if (!Array.isArray(gated) || !gated.every((t) => typeof t === 'string')) {
+      problems.push('"requires_approval" must be a list of tool names');
+    } else {
+      const unknown = gated.filter((t: string) => !isKnownTool(t));
+      if (unknown.length > 0) {
+        problems.push(`"requires_approval" lists unknown tools: ${unknown.join(', ')}`);
+      }
+    }
+  }
+
+  return problems;
+}
 
 // ===========================================
 // Skill Selection Logic
@@ -130,14 +334,21 @@ const skillRegistry: Skill[] = [
  *
  * @param context - Agent context from trigger
  * @param maxSkills - Maximum number of skills to return (default: 3)
+ * @param enabledSkills - Names of the skills that may be selected (all when unset)
  * @returns Array of matching Skills, sorted by priority
  */
-export function selectSkills(context: AgentContext, maxSkills = 3): Skill[] {
+export function selectSkills(
+  context: AgentContext,
+  maxSkills = 3,
+  enabledSkills?: string[]
+): Skill[] {
   console.log('[SkillPolicy] Evaluating skills for context');
 
   const matchingSkills: Array<{ skill: Skill; score: number }> = [];
 
-  for (const skill of skillRegistry) {
+  for (const skill of getSkillRegistry()) {
+    if (enabledSkills && !enabledSkills.includes(skill.name)) continue;
+
     const score = evaluateSkillMatch(skill, context);
     if (score > 0) {
       matchingSkills.push({ skill, score: score * skill.priority });
@@ -204,6 +415,8 @@ function evaluateTrigger(trigger: SkillTrigger, context: AgentContext): number {
         context.issue?.body || '',
         context.pullRequest?.title || '',
         context.pullRequest?.body || '',
+        context.comment?.body || '',
+        ...(context.push?.commits.map((c) => c.message) || []),
       ]
         .join(' ')
         .toLowerCase();
@@ -214,9 +427,20 @@ function evaluateTrigger(trigger: SkillTrigger, context: AgentContext): number {
       return matchCount * 0.5; // Keywords are weaker signals
     }
 
+    case 'branch': {
+      // Pushed branch, or the target branch of a pull request
+      const values = Array.isArray(trigger.value) ? trigger.value : [trigger.value];
+      const branch = context.push?.branch ?? context.pullRequest?.baseBranch;
+      return branch && values.includes(branch) ? 2 : 0;
+    }
+
     case 'path_pattern': {
-      // TODO: Implement path pattern matching for file-based triggers
-      return 0;
+      const values = Array.isArray(trigger.value) ? trigger.value : [trigger.value];
+      const files = context.changedFiles ?? context.push?.changedFiles ?? [];
+      const matched = files.some((file) =>
+        values.some((pattern) => matchPathPattern(file, pattern))
+      );
+      return matched ? 2 : 0;
     }
 
     default:
@@ -224,6 +448,163 @@ function evaluateTrigger(trigger: SkillTrigger, context: AgentContext): number {
   }
 }
 
+// ===========================================
+// Tool Allowlist
+// ===========================================
+
+/**
+ * Resolves the tools a run may use from its selected skills
+ *
+ * The allowlist is the union of the skills' declared tools. With no skill
+ * selected, only read-only tools are allowed.
+ *
+ * @param skills - Selected skills
+ * @returns Names of allowed tools
+ */
+export function getAllowedTools(skills: Skill[]): Set<string> {
+  if (skills.length === 0) {
+    return new Set(getReadOnlyToolNames());
+  }
+
+  return new Set(skills.flatMap((skill) => skill.tools));
+}
+
+/**
+ * Resolves the tools whose calls need approval in a run
+ *
+ * Union of the repository's configuration (APPROVAL_REQUIRED_TOOLS) and
+ * the selected skills' `requires_approval` lists.
+ *
+ * @param skills - Selected skills
+ * @param repoFullName - "owner/repo"
+ * @returns Names of gated tools
+ */
+export function getApprovalTools(skills: Skill[], repoFullName: string): Set<string> {
+  return new Set([
+    ...getRepoApprovalTools(repoFullName),
+    ...skills.flatMap((skill) => skill.requiresApproval),
+  ]);
+}
+
+// ===========================================
+// Changed Files (path_pattern support)
+// ===========================================
+
+/**
+ * Resolves the files touched by the triggering PR or push
+ *
+ * The result is cached on context.changedFiles so the GitHub API is hit
+ * at most once per run. Nothing is fetched when no registered skill uses
+ * a path_pattern trigger.
+ *
+ * @param context - Agent context (mutated: changedFiles is set)
+ * @returns Changed file paths (empty if unknown)
+ */
+export async function resolveChangedFiles(context: AgentContext): Promise<string[]> {
+  if (context.changedFiles) {
+    return context.changedFiles;
+  }
+
+  if (context.push) {
+    context.changedFiles = context.push.changedFiles;
+    return context.changedFiles;
+  }
+
+  const usesPathPatterns = getSkillRegistry().some((skill) =>
+    skill.triggers.some((t) => t.type === 'path_pattern')
+  );
+  const pullNumber =
+    context.pullRequest?.number ??
+    (context.comment?.onPullRequest ? context.issue?.number : undefined);
+
+  if (!usesPathPatterns || pullNumber === undefined) {
+    context.changedFiles = [];
+    return context.changedFiles;
+  }
+
+  try {
+    const files = await listPullRequestFiles({
+      owner: context.repository.owner,
+      repo: context.repository.name,
+      pullNumber,
+    });
+    context.changedFiles = files.map((f) => f.filename);
+  } catch (error) {
+    console.warn('[SkillPolicy] Could not list PR files, path_pattern triggers disabled:', error);
+    context.changedFiles = [];
+  }
+
+  return context.changedFiles;
+}
+
+/**
+ * Matches a repository path against a glob pattern
+ *
+ * Supported syntax:
+ * - `*` matches within a single path segment
+ * - `**` matches across segments, including zero segments before a `/`
+ * - `?` matches a single character other than `/`
+ * - `{a,b}` matches either alternative
+ *
+ * Patterns without a `/` match the file name at any depth,
+ * so `*.sql` matches both `init.sql` and `db/migrations/001.sql`.
+ *
+ * @param filePath - Path relative to the repository root
+ * @param pattern - Glob pattern
+ * @returns true if the path matches
+ */
+export function matchPathPattern(filePath: string, pattern: string): boolean {
+  const normalized = pattern.startsWith('/') ? pattern.slice(1) : pattern;
+  const target = normalized.includes('/')
+    ? filePath
+    : filePath.slice(filePath.lastIndexOf('/') + 1);
+
+  return globToRegExp(normalized).test(target);
+}
+
+/**
+ * Compiles a glob pattern into an anchored regular expression
+ *
+ * @param pattern - Glob pattern
+ * @returns Equivalent RegExp
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      inGroup = true;
+      source += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      source += ')';
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
 // ===========================================
 // Skill Content Loading
 // ===========================================
@@ -237,6 +618,7 @@ function evaluateTrigger(trigger: SkillTrigger, context: AgentContext): number {
  *
  * @param skill - Skill to load
  * @returns Concatenated skill content as string
+ * @throws Error if SKILL.md cannot be read
  *
  * TODO: Add caching for loaded skills
  * TODO: Support loading from remote sources (git, S3)
@@ -244,21 +626,17 @@ function evaluateTrigger(trigger: SkillTrigger, context: AgentContext): number {
 export async function loadSkillContent(skill: Skill): Promise<string> {
   console.log(`[SkillPolicy] Loading skill content: ${skill.name}`);
 
-  const skillDir = path.join(__dirname, '..', 'skills', skill.path);
-  const skillMdPath = path.join(skillDir, 'SKILL.md');
-  const examplesPath = path.join(skillDir, 'examples.md');
+  const skillMdPath = path.join(skill.path, 'SKILL.md');
+  const examplesPath = path.join(skill.path, 'examples.md');
 
   let content = `# Skill: ${skill.name}\n\n`;
   content += `> ${skill.description}\n\n`;
 
-  // Load main SKILL.md
-  try {
-    const skillMd = await readFileAsync(skillMdPath);
-    content += skillMd;
-  } catch (error) {
-    console.warn(`[SkillPolicy] Could not load SKILL.md for ${skill.name}:`, error);
-    content += `*SKILL.md not found*\n`;
-  }
+  // Load main SKILL.md (front-matter is registry metadata, not instructions).
+  // The registry only holds skills whose SKILL.md existed at boot, so a
+  // read failure here is a real error rather than a missing skill.
+  const skillMd = await readFileAsync(skillMdPath);
+  content += parseSkillFrontMatter(skillMd).body;
 
   // Load examples.md (optional)
   try {
@@ -297,7 +675,7 @@ export function listAvailableSkills(): Array<{
   description: string;
   priority: number;
 }> {
-  return skillRegistry.map((s) => ({
+  return getSkillRegistry().map((s) => ({
     name: s.name,
     description: s.description,
     priority: s.priority,
@@ -311,5 +689,5 @@ export function listAvailableSkills(): Array<{
  * @returns Skill if found, undefined otherwise
  */
 export function getSkillByName(name: string): Skill | undefined {
-  return skillRegistry.find((s) => s.name === name);
+  return getSkillRegistry().find((s) => s.name === name);
 }
@@ -0,0 +1,412 @@
+/**
+ * ===========================================
+ * Tool Registry
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Map tool names to their implementations
+ * - Describe tools (name, description, input schema) for the LLM
+ * - Classify tools as read-only or side-effecting
+ * - Validate tool-call arguments against the input schema
+ *
+ * ARCHITECTURE POSITION:
+ * Agent → Skills → [THIS: Tool Registry] → Tools
+ *
+ * KEY CONCEPT:
+ * The registry lists every tool the server can execute. Which of them a
+ * given run may use is decided by the selected Skills (see skillPolicy).
+ */
+
+import * as githubTool from '../tools/github';
+import * as fsTool from '../tools/fs';
+import * as httpTool from '../tools/http';
+import { JsonSchema, validateSchema } from './schemaValidator';
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Generic tool function type
+ * Using 'any' here to allow flexible tool signatures while maintaining
+ * runtime type safety through the tool definitions schema validation
+ * (see validateToolInput).
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type ToolFunction = (input: any) => Promise<unknown>;
+
+/**
+ * Tool description in Anthropic input_schema format
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  input_schema: {
+    type: 'object';
+    properties: Record<string, JsonSchema>;
+    required?: string[];
+  };
+}
+
+// ===========================================
+// Tool Registry
+// ===========================================
+
+/**
+ * Maps tool names to their implementations
+ *
+ * Tools are pure execution interfaces - they contain
+ * no decision logic, no business judgment.
+ */
+export const toolRegistry: Record<string, ToolFunction> = {
+  // GitHub Tools - Read Operations
+  'github_getIssue': githubTool.getIssue,
+  'github_getFileContent': githubTool.getFileContent,
+  'github_listFiles': githubTool.listFiles,
+  'github_getBranch': githubTool.getBranch,
+  'github_getFileSha': githubTool.getFileSha,
+
+  // GitHub Tools - Write Operations (Phase 3)
+  'github_createComment': githubTool.createComment,
+  'github_createBranch': githubTool.createBranch,
+  'github_createOrUpdateFile': githubTool.createOrUpdateFile,
+  'github_createPullRequest': githubTool.createPullRequest,
+
+  // GitHub Tools - PR Review Operations (Code Review Skill)
+  'github_getPullRequest': githubTool.getPullRequest,
+  'github_listPullRequestFiles': githubTool.listPullRequestFiles,
+  'github_getPullRequestDiff': githubTool.getPullRequestDiff,
+  'github_createPullRequestReview': githubTool.createPullRequestReview,
+
+  // File System Tools
+  'fs_readFile': fsTool.readFile,
+  'fs_writeFile': fsTool.writeFile,
+  'fs_listDirectory': fsTool.listDirectory,
+
+  // HTTP Tools
+  'http_get': httpTool.get,
+  'http_post': httpTool.post,
+};
+
+/**
+ * Tool definitions for Claude API
+ * These describe what tools are available and their parameters
+ */
+export const toolDefinitions: ToolDefinition[] = [
+  {
+    name: 'github_getIssue',
+    description: 'Get details of a GitHub issue',
+    input_schema: {
+      type: 'object',
+      properties: {
+        owner: { type: 'string', description: 'Repository owner' },
+        repo: { type: 'string', description: 'Repository name' },
+        issueNumber: { type: 'number', description: 'Issue number' },
+      },
+      required: ['owner', 'repo', 'issueNumber'],
+    },
+  },
+  {
+    name: 'github_createComment',
+    description: 'Create a comment on an issue or PR',
+    input_schema: {
+      type: 'object',
+      properties: {
+        owner: { type: 'string' },
+        repo: { type: 'string' },
+        issueNumber: { type: 'number' },
+        body: { type: 'string', description: 'Comment content' },
+      },
+      required: ['owner', 'repo', 'issueNumber', 'body'],
+    },
+  },
+  {
+    name: 'github_createPullRequest',
+    description: 'Create a new pull request',
+    input_schema: {
+      type: 'object',
+      properties: {
+        owner: { type: 'string' },
+        repo: { type: 'string' },
+        title: { type: 'string' },
+        body: { type: 'string' },
+        head: { type: 'string', description: 'Branch with changes' },
+        base: { type: 'string', description: 'Target branch' },
+      },
+      required: ['owner', 'repo', 'title', 'head', 'base'],
+    },
+  },
+  {
+    name: 'github_getFileContent',
+    description: 'Get content of a file from repository',
+    input_schema: {
+      type: 'object',
+      properties: {
+        owner: { type: 'string' },
+        repo: { type: 'string' },
+        path: { type: 'string', description: 'File path in repo' },
+        ref: { type: 'string', description: 'Branch or commit SHA' },
+      },
+      required: ['owner', 'repo', 'path'],
+    },
+  },
+  {
+    name: 'github_listFiles',
+    description: 'List files in a directory',
+    input_schema: {
+      type: 'object',
+      properties: {
+        owner: { type: 'string' },
+        repo: { type: 'string' },
+        path: { type: 'string' },
+      },
+      required: ['owner', 'repo'],
+    },
+  },
+  {
+    name: 'github_getBranch',
+    description: 'Get information about a branch including its SHA',
+    input_schema: {
+      type: 'object',
+      properties: {
+        owner: { type: 'string', description: 'Repository owner' },
+        repo: { type: 'string', description: 'Repository name' },
+        branch: { type: 'string', description: 'Branch name' },
+      },
+      required: ['owner', 'repo', 'branch'],
+    },
+  },
+  {
+    name: 'github_getFileSha',
+    description: 'Get the SHA of a file (needed for updating existing files)',
+    input_schema: {
+      type: 'object',
+      properties: {
+        owner: { type: 'string', description: 'Repository owner' },
+        repo: { type: 'string', description: 'Repository name' },
+        path: { type: 'string', description: 'File path' },
+        branch: { type: 'string', description: 'Branch name (optional)' },
+      },
+      required: ['owner', 'repo', 'path'],
+    },
+  },
+  {
+    name: 'github_createBranch',
+    description: 'Create a new branch from an existing branch',
+    input_schema: {
+      type: 'object',
+      properties: {
+        owner: { type: 'string', description: 'Repository owner' },
+        repo: { type: 'string', description: 'Repository name' },
+        branch: { type: 'string', description: 'New branch name' },
+        fromBranch: { type: 'string', description: 'Source branch (defaults to main)' },
+      },
+      required: ['owner', 'repo', 'branch'],
+    },
+  },
+  {
+    name: 'github_createOrUpdateFile',
+    description: 'Create or update a file in the repository (commits the change)',
+    input_schema: {
+      type: 'object',
+      properties: {
+        owner: { type: 'string', description: 'Repository owner' },
+        repo: { type: 'string', description: 'Repository name' },
+        path: { type: 'string', description: 'File path in repository' },
+        content: { type: 'string', description: 'File content' },
+        message: { type: 'string', description: 'Commit message' },
+        branch: { type: 'string', description: 'Target branch' },
+        sha: { type: 'string', description: 'File SHA (required for updates, omit for new files)' },
+      },
+      required: ['owner', 'repo', 'path', 'content', 'message', 'branch'],
+    },
+  },
+  {
+    name: 'fs_readFile',
+    description: 'Read a local file',
+    input_schema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'File path' },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'fs_writeFile',
+    description: 'Write content to a local file',
+    input_schema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string' },
+        content: { type: 'string' },
+      },
+      required: ['path', 'content'],
+    },
+  },
+  {
+    name: 'fs_listDirectory',
+    description: 'List files in a local directory',
+    input_schema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string' },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'http_get',
+    description: 'Make an HTTP GET request',
+    input_schema: {
+      type: 'object',
+      properties: {
+        url: { type: 'string' },
+        headers: { type: 'object' },
+      },
+      required: ['url'],
+    },
+  },
+  {
+    name: 'http_post',
+    description: 'Make an HTTP POST request',
+    input_schema: {
+      type: 'object',
+      properties: {
+        url: { type: 'string' },
+        body: { type: 'object' },
+        headers: { type: 'object' },
+      },
+      required: ['url'],
+    },
+  },
+  // PR Review Tools (Code Review Skill)
+  {
+    name: 'github_getPullRequest',
+    description: 'Get details of a pull request',
+    input_schema: {
+      type: 'object',
+      properties: {
+        owner: { type: 'string', description: 'Repository owner' },
+        repo: { type: 'string', description: 'Repository name' },
+        pullNumber: { type: 'number', description: 'Pull request number' },
+      },
+      required: ['owner', 'repo', 'pullNumber'],
+    },
+  },
+  {
+    name: 'github_listPullRequestFiles',
+    description: 'List files changed in a pull request with diff patches',
+    input_schema: {
+      type: 'object',
+      properties: {
+        owner: { type: 'string', description: 'Repository owner' },
+        repo: { type: 'string', description: 'Repository name' },
+        pullNumber: { type: 'number', description: 'Pull request number' },
+      },
+      required: ['owner', 'repo', 'pullNumber'],
+    },
+  },
+  {
+    name: 'github_getPullRequestDiff',
+    description: 'Get the full diff of a pull request as plain text',
+    input_schema: {
+      type: 'object',
+      properties: {
+        owner: { type: 'string', description: 'Repository owner' },
+        repo: { type: 'string', description: 'Repository name' },
+        pullNumber: { type: 'number', description: 'Pull request number' },
+      },
+      required: ['owner', 'repo', 'pullNumber'],
+    },
+  },
+  {
+    name: 'github_createPullRequestReview',
+    description: 'Create a review on a pull request (approve, request changes, or comment)',
+    input_schema: {
+      type: 'object',
+      properties: {
+        owner: { type: 'string', description: 'Repository owner' },
+        repo: { type: 'string', description: 'Repository name' },
+        pullNumber: { type: 'number', description: 'Pull request number' },
+        body: { type: 'string', description: 'Review comment body (Markdown supported)' },
+        event: {
+          type: 'string',
+          enum: ['APPROVE', 'REQUEST_CHANGES', 'COMMENT'],
+          description: 'Review action: APPROVE, REQUEST_CHANGES, or COMMENT',
+        },
+      },
+      required: ['owner', 'repo', 'pullNumber', 'body', 'event'],
+    },
+  },
+];
+
+// ===========================================
+// Tool Classification
+// ===========================================
+
+/**
+ * Tools with side effects outside the agent (GitHub writes, local files,
+ * outbound POSTs). Every other registered tool is read-only.
+ */
+const writeTools = new Set<string>([
+  'github_createComment',
+  'github_createBranch',
+  'github_createOrUpdateFile',
+  'github_createPullRequest',
+  'github_createPullRequestReview',
+  'fs_writeFile',
+  'http_post',
+]);
+
+/**
+ * Checks whether a tool has side effects
+ *
+ * @param name - Tool name
+ * @returns true for write tools
+ */
+export function isWriteTool(name: string): boolean {
+  return writeTools.has(name);
+}
+
+/**
+ * Lists all registered read-only tools
+ *
+ * @returns Tool names without side effects
+ */
+export function getReadOnlyToolNames(): string[] {
+  return Object.keys(toolRegistry).filter((name) => !isWriteTool(name));
+}
+
+/**
+ * Checks whether a tool name is registered
+ *
+ * @param name - Tool name
+ * @returns true if the tool exists
+ */
+export function isKnownTool(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(toolRegistry, name);
+}
+
+// ===========================================
+// Input Validation
+// ===========================================
+
+/**
+ * Validates tool-call arguments against the tool's input_schema
+ *
+ * @param name - Tool name
+ * @param input - Arguments from the model
+ * @param definitions - Tools to look the name up in (defaults to the registry's)
+ * @returns Violations (empty when valid or when the tool is unknown)
+ */
+export function validateToolInput(
+  name: string,
+  input: unknown,
+  definitions: ToolDefinition[] = toolDefinitions
+): string[] {
+  const definition = definitions.find((d) => d.name === name);
+  if (!definition) return [];
+
+  return validateSchema(input, definition.input_schema);
+}
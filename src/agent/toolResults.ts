@@ -0,0 +1,249 @@
+/**
+ * ===========================================
+ * Tool Result Paging
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Keep the full text of large tool results for the rest of the run
+ * - Cut results (and errors) above TOOL_RESULT_MAX_CHARS down to a
+ *   head/tail preview
+ * - Serve the read_tool_result tool, which pages through stored results
+ *
+ * INPUT:
+ * - TOOL_RESULT_MAX_CHARS: largest result put into the conversation as is
+ *   (default 20000 characters)
+ *
+ * OUTPUT:
+ * - Conversation-sized tool results with a "ref" handle to the full text
+ *
+ * ARCHITECTURE POSITION:
+ * Agent → Tools → [THIS: Tool Result Paging] → Conversation
+ *
+ * KEY CONCEPT:
+ * A PR diff or a large file would otherwise enter the conversation as one
+ * blob. The preview keeps the beginning and the end, which is usually
+ * enough to decide what to look at; read_tool_result reads any part of
+ * the rest by character offset. Refs are tool call IDs. A run paused for
+ * approval saves its stored results with the paused state, so the refs
+ * still work in the resumed run and in retries of it.
+ */
+
+import { ToolDefinition } from './toolRegistry';
+
+// ===========================================
+// Configuration
+// ===========================================
+
+/**
+ * Default size limit for a tool result in the conversation
+ */
+const DEFAULT_TOOL_RESULT_MAX_CHARS = 20000;
+
+/**
+ * Share of the limit shown from the start of a truncated result; the rest
+ * of the preview comes from its end
+ */
+const HEAD_RATIO = 0.75;
+
+/**
+ * Reads the tool result size limit
+ *
+ * @returns TOOL_RESULT_MAX_CHARS, or 20000 when unset
+ * @throws Error if TOOL_RESULT_MAX_CHARS is not a positive integer
+ */
+export function getToolResultMaxChars(): number {
+  const raw = process.env.TOOL_RESULT_MAX_CHARS;
+  if (!raw) return DEFAULT_TOOL_RESULT_MAX_CHARS;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`TOOL_RESULT_MAX_CHARS must be a positive integer, got "${raw}"`);
+  }
+  return value;
+}
+
+// ===========================================
+// ToolResultStore Class
+// ===========================================
+
+/**
+ * A tool result kept outside the conversation
+ */
+export interface StoredToolResult {
+  tool: string;
+  content: string;
+}
+
+/**
+ * Full copies of truncated or compacted tool results for one run, keyed by
+ * tool call ID
+ */
+export class ToolResultStore {
+  private results: Map<string, StoredToolResult>;
+
+  /**
+   * Creates a store
+   *
+   * @param saved - Results saved by an earlier part of the run (see toRecord)
+   */
+  constructor(saved: Record<string, StoredToolResult> = {}) {
+    this.results = new Map(Object.entries(saved));
+  }
+
+  /**
+   * Stores a tool result
+   *
+   * @param ref - Tool call ID the result belongs to
+   * @param result - Tool name and full result text
+   */
+  save(ref: string, result: StoredToolResult): void {
+    this.results.set(ref, result);
+  }
+
+  /**
+   * Gets a stored tool result
+   *
+   * @param ref - Tool call ID
+   * @returns Stored result, or undefined if nothing was stored under the ref
+   */
+  get(ref: string): StoredToolResult | undefined {
+    return this.results.get(ref);
+  }
+
+  /**
+   * Gets every stored result as a plain object, for saving with a paused run
+   *
+   * @returns Stored results keyed by tool call ID
+   */
+  toRecord(): Record<string, StoredToolResult> {
+    return Object.fromEntries(this.results);
+  }
+}
+
+// ===========================================
+// Truncation
+// ===========================================
+
+/**
+ * Cuts a tool result down to a head/tail preview if it is too large
+ *
+ * @param ref - Tool call ID, used as the handle for read_tool_result
+ * @param tool - Tool that produced the result
+ * @param content - Full result text
+ * @param maxChars - Size limit
+ * @param store - Where the full text is kept when truncated
+ * @returns The content unchanged, or the preview
+ */
+export function truncateToolResult(
+  ref: string,
+  tool: string,
+  content: string,
+  maxChars: number,
+  store: ToolResultStore
+): string {
+  if (content.length <= maxChars) return content;
+
+  store.save(ref, { tool, content });
+
+  const headChars = Math.floor(maxChars * HEAD_RATIO);
+  const tailChars = maxChars - headChars;
+  const omitted = content.length - headChars - tailChars;
+
+  return [
+    `[Truncated tool result: ${tool}, ${content.length} characters, ref "${ref}". ` +
+      `Showing the first ${headChars} and the last ${tailChars} characters. ` +
+      `${readHint(ref, headChars)}]`,
+    content.slice(0, headChars),
+    `... (${omitted} characters omitted) ...`,
+    content.slice(content.length - tailChars),
+  ].join('\n');
+}
+
+/**
+ * Tells the model how to read a stored result from an offset
+ *
+ * @param ref - Tool call ID
+ * @param offset - Character offset to continue from
+ * @returns Instruction sentence
+ */
+export function readHint(ref: string, offset: number): string {
+  const input = JSON.stringify({ ref, offset });
+  return `Call ${READ_TOOL_RESULT} with ${input} to read the rest.`;
+}
+
+// ===========================================
+// read_tool_result Tool
+// ===========================================
+
+/**
+ * Name of the paging tool
+ */
+export const READ_TOOL_RESULT = 'read_tool_result';
+
+/**
+ * Definition of the paging tool, offered in every run
+ */
+export const readToolResultDefinition: ToolDefinition = {
+  name: READ_TOOL_RESULT,
+  description:
+    'Read part of a tool result that was truncated or compacted, by its ref and a character offset',
+  input_schema: {
+    type: 'object',
+    properties: {
+      ref: { type: 'string', description: 'The ref shown in the truncated result' },
+      offset: { type: 'integer', minimum: 0, description: 'Character offset to start at' },
+      length: { type: 'integer', minimum: 1, description: 'Characters to read (optional)' },
+    },
+    required: ['ref'],
+  },
+};
+
+/**
+ * One page of a stored tool result
+ */
+export interface ToolResultPage {
+  ref: string;
+  tool: string;
+  offset: number;
+  totalLength: number;
+  content: string;
+
+  /** Offset of the next page, absent on the last page */
+  nextOffset?: number;
+}
+
+/**
+ * Reads a page of a stored tool result
+ *
+ * @param store - Results of the run
+ * @param input - ref, offset (default 0) and length (default and at most maxChars)
+ * @param maxChars - Page size limit
+ * @returns The requested page
+ * @throws Error if the ref is unknown or the offset lies past the end
+ */
+export function readToolResult(
+  store: ToolResultStore,
+  input: { ref: string; offset?: number; length?: number },
+  maxChars: number
+): ToolResultPage {
+  const stored = store.get(input.ref);
+  if (!stored) {
+    throw new Error(`No stored tool result with ref "${input.ref}"`);
+  }
+
+  const offset = input.offset ?? 0;
+  const totalLength = stored.content.length;
+  if (offset >= totalLength) {
+    throw new Error(`offset ${offset} is past the end of the result (${totalLength} characters)`);
+  }
+
+  const end = Math.min(offset + Math.min(input.length ?? maxChars, maxChars), totalLength);
+  return {
+    ref: input.ref,
+    tool: stored.tool,
+    offset,
+    totalLength,
+    content: stored.content.slice(offset, end),
+    nextOffset: end < totalLength ? end : undefined,
+  };
+}
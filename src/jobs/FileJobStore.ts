@@ -0,0 +1,227 @@
+/**
+ * ===========================================
+ * File-Backed Job Store
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Persist job records as JSON files in a local directory
+ * - Survive restarts without any external service
+ *
+ * ARCHITECTURE POSITION:
+ * Guard → JobStore → [THIS] → Disk
+ *
+ * LAYOUT:
+ * One file per job: <dir>/<encoded job id>.json
+ * Writes go to a temp file first and are renamed into place, so a crash
+ * never leaves a half-written record behind.
+ *
+ * LOCKING:
+ * compareAndSwap holds <file>.lock (created with O_EXCL) while it reads,
+ * compares and writes, so it is atomic across processes sharing the
+ * directory. A lock left behind by a crashed process is broken once it
+ * is older than LOCK_STALE_MS.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { JobRecord } from './IdempotencyGuard';
+import { JobStore, getRecordVersion, parseJobRecord } from './JobStore';
+
+/**
+ * Age after which a lock file is considered abandoned
+ */
+const LOCK_STALE_MS = 10_000;
+
+/**
+ * Delay between attempts to take a held lock
+ */
+const LOCK_RETRY_MS = 5;
+
+/**
+ * How long to wait for a lock before giving up
+ */
+const LOCK_TIMEOUT_MS = 5_000;
+
+/**
+ * Directory-backed JobStore
+ */
+export class FileJobStore implements JobStore {
+  private dir: string;
+  private ready: Promise<void> | null = null;
+
+  /**
+   * Creates a file store (the directory is created on first use)
+   *
+   * @param dir - Directory holding job files
+   */
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async get(id: string): Promise<JobRecord | undefined> {
+    await this.ensureDir();
+    return this.readRecord(this.filePath(id));
+  }
+
+  async put(record: JobRecord): Promise<void> {
+    await this.ensureDir();
+    await this.writeRecord(this.filePath(record.id), record);
+  }
+
+  async compareAndSwap(expectedVersion: number | null, record: JobRecord): Promise<boolean> {
+    await this.ensureDir();
+
+    const file = this.filePath(record.id);
+    const release = await this.acquireLock(`${file}.lock`);
+    try {
+      if (getRecordVersion(await this.readRecord(file)) !== expectedVersion) {
+        return false;
+      }
+      await this.writeRecord(file, record);
+      return true;
+    } finally {
+      await release();
+    }
+  }
+
+  async delete(id: string, expectedVersion?: number): Promise<boolean> {
+    await this.ensureDir();
+
+    const file = this.filePath(id);
+    if (expectedVersion === undefined) return this.unlinkRecord(file);
+
+    const release = await this.acquireLock(`${file}.lock`);
+    try {
+      if (getRecordVersion(await this.readRecord(file)) !== expectedVersion) {
+        return false;
+      }
+      return await this.unlinkRecord(file);
+    } finally {
+      await release();
+    }
+  }
+
+  async list(): Promise<JobRecord[]> {
+    await this.ensureDir();
+
+    const files = (await fs.promises.readdir(this.dir)).filter((f) => f.endsWith('.json'));
+    const records = await Promise.all(files.map((f) => this.readListedRecord(f)));
+
+    return records.filter((r): r is JobRecord => r !== undefined);
+  }
+
+  /**
+   * Creates the store directory once
+   */
+  private ensureDir(): Promise<void> {
+    if (!this.ready) {
+      this.ready = fs.promises.mkdir(this.dir, { recursive: true }).then(() => undefined);
+    }
+    return this.ready;
+  }
+
+  /**
+   * Maps a job ID to its file (IDs are encoded to stay filesystem-safe)
+   */
+  private filePath(id: string): string {
+    return path.join(this.dir, `${encodeURIComponent(id)}.json`);
+  }
+
+  /**
+   * Writes a record via temp file + rename
+   */
+  private async writeRecord(file: string, record: JobRecord): Promise<void> {
+    const temp = `${file}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+
+    await fs.promises.writeFile(temp, JSON.stringify(record, null, 2), 'utf8');
+    await fs.promises.rename(temp, file);
+  }
+
+  /**
+   * Removes a record file, returning false if it is already gone
+   */
+  private async unlinkRecord(file: string): Promise<boolean> {
+    try {
+      await fs.promises.unlink(file);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Takes an exclusive lock file, waiting while another writer holds it
+   *
+   * @param lockFile - Lock file path
+   * @returns Function that releases the lock
+   */
+  private async acquireLock(lockFile: string): Promise<() => Promise<void>> {
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    for (;;) {
+      try {
+        const handle = await fs.promises.open(lockFile, 'wx');
+        await handle.close();
+        return () => fs.promises.rm(lockFile, { force: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      if (await this.isStaleLock(lockFile)) {
+        console.warn(`[FileJobStore] Breaking stale lock: ${lockFile}`);
+        await fs.promises.rm(lockFile, { force: true });
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for job lock: ${lockFile}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  /**
+   * Checks whether a lock file is older than LOCK_STALE_MS
+   */
+  private async isStaleLock(lockFile: string): Promise<boolean> {
+    try {
+      const stat = await fs.promises.stat(lockFile);
+      return Date.now() - stat.mtimeMs > LOCK_STALE_MS;
+    } catch (error) {
+      // Released between our open() and stat() - just retry
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Reads a record for list(), skipping files that cannot be read or parsed
+   * (e.g. truncated by a crash or a hand edit) so one bad file does not hide
+   * every other job
+   */
+  private async readListedRecord(name: string): Promise<JobRecord | undefined> {
+    try {
+      return await this.readRecord(path.join(this.dir, name));
+    } catch (error) {
+      console.warn(`[FileJobStore] Skipping unreadable job file ${name}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Reads and revives a record, returning undefined if the file is gone
+   */
+  private async readRecord(file: string): Promise<JobRecord | undefined> {
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+
+    return parseJobRecord(raw);
+  }
+}
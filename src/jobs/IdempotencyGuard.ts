@@ -27,8 +27,39 @@
  * - Webhook handlers (GitHub can redeliver)
  * - Crash recovery (restart mid-processing)
  * - Network issues (timeout with successful server action)
+ *
+ * LEASES:
+ * A claimed job holds a lease that the worker keeps renewing
+ * (startHeartbeat) while it runs. If the worker crashes the lease runs
+ * out, and the job counts as failed-and-retryable: the next redelivery
+ * can claim it, and recoverExpired() marks it failed in the meantime.
+ * Every claim gets a new leaseId; a worker that passes its leaseId when
+ * renewing or finishing cannot extend or overwrite a newer claim after its
+ * own lease ran out.
+ *
+ * RETRIES:
+ * A failure caused by a transient error (see retryPolicy.ts) stays
+ * 'failed' with a nextRetryAt computed by exponential backoff; the retry
+ * scheduler picks it up from getDueRetries(). Permanent errors, and
+ * failures once maxAttempts are used up, move the job to 'dead_letter',
+ * where nothing retries it automatically.
+ *
+ * MANUAL CONTROL:
+ * retry() re-claims a failed, dead-lettered or cancelled job regardless
+ * of backoff and maxAttempts. cancel() stops a job from being retried;
+ * a run already in progress finishes, but its outcome is not recorded.
+ *
+ * APPROVALS:
+ * markAwaitingApproval() parks a job whose run stopped before a gated
+ * tool call, together with the run's saved state. It holds no lease and
+ * is never claimed by redeliveries or retries; resolveApproval() records
+ * the human's decision and hands the job back to a worker.
  */
 
+import * as crypto from 'crypto';
+import { JobStore, getDefaultJobStore, getRecordVersion } from './JobStore';
+import { computeRetryDelay, isTransientError } from './retryPolicy';
+
 // ===========================================
 // Types
 // ===========================================
@@ -36,7 +67,57 @@
 /**
  * Status of a job in the idempotency store
  */
-export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+export type JobStatus =
+  | 'pending'
+  | 'processing'
+  | 'completed'
+  | 'failed'
+  | 'dead_letter'
+  | 'cancelled'
+  | 'awaiting_approval';
+
+/**
+ * Completed side-effecting step of a job (see StepLedger)
+ */
+export interface StepRecord {
+  /** Deterministic step key */
+  key: string;
+
+  /** Tool that was called */
+  tool: string;
+
+  /** Arguments it was called with */
+  input: unknown;
+
+  /** Result returned by the tool, replayed on retries */
+  result: unknown;
+
+  /** When the step completed */
+  recordedAt: Date;
+}
+
+/**
+ * Approval a paused job is waiting for (see agent/approval.ts)
+ */
+export interface ApprovalRecord {
+  /** Tool call waiting for approval */
+  tool: string;
+  input: unknown;
+
+  /** Saved run state to resume from */
+  state: unknown;
+
+  /** When the run paused */
+  requestedAt: Date;
+
+  /** Set once a human decided */
+  decision?: {
+    approved: boolean;
+    by: string;
+    reason?: string;
+    decidedAt: Date;
+  };
+}
 
 /**
  * Job record stored in the idempotency store
@@ -65,6 +146,27 @@ export interface JobRecord {
 
   /** Additional metadata */
   metadata?: Record<string, unknown>;
+
+  /** Completed write-tool steps, keyed by step key */
+  steps?: Record<string, StepRecord>;
+
+  /** While processing: when the worker's lease runs out unless renewed */
+  leaseExpiresAt?: Date;
+
+  /** While processing: identifies the claim holding the lease */
+  leaseId?: string;
+
+  /** While failed: earliest time of the next attempt */
+  nextRetryAt?: Date;
+
+  /** Latest approval request of the job, with its decision once made */
+  approval?: ApprovalRecord;
+
+  /** LLM spend of all runs of the job, keyed by UTC day (YYYY-MM-DD) */
+  spend?: Record<string, { totalTokens: number; costUsd: number }>;
+
+  /** Incremented on every write; used for compare-and-swap */
+  version?: number;
 }
 
 /**
@@ -77,21 +179,31 @@ export interface IdempotencyConfig {
   /** Maximum number of retry attempts */
   maxAttempts: number;
 
-  /** Minimum time between retries (milliseconds) */
+  /** Minimum time between retries (milliseconds); backoff starts here */
   retryDelay: number;
+
+  /** Upper bound for the backoff delay (milliseconds) */
+  maxRetryDelay: number;
+
+  /** How long a claim stays valid without renewal (milliseconds) */
+  leaseDuration: number;
 }
 
-// ===========================================
-// In-Memory Store (Stub)
-// ===========================================
+/**
+ * Statuses a job never leaves on its own; cleanup() only removes these
+ */
+const TERMINAL_STATUSES: JobStatus[] = ['completed', 'dead_letter', 'cancelled'];
 
 /**
- * Simple in-memory store for development
- *
- * TODO: Replace with persistent storage (Redis, PostgreSQL, etc.)
- * for production use.
+ * How often a read-modify-write is retried after losing a race
  */
-const jobStore = new Map<string, JobRecord>();
+const MAX_CAS_ATTEMPTS = 10;
+
+/**
+ * Longest getDueRetries() goes without reading the store, so retries
+ * scheduled by another instance sharing it are still picked up
+ */
+const MAX_RETRY_SCAN_INTERVAL = 5 * 60 * 1000;
 
 // ===========================================
 // IdempotencyGuard Class
@@ -100,6 +212,9 @@ const jobStore = new Map<string, JobRecord>();
 /**
  * Guards against duplicate job processing
  *
+ * Records are kept in a pluggable JobStore (file-backed by default, see
+ * JobStore.ts), so processed deliveries survive restarts.
+ *
  * Usage:
  * ```typescript
  * const guard = new IdempotencyGuard();
@@ -109,8 +224,13 @@ const jobStore = new Map<string, JobRecord>();
  *   return; // Already processed
  * }
  *
- * // Process the job
- * await processJob();
+ * // Process the job, keeping the lease alive
+ * const stopHeartbeat = guard.startHeartbeat(deliveryId);
+ * try {
+ *   await processJob();
+ * } finally {
+ *   stopHeartbeat();
+ * }
  *
  * // Mark as complete
  * await guard.markComplete(deliveryId);
@@ -118,17 +238,25 @@ const jobStore = new Map<string, JobRecord>();
  */
 export class IdempotencyGuard {
   private config: IdempotencyConfig;
+  private store: JobStore;
+
+  /** Earliest time a known failed job becomes due (see getDueRetries) */
+  private nextRetryScanAt = 0;
 
   /**
    * Creates a new IdempotencyGuard
    *
    * @param config - Optional configuration overrides
+   * @param store - Storage backend (defaults to the shared store from env)
    */
-  constructor(config?: Partial<IdempotencyConfig>) {
+  constructor(config?: Partial<IdempotencyConfig>, store: JobStore = getDefaultJobStore()) {
+    this.store = store;
     this.config = {
       ttl: 24 * 60 * 60 * 1000, // 24 hours default
       maxAttempts: 3,
       retryDelay: 5000, // 5 seconds
+      maxRetryDelay: 10 * 60 * 1000, // 10 minutes
+      leaseDuration: 5 * 60 * 1000, // 5 minutes
       ...config,
     };
   }
@@ -136,178 +264,583 @@ export class IdempotencyGuard {
   /**
    * Checks if a job has already been processed or is being processed
    *
+   * Equivalent to `!(await claim(jobId, metadata))`: when this returns
+   * false the caller owns the job and must eventually mark it complete
+   * or failed.
+   *
    * @param jobId - Unique job identifier
+   * @param metadata - Optional metadata stored with the claim
    * @returns true if this is a duplicate (should skip processing)
+   */
+  async isDuplicate(jobId: string, metadata?: Record<string, unknown>): Promise<boolean> {
+    return !(await this.claim(jobId, metadata));
+  }
+
+  /**
+   * Atomically claims a job for processing
+   *
+   * The check and the status change are a single compare-and-swap on the
+   * store, so of any number of concurrent claims for the same ID (in this
+   * process or another one sharing the store) exactly one wins.
+   *
+   * @param jobId - Unique job identifier
+   * @param metadata - Optional metadata merged into the record on success
+   * @returns true if this caller now owns the job
    *
    * Logic:
-   * - If no record exists: not a duplicate, create pending record
-   * - If status is 'completed': duplicate, skip
-   * - If status is 'processing': duplicate (in progress), skip
-   * - If status is 'pending': not a duplicate, can retry
-   * - If status is 'failed': check if retries allowed
+   * - If no record exists: create a processing record, claimed
+   * - If status is 'completed', 'dead_letter', 'cancelled' or
+   *   'awaiting_approval': not claimed
+   * - If status is 'processing': in progress elsewhere, not claimed,
+   *   unless the lease expired (then handled like 'failed')
+   * - If status is 'pending': claimed
+   * - If status is 'failed': claimed once nextRetryAt has passed
    */
-  async isDuplicate(jobId: string): Promise<boolean> {
-    console.log(`[IdempotencyGuard] Checking job: ${jobId}`);
-
-    // STUB: Using in-memory store
-    // TODO: Replace with database query
-    //
-    // Real implementation (PostgreSQL):
-    // const result = await db.query(
-    //   'SELECT * FROM jobs WHERE id = $1',
-    //   [jobId]
-    // );
-    // const record = result.rows[0];
-
-    const record = jobStore.get(jobId);
-
-    if (!record) {
-      // First time seeing this job - create record and allow processing
-      await this.createRecord(jobId);
-      return false;
+  async claim(jobId: string, metadata?: Record<string, unknown>): Promise<boolean> {
+    console.log(`[IdempotencyGuard] Claiming job: ${jobId}`);
+
+    for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS; attempt++) {
+      const record = await this.store.get(jobId);
+
+      if (record && !this.isClaimable(record)) {
+        return false;
+      }
+
+      const next: JobRecord = record
+        ? {
+            ...record,
+            status: 'processing',
+            updatedAt: new Date(),
+            attempts: record.attempts + 1,
+            leaseExpiresAt: this.newLeaseExpiry(),
+            leaseId: crypto.randomUUID(),
+            nextRetryAt: undefined,
+            metadata: metadata ? { ...record.metadata, ...metadata } : record.metadata,
+            version: (record.version ?? 0) + 1,
+          }
+        : {
+            id: jobId,
+            status: 'processing',
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            attempts: 1,
+            leaseExpiresAt: this.newLeaseExpiry(),
+            leaseId: crypto.randomUUID(),
+            metadata,
+            version: 1,
+          };
+
+      if (await this.store.compareAndSwap(getRecordVersion(record), next)) {
+        console.log(`[IdempotencyGuard] Claimed job ${jobId} (attempt ${next.attempts})`);
+        return true;
+      }
+
+      // Another worker changed the record between our read and write - re-evaluate
+      console.log(`[IdempotencyGuard] Lost claim race for job ${jobId}, re-checking`);
     }
 
+    console.warn(`[IdempotencyGuard] Giving up on contended job ${jobId}`);
+    return false;
+  }
+
+  /**
+   * Decides whether an existing record may be claimed
+   *
+   * @param record - Current job record
+   * @returns true if processing may (re)start
+   */
+  private isClaimable(record: JobRecord): boolean {
     // Already completed - definitely a duplicate
     if (record.status === 'completed') {
-      console.log(`[IdempotencyGuard] Job ${jobId} already completed`);
-      return true;
+      console.log(`[IdempotencyGuard] Job ${record.id} already completed`);
+      return false;
+    }
+
+    // Given up on - only an explicit retry revives it; or parked until a human decides
+    if (
+      record.status === 'dead_letter' ||
+      record.status === 'cancelled' ||
+      record.status === 'awaiting_approval'
+    ) {
+      console.log(`[IdempotencyGuard] Job ${record.id} is ${record.status}`);
+      return false;
     }
 
-    // Currently being processed by another worker
+    // Being processed by a live worker
     if (record.status === 'processing') {
-      console.log(`[IdempotencyGuard] Job ${jobId} is currently processing`);
+      if (!this.isLeaseExpired(record)) {
+        console.log(`[IdempotencyGuard] Job ${record.id} is currently processing`);
+        return false;
+      }
+
+      // The worker died without releasing it - retry like a failure (no cooldown,
+      // the lease expiry already spaced it out)
+      console.log(`[IdempotencyGuard] Job ${record.id} lease expired`);
+      if (record.attempts >= this.config.maxAttempts) {
+        console.log(`[IdempotencyGuard] Job ${record.id} exceeded max attempts`);
+        return false;
+      }
       return true;
     }
 
     // Failed - check if we can retry
     if (record.status === 'failed') {
       if (record.attempts >= this.config.maxAttempts) {
-        console.log(`[IdempotencyGuard] Job ${jobId} exceeded max attempts`);
-        return true;
+        console.log(`[IdempotencyGuard] Job ${record.id} exceeded max attempts`);
+        return false;
       }
 
-      // Allow retry after delay
-      const timeSinceLastAttempt = Date.now() - record.updatedAt.getTime();
-      if (timeSinceLastAttempt < this.config.retryDelay) {
-        console.log(`[IdempotencyGuard] Job ${jobId} in retry cooldown`);
-        return true;
+      // Allow retry after the backoff delay
+      if (!this.isRetryDue(record)) {
+        console.log(`[IdempotencyGuard] Job ${record.id} in retry cooldown`);
+        return false;
       }
+    }
 
-      // Allow retry
-      await this.markProcessing(jobId);
-      return false;
+    // Pending, or failed and retryable
+    return true;
+  }
+
+  /**
+   * Checks whether a processing job's lease has run out
+   *
+   * Records written before leases existed fall back to updatedAt.
+   *
+   * @param record - Job record
+   * @returns true if no worker holds the job anymore
+   */
+  private isLeaseExpired(record: JobRecord): boolean {
+    const expiresAt =
+      record.leaseExpiresAt?.getTime() ?? record.updatedAt.getTime() + this.config.leaseDuration;
+    return expiresAt <= Date.now();
+  }
+
+  /**
+   * Checks whether a failed job's backoff delay has passed
+   *
+   * Records without nextRetryAt (written before backoff existed) wait
+   * retryDelay after their last update.
+   *
+   * @param record - Failed job record
+   * @returns true if the job may be retried now
+   */
+  private isRetryDue(record: JobRecord): boolean {
+    return this.getRetryDueAt(record) <= Date.now();
+  }
+
+  /**
+   * Gets when a failed job may be retried
+   *
+   * @param record - Job record
+   * @returns Due time in milliseconds since the epoch
+   */
+  private getRetryDueAt(record: JobRecord): number {
+    return record.nextRetryAt?.getTime() ?? record.updatedAt.getTime() + this.config.retryDelay;
+  }
+
+  /**
+   * Records a failure: schedules a retry or dead-letters the job
+   *
+   * @param record - Record to update (mutated)
+   * @param error - Error that caused the failure
+   */
+  private applyFailure(record: JobRecord, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    const transient = isTransientError(error);
+
+    record.error = message;
+    record.leaseExpiresAt = undefined;
+    record.leaseId = undefined;
+
+    if (!transient || record.attempts >= this.config.maxAttempts) {
+      record.status = 'dead_letter';
+      record.nextRetryAt = undefined;
+      console.log(
+        `[IdempotencyGuard] Job ${record.id} dead-lettered (${transient ? 'attempts exhausted' : 'permanent error'})`
+      );
+      return;
     }
 
-    // Pending - can proceed
-    await this.markProcessing(jobId);
-    return false;
+    const delay = computeRetryDelay(
+      record.attempts,
+      this.config.retryDelay,
+      this.config.maxRetryDelay
+    );
+    record.status = 'failed';
+    record.nextRetryAt = new Date(Date.now() + delay);
+    this.nextRetryScanAt = Math.min(this.nextRetryScanAt, record.nextRetryAt.getTime());
+    console.log(`[IdempotencyGuard] Job ${record.id} will retry in ${delay}ms`);
   }
 
   /**
-   * Creates a new job record in pending status
+   * Checks that the caller still holds the job's lease
    *
-   * @param jobId - Unique job identifier
-   * @param metadata - Optional metadata to store with the job
+   * Callers that pass no leaseId are not checked.
+   *
+   * @param record - Current job record
+   * @param leaseId - Lease the caller got when the job was claimed
+   * @returns false if the job was claimed again or left 'processing'
    */
-  private async createRecord(
-    jobId: string,
-    metadata?: Record<string, unknown>
-  ): Promise<void> {
-    console.log(`[IdempotencyGuard] Creating record for job: ${jobId}`);
-
-    const record: JobRecord = {
-      id: jobId,
-      status: 'processing',
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      attempts: 1,
-      metadata,
-    };
+  private holdsLease(record: JobRecord, leaseId: string | undefined): boolean {
+    if (leaseId === undefined) return true;
+    if (record.status === 'processing' && record.leaseId === leaseId) return true;
 
-    // STUB: Using in-memory store
-    // TODO: Replace with database insert
-    //
-    // Real implementation (PostgreSQL):
-    // await db.query(
-    //   `INSERT INTO jobs (id, status, created_at, updated_at, attempts, metadata)
-    //    VALUES ($1, $2, $3, $4, $5, $6)`,
-    //   [jobId, 'processing', new Date(), new Date(), 1, metadata]
-    // );
-
-    jobStore.set(jobId, record);
+    console.warn(`[IdempotencyGuard] Job ${record.id} is no longer held by lease ${leaseId}`);
+    return false;
   }
 
   /**
-   * Marks a job as currently processing
+   * Computes the expiry of a lease taken or renewed now
+   */
+  private newLeaseExpiry(): Date {
+    return new Date(Date.now() + this.config.leaseDuration);
+  }
+
+  /**
+   * Applies a change to an existing record with compare-and-swap
+   *
+   * Retries on conflicting writes so concurrent updates are never lost.
    *
    * @param jobId - Unique job identifier
+   * @param change - Mutates the freshly read record; returning false skips the write
+   * @returns true if the record was written
    */
-  private async markProcessing(jobId: string): Promise<void> {
-    console.log(`[IdempotencyGuard] Marking job as processing: ${jobId}`);
-
-    const record = jobStore.get(jobId);
-    if (record) {
-      record.status = 'processing';
+  private async update(
+    jobId: string,
+    change: (record: JobRecord) => boolean | void
+  ): Promise<boolean> {
+    for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS; attempt++) {
+      const record = await this.store.get(jobId);
+      if (!record) return false;
+
+      const expectedVersion = getRecordVersion(record);
+      if (change(record) === false) return false;
       record.updatedAt = new Date();
-      record.attempts += 1;
+      record.version = (expectedVersion ?? 0) + 1;
 
-      // STUB: Using in-memory store
-      // TODO: Replace with database update
-      jobStore.set(jobId, record);
+      if (await this.store.compareAndSwap(expectedVersion, record)) {
+        return true;
+      }
     }
+
+    throw new Error(`Could not update job ${jobId}: too many concurrent writes`);
   }
 
   /**
    * Marks a job as successfully completed
    *
    * @param jobId - Unique job identifier
+   * @param leaseId - Lease of the finishing worker; the job is left alone
+   *   if it has been claimed again since
+   * @returns false if the job was cancelled or the lease was lost
    */
-  async markComplete(jobId: string): Promise<void> {
+  async markComplete(jobId: string, leaseId?: string): Promise<boolean> {
     console.log(`[IdempotencyGuard] Marking job as complete: ${jobId}`);
 
-    const record = jobStore.get(jobId);
-    if (record) {
+    return this.update(jobId, (record) => {
+      if (record.status === 'cancelled' || !this.holdsLease(record, leaseId)) return false;
       record.status = 'completed';
-      record.updatedAt = new Date();
       record.completedAt = new Date();
-
-      // STUB: Using in-memory store
-      // TODO: Replace with database update
-      //
-      // Real implementation (PostgreSQL):
-      // await db.query(
-      //   `UPDATE jobs
-      //    SET status = 'completed', updated_at = $2, completed_at = $2
-      //    WHERE id = $1`,
-      //   [jobId, new Date()]
-      // );
-
-      jobStore.set(jobId, record);
-    }
+      record.leaseExpiresAt = undefined;
+      record.leaseId = undefined;
+    });
   }
 
   /**
    * Marks a job as failed
    *
+   * Transient errors leave the job 'failed' with a backoff nextRetryAt;
+   * permanent errors and exhausted attempts move it to 'dead_letter'.
+   *
    * @param jobId - Unique job identifier
    * @param error - Error that caused the failure
+   * @param leaseId - Lease of the failing worker (see markComplete)
+   * @returns false if the job was cancelled or the lease was lost
    */
-  async markFailed(jobId: string, error: Error): Promise<void> {
+  async markFailed(jobId: string, error: Error, leaseId?: string): Promise<boolean> {
     console.log(`[IdempotencyGuard] Marking job as failed: ${jobId}`);
     console.log(`[IdempotencyGuard] Error: ${error.message}`);
 
-    const record = jobStore.get(jobId);
-    if (record) {
-      record.status = 'failed';
-      record.updatedAt = new Date();
-      record.error = error.message;
+    return this.update(jobId, (record) => {
+      if (record.status === 'cancelled' || !this.holdsLease(record, leaseId)) return false;
+      this.applyFailure(record, error);
+    });
+  }
+
+  /**
+   * Manually re-claims a job for another run
+   *
+   * Unlike claim(), ignores the backoff delay and maxAttempts, so an
+   * operator can retry a dead-lettered job.
+   *
+   * @param jobId - Unique job identifier
+   * @returns true if the caller now owns the job; false if it is missing,
+   *          running or completed
+   */
+  async retry(jobId: string): Promise<boolean> {
+    console.log(`[IdempotencyGuard] Manual retry of job: ${jobId}`);
+
+    return this.update(jobId, (record) => {
+      if (!['failed', 'dead_letter', 'cancelled'].includes(record.status)) return false;
+      record.status = 'processing';
+      record.attempts += 1;
+      record.error = undefined;
+      record.nextRetryAt = undefined;
+      record.leaseExpiresAt = this.newLeaseExpiry();
+      record.leaseId = crypto.randomUUID();
+    });
+  }
+
+  /**
+   * Cancels a job so it is neither retried nor recorded as finished
+   *
+   * A run already in progress is not interrupted; its result is dropped.
+   *
+   * @param jobId - Unique job identifier
+   * @returns true if the job was cancelled; false if it is missing or
+   *          already completed, dead-lettered or cancelled
+   */
+  async cancel(jobId: string): Promise<boolean> {
+    console.log(`[IdempotencyGuard] Cancelling job: ${jobId}`);
+
+    return this.update(jobId, (record) => {
+      if (!['pending', 'processing', 'failed', 'awaiting_approval'].includes(record.status)) {
+        return false;
+      }
+      record.status = 'cancelled';
+      record.leaseExpiresAt = undefined;
+      record.leaseId = undefined;
+      record.nextRetryAt = undefined;
+    });
+  }
 
-      // STUB: Using in-memory store
-      // TODO: Replace with database update
-      jobStore.set(jobId, record);
+  /**
+   * Parks a processing job until a human approves or rejects a tool call
+   *
+   * @param jobId - Unique job identifier
+   * @param approval - Gated call and the run state to resume from
+   * @param leaseId - Lease of the pausing worker (see markComplete)
+   * @returns false if the job is no longer processing (e.g. cancelled) or
+   *          the lease was lost
+   */
+  async markAwaitingApproval(
+    jobId: string,
+    approval: Omit<ApprovalRecord, 'requestedAt' | 'decision'>,
+    leaseId?: string
+  ): Promise<boolean> {
+    console.log(`[IdempotencyGuard] Job ${jobId} awaiting approval of ${approval.tool}`);
+
+    return this.update(jobId, (record) => {
+      if (record.status !== 'processing' || !this.holdsLease(record, leaseId)) return false;
+      record.status = 'awaiting_approval';
+      record.leaseExpiresAt = undefined;
+      record.leaseId = undefined;
+      record.approval = { ...approval, requestedAt: new Date() };
+    });
+  }
+
+  /**
+   * Records a decision on a job awaiting approval and re-claims it
+   *
+   * Only the first decision counts: the status change is a
+   * compare-and-swap, so concurrent or repeated replies resolve once.
+   *
+   * @param jobId - Unique job identifier
+   * @param decision - Approved or rejected, by whom and why
+   * @returns The updated record (now processing), or undefined if the job
+   *          was not awaiting approval
+   */
+  async resolveApproval(
+    jobId: string,
+    decision: { approved: boolean; by: string; reason?: string }
+  ): Promise<JobRecord | undefined> {
+    console.log(
+      `[IdempotencyGuard] Job ${jobId} ${decision.approved ? 'approved' : 'rejected'} by ${decision.by}`
+    );
+
+    let resolved: JobRecord | undefined;
+    await this.update(jobId, (record) => {
+      if (record.status !== 'awaiting_approval' || !record.approval) return false;
+      record.status = 'processing';
+      record.leaseExpiresAt = this.newLeaseExpiry();
+      record.leaseId = crypto.randomUUID();
+      record.approval = { ...record.approval, decision: { ...decision, decidedAt: new Date() } };
+      resolved = record;
+    });
+
+    return resolved;
+  }
+
+  /**
+   * Extends the lease on a job this worker is processing
+   *
+   * @param jobId - Unique job identifier
+   * @param leaseId - Lease the worker got when the job was claimed; a newer
+   *   claim's lease is never extended (see markComplete)
+   * @returns false if the job is no longer processing under that lease (lease lost)
+   */
+  async renewLease(jobId: string, leaseId?: string): Promise<boolean> {
+    return this.update(jobId, (record) => {
+      if (record.status !== 'processing' || !this.holdsLease(record, leaseId)) return false;
+      record.leaseExpiresAt = this.newLeaseExpiry();
+    });
+  }
+
+  /**
+   * Renews a job's lease periodically until stopped or the lease is lost
+   *
+   * Renews at a third of the lease duration, so two missed beats still
+   * leave the lease intact.
+   *
+   * @param jobId - Unique job identifier
+   * @param leaseId - Lease the job was claimed under (see renewLease)
+   * @returns Function that stops the heartbeat
+   */
+  startHeartbeat(jobId: string, leaseId?: string): () => void {
+    const timer = setInterval(() => {
+      this.renewLease(jobId, leaseId)
+        .then((renewed) => {
+          if (!renewed) {
+            console.warn(`[IdempotencyGuard] Lost lease on job ${jobId}`);
+            clearInterval(timer);
+          }
+        })
+        .catch((error) => {
+          console.error(`[IdempotencyGuard] Failed to renew lease on job ${jobId}:`, error);
+        });
+    }, Math.max(1, Math.floor(this.config.leaseDuration / 3)));
+
+    // Never keep the process alive just to renew a lease
+    timer.unref();
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Marks processing jobs whose lease expired as failed
+   *
+   * Should be called periodically. A lost worker counts as a transient
+   * failure, so the job is scheduled for retry within maxAttempts.
+   *
+   * @returns Number of jobs recovered
+   */
+  async recoverExpired(): Promise<number> {
+    let recovered = 0;
+
+    for (const listed of await this.store.list()) {
+      if (listed.status !== 'processing' || !this.isLeaseExpired(listed)) continue;
+
+      // Re-checked under compare-and-swap: the worker may have just renewed or finished
+      const changed = await this.update(listed.id, (record) => {
+        if (record.status !== 'processing' || !this.isLeaseExpired(record)) return false;
+        this.applyFailure(record, new Error('Lease expired: worker crashed or stalled'));
+      });
+
+      if (changed) {
+        console.log(`[IdempotencyGuard] Recovered job with expired lease: ${listed.id}`);
+        recovered++;
+      }
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Lists failed jobs whose backoff delay has passed
+   *
+   * The store is only read once the earliest known retry is due: each
+   * scan remembers when the next waiting job becomes due, and failures
+   * recorded by this guard move that time forward. Without any, the
+   * store is still read every MAX_RETRY_SCAN_INTERVAL.
+   *
+   * @returns Records the retry scheduler should claim and re-run
+   */
+  async getDueRetries(): Promise<JobRecord[]> {
+    const now = Date.now();
+    if (now < this.nextRetryScanAt) return [];
+
+    // Failures recorded while the store is being read lower this again
+    this.nextRetryScanAt = now + MAX_RETRY_SCAN_INTERVAL;
+    const due: JobRecord[] = [];
+
+    for (const record of await this.store.list()) {
+      if (record.status !== 'failed' || record.attempts >= this.config.maxAttempts) continue;
+
+      if (this.isRetryDue(record)) {
+        due.push(record);
+      } else {
+        this.nextRetryScanAt = Math.min(this.nextRetryScanAt, this.getRetryDueAt(record));
+      }
+    }
+
+    return due;
+  }
+
+  /**
+   * Gets a recorded step of a job
+   *
+   * @param jobId - Unique job identifier
+   * @param key - Step key
+   * @returns Step record or undefined if the step has not completed
+   */
+  async getStep(jobId: string, key: string): Promise<StepRecord | undefined> {
+    const record = await this.store.get(jobId);
+    return record?.steps?.[key];
+  }
+
+  /**
+   * Records a completed step on the job
+   *
+   * @param jobId - Unique job identifier
+   * @param step - Completed step
+   */
+  async recordStep(jobId: string, step: StepRecord): Promise<void> {
+    const written = await this.update(jobId, (record) => {
+      record.steps = { ...record.steps, [step.key]: step };
+    });
+
+    if (!written) {
+      throw new Error(`Cannot record step for unknown job ${jobId}`);
     }
   }
 
+  /**
+   * Adds LLM spend to the job
+   *
+   * Recorded whatever the job's status: the money is spent even if the
+   * run was cancelled or lost its lease meanwhile.
+   *
+   * @param jobId - Unique job identifier
+   * @param day - UTC day of the spend (YYYY-MM-DD)
+   * @param tokens - Prompt plus completion tokens
+   * @param costUsd - Cost in USD
+   * @returns false if the job is unknown
+   */
+  async recordSpend(
+    jobId: string,
+    day: string,
+    tokens: number,
+    costUsd: number
+  ): Promise<boolean> {
+    return this.update(jobId, (record) => {
+      const current = record.spend?.[day] ?? { totalTokens: 0, costUsd: 0 };
+      record.spend = {
+        ...record.spend,
+        [day]: { totalTokens: current.totalTokens + tokens, costUsd: current.costUsd + costUsd },
+      };
+    });
+  }
+
+  /**
+   * Lists all job records, newest first
+   *
+   * @returns Job records
+   */
+  async list(): Promise<JobRecord[]> {
+    const records = await this.store.list();
+    return records.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
   /**
    * Gets the current status of a job
    *
@@ -317,15 +850,18 @@ export class IdempotencyGuard {
   async getStatus(jobId: string): Promise<JobRecord | undefined> {
     console.log(`[IdempotencyGuard] Getting status for job: ${jobId}`);
 
-    // STUB: Using in-memory store
-    // TODO: Replace with database query
-    return jobStore.get(jobId);
+    return this.store.get(jobId);
   }
 
   /**
-   * Cleans up old job records based on TTL
+   * Cleans up finished job records older than the TTL
    *
-   * Should be called periodically (e.g., via cron job)
+   * Only completed, dead-lettered and cancelled jobs are removed, counted
+   * from their last update. Jobs that are running, waiting for a retry or
+   * for a human are kept. Each delete is conditional on the version that
+   * was read, so a record retried in the meantime survives.
+   *
+   * Should be called periodically (see server.ts)
    *
    * @returns Number of records cleaned up
    */
@@ -335,19 +871,11 @@ export class IdempotencyGuard {
     const cutoff = Date.now() - this.config.ttl;
     let cleaned = 0;
 
-    // STUB: Using in-memory store
-    // TODO: Replace with database delete
-    //
-    // Real implementation (PostgreSQL):
-    // const result = await db.query(
-    //   'DELETE FROM jobs WHERE created_at < $1',
-    //   [new Date(cutoff)]
-    // );
-    // return result.rowCount;
-
-    for (const [id, record] of jobStore.entries()) {
-      if (record.createdAt.getTime() < cutoff) {
-        jobStore.delete(id);
+    for (const record of await this.store.list()) {
+      if (!TERMINAL_STATUSES.includes(record.status)) continue;
+      if (record.updatedAt.getTime() >= cutoff) continue;
+
+      if (await this.store.delete(record.id, getRecordVersion(record) ?? 0)) {
         cleaned++;
       }
     }
@@ -367,19 +895,22 @@ export class IdempotencyGuard {
     processing: number;
     completed: number;
     failed: number;
+    dead_letter: number;
+    cancelled: number;
+    awaiting_approval: number;
   }> {
-    // STUB: Using in-memory store
-    // TODO: Replace with database aggregation
-
     const stats = {
       total: 0,
       pending: 0,
       processing: 0,
       completed: 0,
       failed: 0,
+      dead_letter: 0,
+      cancelled: 0,
+      awaiting_approval: 0,
     };
 
-    for (const record of jobStore.values()) {
+    for (const record of await this.store.list()) {
       stats.total++;
       stats[record.status]++;
     }
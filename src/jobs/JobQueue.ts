@@ -0,0 +1,298 @@
+/**
+ * ===========================================
+ * Job Queue
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Buffer accepted jobs instead of running them inline in the request
+ * - Run jobs on a fixed pool of workers
+ * - Limit how many jobs of one repository run at the same time
+ * - Report queue depth and worker state
+ *
+ * INPUT:
+ * - Jobs with an ID, repository, priority and payload
+ *
+ * OUTPUT:
+ * - Calls to the job handler, at most `workers` at a time
+ *
+ * ARCHITECTURE POSITION:
+ * Route → Guard → [THIS: Queue] → Handler (Agent)
+ *
+ * ORDERING:
+ * Higher priority first; jobs with equal priority run in arrival order
+ * (FIFO). A job whose repository is at its concurrency limit is skipped
+ * for now, so one busy repository cannot block the others.
+ *
+ * NOTE:
+ * The queue lives in process memory. Durability comes from the
+ * IdempotencyGuard records: a job lost in a restart keeps its lease,
+ * and is retried once the lease expires.
+ */
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Job as submitted to the queue
+ */
+export interface QueueJob<T> {
+  /** Unique identifier (e.g., GitHub delivery ID) */
+  id: string;
+
+  /** Repository the job belongs to (owner/repo), used for concurrency limits */
+  repo: string;
+
+  /** Higher runs first (default 0) */
+  priority?: number;
+
+  /** Data passed to the handler */
+  payload: T;
+}
+
+/**
+ * Function that processes one job
+ */
+export type JobHandler<T> = (job: QueueJob<T>) => Promise<void>;
+
+/**
+ * Configuration for the JobQueue
+ */
+export interface JobQueueConfig {
+  /** Number of jobs processed in parallel */
+  workers: number;
+
+  /** Maximum jobs of the same repository processed in parallel */
+  perRepoConcurrency: number;
+}
+
+/**
+ * Snapshot of queue state
+ */
+export interface JobQueueStats {
+  workers: number;
+  perRepoConcurrency: number;
+
+  /** Jobs waiting for a worker */
+  queued: number;
+
+  /** Jobs currently being processed */
+  running: number;
+
+  /** Workers without a job */
+  idleWorkers: number;
+
+  /** Jobs finished since startup */
+  processed: number;
+
+  /** Jobs whose handler threw since startup */
+  failed: number;
+
+  /** Waiting jobs per repository */
+  queuedByRepo: Record<string, number>;
+
+  /** Jobs being processed, oldest first */
+  active: Array<{ id: string; repo: string; startedAt: Date }>;
+}
+
+/**
+ * Job waiting in the queue
+ */
+interface QueuedEntry<T> {
+  job: QueueJob<T>;
+  priority: number;
+  sequence: number;
+}
+
+// ===========================================
+// JobQueue Class
+// ===========================================
+
+/**
+ * In-process priority queue with a bounded worker pool
+ *
+ * Usage:
+ * ```typescript
+ * const queue = new JobQueue(async (job) => processJob(job.payload), {
+ *   workers: 4,
+ *   perRepoConcurrency: 1,
+ * });
+ *
+ * queue.enqueue({ id: deliveryId, repo: 'owner/repo', priority: 10, payload });
+ * ```
+ */
+export class JobQueue<T> {
+  private handler: JobHandler<T>;
+  private config: JobQueueConfig;
+  private pending: QueuedEntry<T>[] = [];
+  private active = new Map<string, { repo: string; startedAt: Date }>();
+  private runningPerRepo = new Map<string, number>();
+  private sequence = 0;
+  private processed = 0;
+  private failed = 0;
+  private idleWaiters: Array<() => void> = [];
+
+  /**
+   * Creates a new JobQueue
+   *
+   * @param handler - Function that processes a job
+   * @param config - Optional configuration overrides
+   */
+  constructor(handler: JobHandler<T>, config?: Partial<JobQueueConfig>) {
+    this.handler = handler;
+    this.config = {
+      workers: 2,
+      perRepoConcurrency: 1,
+      ...config,
+    };
+
+    if (this.config.workers < 1 || this.config.perRepoConcurrency < 1) {
+      throw new Error('JobQueue needs at least one worker and a per-repo concurrency of 1 or more');
+    }
+  }
+
+  /**
+   * Adds a job and starts it if a worker is free
+   *
+   * @param job - Job to process
+   */
+  enqueue(job: QueueJob<T>): void {
+    const entry: QueuedEntry<T> = {
+      job,
+      priority: job.priority ?? 0,
+      sequence: this.sequence++,
+    };
+
+    // Insert after every entry with the same or higher priority (stable FIFO)
+    let index = this.pending.length;
+    while (index > 0 && this.pending[index - 1].priority < entry.priority) {
+      index--;
+    }
+    this.pending.splice(index, 0, entry);
+
+    console.log(
+      `[JobQueue] Enqueued job ${job.id} (repo: ${job.repo}, priority: ${entry.priority}, queued: ${this.pending.length})`
+    );
+
+    this.dispatch();
+  }
+
+  /**
+   * Removes a job that has not started yet
+   *
+   * @param id - Job identifier
+   * @returns true if the job was waiting and is now removed
+   */
+  remove(id: string): boolean {
+    const index = this.pending.findIndex(({ job }) => job.id === id);
+    if (index === -1) return false;
+
+    this.pending.splice(index, 1);
+    console.log(`[JobQueue] Removed queued job ${id}`);
+    this.dispatch();
+    return true;
+  }
+
+  /**
+   * Checks whether a job is running on a worker right now
+   *
+   * @param id - Job identifier
+   * @returns true if a worker is processing the job
+   */
+  isActive(id: string): boolean {
+    return this.active.has(id);
+  }
+
+  /**
+   * Gets the current queue state
+   *
+   * @returns Queue statistics
+   */
+  getStats(): JobQueueStats {
+    const queuedByRepo: Record<string, number> = {};
+    for (const { job } of this.pending) {
+      queuedByRepo[job.repo] = (queuedByRepo[job.repo] ?? 0) + 1;
+    }
+
+    return {
+      workers: this.config.workers,
+      perRepoConcurrency: this.config.perRepoConcurrency,
+      queued: this.pending.length,
+      running: this.active.size,
+      idleWorkers: this.config.workers - this.active.size,
+      processed: this.processed,
+      failed: this.failed,
+      queuedByRepo,
+      active: Array.from(this.active, ([id, state]) => ({ id, ...state })),
+    };
+  }
+
+  /**
+   * Resolves once no job is queued or running
+   *
+   * @returns Promise that resolves when the queue is drained
+   */
+  onIdle(): Promise<void> {
+    if (this.isIdle()) return Promise.resolve();
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Starts as many pending jobs as workers and repo limits allow
+   */
+  private dispatch(): void {
+    while (this.active.size < this.config.workers) {
+      const index = this.pending.findIndex(
+        ({ job }) => (this.runningPerRepo.get(job.repo) ?? 0) < this.config.perRepoConcurrency
+      );
+      if (index === -1) break;
+
+      const [entry] = this.pending.splice(index, 1);
+      void this.run(entry.job);
+    }
+
+    if (this.isIdle()) {
+      const waiters = this.idleWaiters;
+      this.idleWaiters = [];
+      waiters.forEach((resolve) => resolve());
+    }
+  }
+
+  /**
+   * Processes one job on a worker slot
+   *
+   * @param job - Job to process
+   */
+  private async run(job: QueueJob<T>): Promise<void> {
+    this.active.set(job.id, { repo: job.repo, startedAt: new Date() });
+    this.runningPerRepo.set(job.repo, (this.runningPerRepo.get(job.repo) ?? 0) + 1);
+
+    console.log(`[JobQueue] Starting job ${job.id} (running: ${this.active.size}/${this.config.workers})`);
+
+    try {
+      await this.handler(job);
+    } catch (error) {
+      this.failed++;
+      console.error(`[JobQueue] Job ${job.id} failed:`, error);
+    } finally {
+      this.processed++;
+      this.active.delete(job.id);
+
+      const remaining = (this.runningPerRepo.get(job.repo) ?? 1) - 1;
+      if (remaining > 0) {
+        this.runningPerRepo.set(job.repo, remaining);
+      } else {
+        this.runningPerRepo.delete(job.repo);
+      }
+
+      this.dispatch();
+    }
+  }
+
+  /**
+   * Checks whether nothing is queued or running
+   */
+  private isIdle(): boolean {
+    return this.pending.length === 0 && this.active.size === 0;
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * ===========================================
+ * Job Store
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Define the storage interface behind IdempotencyGuard
+ * - Select the storage backend from environment configuration
+ *
+ * INPUT:
+ * - JOB_STORE: 'file' (default) or 'memory'
+ * - JOB_STORE_PATH: directory for the file backend (default ./data/jobs)
+ *
+ * OUTPUT:
+ * - A shared JobStore instance
+ *
+ * ARCHITECTURE POSITION:
+ * Route → Guard → [THIS: Job Store] → Disk / Memory
+ *
+ * KEY CONCEPT:
+ * Backends only persist records. Status transitions, retry rules and
+ * TTL handling live in IdempotencyGuard, so they behave the same on
+ * every backend. The one thing a backend must guarantee itself is an
+ * atomic compareAndSwap, which is what makes claims race-free.
+ */
+
+import * as path from 'path';
+import { JobRecord } from './IdempotencyGuard';
+import { MemoryJobStore } from './MemoryJobStore';
+import { FileJobStore } from './FileJobStore';
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Persistence backend for job records
+ */
+export interface JobStore {
+  /**
+   * Gets a job record
+   *
+   * @param id - Job identifier
+   * @returns Record or undefined if not found
+   */
+  get(id: string): Promise<JobRecord | undefined>;
+
+  /**
+   * Inserts or replaces a job record
+   *
+   * @param record - Record to store
+   */
+  put(record: JobRecord): Promise<void>;
+
+  /**
+   * Writes a record only if the stored version still matches
+   *
+   * This is the single atomic primitive the guard builds every status
+   * transition on: read a record, compute the next one, then swap it in
+   * only if nobody else wrote in between. Records without a version
+   * count as version 0.
+   *
+   * @param expectedVersion - Version the caller read, or null if the record must not exist yet
+   * @param record - Record to store (its version should be expectedVersion + 1)
+   * @returns true if the record was written, false if another writer got there first
+   */
+  compareAndSwap(expectedVersion: number | null, record: JobRecord): Promise<boolean>;
+
+  /**
+   * Deletes a job record
+   *
+   * @param id - Job identifier
+   * @param expectedVersion - When given, delete only if the stored version
+   *   still matches (same rule as compareAndSwap)
+   * @returns true if a record was deleted
+   */
+  delete(id: string, expectedVersion?: number): Promise<boolean>;
+
+  /**
+   * Lists all job records
+   *
+   * @returns Every stored record (no particular order)
+   */
+  list(): Promise<JobRecord[]>;
+}
+
+// ===========================================
+// Serialization
+// ===========================================
+
+/**
+ * Gets a record's version (records written before versioning count as 0)
+ *
+ * @param record - Stored record, if any
+ * @returns Version number, or null if there is no record
+ */
+export function getRecordVersion(record: JobRecord | undefined): number | null {
+  if (!record) return null;
+  return record.version ?? 0;
+}
+
+/**
+ * Top-level JobRecord fields holding Dates
+ */
+const DATE_FIELDS = ['createdAt', 'updatedAt', 'completedAt', 'leaseExpiresAt', 'nextRetryAt'];
+
+/**
+ * Parses a JSON-serialized job record, reviving its Date fields
+ *
+ * Only the record's own Date fields are revived, by position. Step
+ * results and stored contexts are opaque data: a createdAt inside a
+ * GitHub object there stays a string.
+ *
+ * @param json - Output of JSON.stringify(record)
+ * @returns Job record
+ */
+export function parseJobRecord(json: string): JobRecord {
+  const record = JSON.parse(json) as JobRecord;
+
+  for (const field of DATE_FIELDS) reviveDate(record, field);
+  for (const step of Object.values(record.steps ?? {})) reviveDate(step, 'recordedAt');
+  if (record.approval) {
+    reviveDate(record.approval, 'requestedAt');
+    if (record.approval.decision) reviveDate(record.approval.decision, 'decidedAt');
+  }
+
+  return record;
+}
+
+/**
+ * Replaces an ISO date string with a Date, in place
+ */
+function reviveDate(target: object, field: string): void {
+  const fields = target as Record<string, unknown>;
+  if (typeof fields[field] === 'string') {
+    fields[field] = new Date(fields[field] as string);
+  }
+}
+
+// ===========================================
+// Backend Selection
+// ===========================================
+
+/**
+ * Supported backends
+ */
+export type JobStoreType = 'memory' | 'file';
+
+/**
+ * Creates a job store from environment configuration
+ *
+ * Defaults to the file backend so deliveries survive restarts; tests
+ * (NODE_ENV=test) default to memory.
+ *
+ * @returns New JobStore instance
+ */
+export function createJobStore(): JobStore {
+  const defaultType: JobStoreType = process.env.NODE_ENV === 'test' ? 'memory' : 'file';
+  const type = (process.env.JOB_STORE || defaultType) as JobStoreType;
+
+  switch (type) {
+    case 'memory':
+      console.log('[JobStore] Using in-memory job store');
+      return new MemoryJobStore();
+
+    case 'file': {
+      const dir = path.resolve(process.env.JOB_STORE_PATH || './data/jobs');
+      console.log(`[JobStore] Using file job store: ${dir}`);
+      return new FileJobStore(dir);
+    }
+
+    default:
+      throw new Error(`Unknown JOB_STORE "${type}" (expected "memory" or "file")`);
+  }
+}
+
+/**
+ * Shared store, created on first use
+ */
+let defaultStore: JobStore | null = null;
+
+/**
+ * Gets the shared job store
+ *
+ * Every IdempotencyGuard created without an explicit store uses this
+ * instance, so guards created per request see the same records.
+ *
+ * @returns Shared JobStore
+ */
+export function getDefaultJobStore(): JobStore {
+  if (!defaultStore) {
+    defaultStore = createJobStore();
+  }
+  return defaultStore;
+}
@@ -0,0 +1,121 @@
+/**
+ * ===========================================
+ * Job Usage Tracker
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Record each LLM call's spend on the job record
+ * - Sum a repository's spend for the day from the job store
+ *
+ * INPUT:
+ * - Spend of LLM calls made by queued jobs
+ *
+ * OUTPUT:
+ * - Daily spend per repository for the budget checks in runAgent
+ * - A job's spend so far, for its next run
+ *
+ * ARCHITECTURE POSITION:
+ * Agent → Budget → [THIS: Job Usage Tracker] → Guard → Job Store
+ *
+ * KEY CONCEPT:
+ * The job records are the source of truth: spend is written to them as
+ * it happens, so it survives restarts and is seen by every instance
+ * sharing the store. Summing a day means reading every record, so each
+ * repository's total is cached and read again at most every
+ * DAILY_SPEND_REFRESH_MS; this instance's own calls are added to the
+ * cached total right away.
+ */
+
+import { BudgetUsage, UsageTracker, addSpend, toDay } from '../agent/budget';
+import { IdempotencyGuard, JobRecord, defaultGuard } from './IdempotencyGuard';
+
+// ===========================================
+// Constants
+// ===========================================
+
+/**
+ * How long a repository's daily total is served from the cache
+ */
+const DAILY_SPEND_REFRESH_MS = 60 * 1000;
+
+// ===========================================
+// Helpers
+// ===========================================
+
+/**
+ * Sums a job's spend over all days
+ *
+ * @param record - Job record
+ * @returns Tokens and cost of every run of the job so far
+ */
+export function getJobSpend(record: JobRecord | undefined): BudgetUsage {
+  return Object.values(record?.spend ?? {}).reduce<BudgetUsage>(
+    (total, day) => addSpend(total, day),
+    { totalTokens: 0, costUsd: 0 }
+  );
+}
+
+/**
+ * Gets the repository a job record belongs to
+ */
+function getRecordRepo(record: JobRecord): string | undefined {
+  const context = record.metadata?.context as { repository?: { fullName?: string } } | undefined;
+  return context?.repository?.fullName;
+}
+
+// ===========================================
+// JobUsageTracker Class
+// ===========================================
+
+/**
+ * UsageTracker backed by the job records of a guard
+ */
+export class JobUsageTracker implements UsageTracker {
+  private guard: IdempotencyGuard;
+  private cache = new Map<string, { day: string; usage: BudgetUsage; loadedAt: number }>();
+
+  /**
+   * Creates a tracker
+   *
+   * @param guard - Guard holding the job records
+   */
+  constructor(guard: IdempotencyGuard = defaultGuard) {
+    this.guard = guard;
+  }
+
+  async record(
+    jobId: string,
+    repoFullName: string,
+    tokens: number,
+    costUsd: number
+  ): Promise<void> {
+    const day = toDay(new Date());
+    if (!(await this.guard.recordSpend(jobId, day, tokens, costUsd))) {
+      console.warn(`[JobUsageTracker] Spend of unknown job ${jobId} not recorded`);
+    }
+
+    const cached = this.cache.get(repoFullName);
+    if (cached?.day === day) {
+      cached.usage = addSpend(cached.usage, { totalTokens: tokens, costUsd });
+    }
+  }
+
+  async get(repoFullName: string): Promise<BudgetUsage> {
+    const day = toDay(new Date());
+    const cached = this.cache.get(repoFullName);
+    if (cached?.day === day && Date.now() - cached.loadedAt < DAILY_SPEND_REFRESH_MS) {
+      return cached.usage;
+    }
+
+    let usage: BudgetUsage = { totalTokens: 0, costUsd: 0 };
+    for (const record of await this.guard.list()) {
+      const spent = record.spend?.[day];
+      if (spent && getRecordRepo(record) === repoFullName) {
+        usage = addSpend(usage, spent);
+      }
+    }
+
+    this.cache.set(repoFullName, { day, usage, loadedAt: Date.now() });
+    return usage;
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * ===========================================
+ * In-Memory Job Store
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Keep job records in a Map for tests and local experiments
+ *
+ * ARCHITECTURE POSITION:
+ * Guard → JobStore → [THIS]
+ *
+ * NOTE:
+ * Records are lost on restart and not shared between processes.
+ * Use FileJobStore when deliveries must survive a restart.
+ */
+
+import { JobRecord } from './IdempotencyGuard';
+import { JobStore, getRecordVersion, parseJobRecord } from './JobStore';
+
+/**
+ * Map-backed JobStore
+ *
+ * Records are copied on the way in and out so callers cannot mutate
+ * stored state without going through put().
+ */
+export class MemoryJobStore implements JobStore {
+  private records = new Map<string, JobRecord>();
+
+  async get(id: string): Promise<JobRecord | undefined> {
+    const record = this.records.get(id);
+    return record ? copyRecord(record) : undefined;
+  }
+
+  async put(record: JobRecord): Promise<void> {
+    this.records.set(record.id, copyRecord(record));
+  }
+
+  async compareAndSwap(expectedVersion: number | null, record: JobRecord): Promise<boolean> {
+    // Check and write happen in the same tick, so no other caller can interleave
+    if (getRecordVersion(this.records.get(record.id)) !== expectedVersion) {
+      return false;
+    }
+    this.records.set(record.id, copyRecord(record));
+    return true;
+  }
+
+  async delete(id: string, expectedVersion?: number): Promise<boolean> {
+    const record = this.records.get(id);
+    if (expectedVersion !== undefined && getRecordVersion(record) !== expectedVersion) {
+      return false;
+    }
+    return this.records.delete(id);
+  }
+
+  async list(): Promise<JobRecord[]> {
+    return Array.from(this.records.values()).map((record) => copyRecord(record));
+  }
+}
+
+/**
+ * Copies a record so stored state and caller state never share objects
+ */
+function copyRecord(record: JobRecord): JobRecord {
+  return parseJobRecord(JSON.stringify(record));
+}
@@ -0,0 +1,164 @@
+/**
+ * ===========================================
+ * Step Ledger
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Give every write tool call a deterministic step key
+ * - Record the result of each completed step on the job record
+ * - Replay recorded results instead of repeating side effects
+ *
+ * INPUT:
+ * - Job ID, tool name and tool arguments
+ *
+ * OUTPUT:
+ * - Tool results (fresh or replayed)
+ *
+ * ARCHITECTURE POSITION:
+ * Agent → [THIS: Step Ledger] → Tools (write tools only)
+ *
+ * KEY CONCEPT:
+ * Job idempotency stops a delivery from running twice; step idempotency
+ * makes a *retried* run safe. The key is a hash of:
+ *   job ID + tool name + canonical JSON of the arguments + occurrence
+ * where occurrence counts identical calls within the run (1st, 2nd, ...).
+ * A retry that repeats the same call therefore gets the recorded result
+ * back, while a run that deliberately makes the same call twice still
+ * executes it twice. If the model chooses different arguments on the
+ * retry (e.g. rewords a comment), the key differs and the call runs.
+ *
+ * Only successful calls are recorded: a call that threw may not have
+ * taken effect and is attempted again.
+ */
+
+import * as crypto from 'crypto';
+import { IdempotencyGuard, StepRecord, defaultGuard } from './IdempotencyGuard';
+
+// ===========================================
+// Step Keys
+// ===========================================
+
+/**
+ * Serializes a value as JSON with object keys sorted at every level
+ *
+ * @param value - JSON-compatible value
+ * @returns Canonical JSON string
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Computes the step key for a tool call
+ *
+ * @param jobId - Job the run belongs to
+ * @param toolName - Tool being called
+ * @param input - Tool arguments
+ * @param occurrence - 1-based count of identical calls in this run
+ * @returns Hex SHA-256 step key
+ */
+export function computeStepKey(
+  jobId: string,
+  toolName: string,
+  input: unknown,
+  occurrence: number
+): string {
+  return crypto
+    .createHash('sha256')
+    .update([jobId, toolName, canonicalJson(input), String(occurrence)].join('\n'))
+    .digest('hex');
+}
+
+// ===========================================
+// StepLedger Class
+// ===========================================
+
+/**
+ * Records and replays the side-effecting steps of one job
+ *
+ * Create one ledger per run; it counts call occurrences for that run.
+ *
+ * Usage:
+ * ```typescript
+ * const ledger = new StepLedger(deliveryId);
+ * const result = await ledger.run('github_createComment', input, () =>
+ *   createComment(input)
+ * );
+ * ```
+ */
+export class StepLedger {
+  private jobId: string;
+  private guard: IdempotencyGuard;
+  private occurrences = new Map<string, number>();
+
+  /**
+   * Creates a ledger for a job
+   *
+   * @param jobId - Job identifier (the delivery ID)
+   * @param guard - Guard holding the job record
+   */
+  constructor(jobId: string, guard: IdempotencyGuard = defaultGuard) {
+    this.jobId = jobId;
+    this.guard = guard;
+  }
+
+  /**
+   * Runs a step once per job, replaying the recorded result on retries
+   *
+   * @param toolName - Tool being called
+   * @param input - Tool arguments
+   * @param execute - Performs the side effect
+   * @returns Tool result (recorded or fresh)
+   */
+  async run(toolName: string, input: unknown, execute: () => Promise<unknown>): Promise<unknown> {
+    const key = this.nextKey(toolName, input);
+
+    const recorded = await this.guard.getStep(this.jobId, key);
+    if (recorded) {
+      console.log(`[StepLedger] Replaying recorded result for ${toolName} (step ${key.slice(0, 12)})`);
+      return recorded.result;
+    }
+
+    const result = await execute();
+
+    const step: StepRecord = {
+      key,
+      tool: toolName,
+      input,
+      result,
+      recordedAt: new Date(),
+    };
+    try {
+      await this.guard.recordStep(this.jobId, step);
+    } catch (error) {
+      // The side effect already happened; failing the run now would only
+      // make a retry repeat it
+      console.error(`[StepLedger] Could not record step ${key.slice(0, 12)} for ${toolName}:`, error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Computes the key for the next occurrence of a call
+   */
+  private nextKey(toolName: string, input: unknown): string {
+    const signature = `${toolName}\n${canonicalJson(input)}`;
+    const occurrence = (this.occurrences.get(signature) ?? 0) + 1;
+    this.occurrences.set(signature, occurrence);
+
+    return computeStepKey(this.jobId, toolName, input, occurrence);
+  }
+}
@@ -0,0 +1,470 @@
+/**
+ * ===========================================
+ * Agent Queue
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Run claimed deliveries through the Agent on the shared JobQueue
+ * - Keep the job lease alive from enqueue until the run finishes
+ * - Record the outcome in the IdempotencyGuard
+ * - Re-run failed jobs once their backoff delay has passed
+ * - Remove finished jobs and their run transcripts once they expire
+ * - Park runs that wait for approval and resume them once decided
+ *
+ * INPUT:
+ * - QUEUE_WORKERS: concurrent Agent runs (default 2)
+ * - QUEUE_PER_REPO_CONCURRENCY: concurrent runs per repository (default 1)
+ *
+ * ARCHITECTURE POSITION:
+ * Route → Guard → [THIS: Agent Queue] → Agent → Skills → Tools
+ */
+
+import { runAgent, AgentContext } from '../agent/runAgent';
+import {
+  ApprovalDecision,
+  PausedRunState,
+  ResumeState,
+  formatApprovalRequest,
+} from '../agent/approval';
+import { ToolCall } from '../llm/provider';
+import { createComment } from '../tools/github';
+import { IdempotencyGuard, JobRecord, defaultGuard } from './IdempotencyGuard';
+import { JobQueue, QueueJob } from './JobQueue';
+import { StepLedger } from './StepLedger';
+import { JobUsageTracker, getJobSpend } from './JobUsageTracker';
+import { TranscriptRecorder } from '../runs/TranscriptRecorder';
+import { TranscriptStore, getDefaultTranscriptStore } from '../runs/TranscriptStore';
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Payload of an Agent job
+ */
+export interface AgentJobPayload {
+  context: AgentContext;
+
+  /** Simulate write tools (see agent/dryRun) */
+  dryRun?: boolean;
+
+  /** Saved state and decision when continuing a run paused for approval */
+  resume?: ResumeState;
+
+  /** Lease the job was claimed under (read from the record when unset) */
+  leaseId?: string;
+}
+
+/**
+ * What the job record keeps so the job can be re-run without GitHub
+ * redelivering the webhook
+ */
+export interface AgentJobMetadata {
+  eventType: string;
+  context: AgentContext;
+  dryRun?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * Queue priority per trigger: a human waiting on a comment reply goes
+ * first, pushes (usually automation) go last
+ */
+export const EVENT_PRIORITY: Record<string, number> = {
+  issue_comment: 10,
+  issues: 5,
+  pull_request: 5,
+  push: 0,
+};
+
+// ===========================================
+// Processing
+// ===========================================
+
+/**
+ * Lease heartbeats of enqueued jobs, stopped when the job finishes
+ */
+const heartbeats = new Map<string, () => void>();
+
+/**
+ * Spend trackers per guard, so each keeps its cache of daily totals
+ */
+const usageTrackers = new WeakMap<IdempotencyGuard, JobUsageTracker>();
+
+/**
+ * Gets the spend tracker of a guard
+ */
+function getUsageTracker(guard: IdempotencyGuard): JobUsageTracker {
+  let tracker = usageTrackers.get(guard);
+  if (!tracker) {
+    tracker = new JobUsageTracker(guard);
+    usageTrackers.set(guard, tracker);
+  }
+  return tracker;
+}
+
+/**
+ * Runs one Agent job and records the outcome
+ *
+ * The job must already be claimed (guard.claim / isDuplicate returned
+ * false). An unsuccessful AgentResult counts as a failure, so the
+ * delivery stays retryable. Write tools run through a StepLedger, so a
+ * retry replays the side effects an earlier attempt already performed.
+ * A run that stopped for approval parks the job and asks for a decision.
+ * LLM spend is recorded on the job record, and the spend of earlier runs
+ * counts against the run budget.
+ *
+ * The outcome is recorded under the lease the job held when the worker
+ * started: if the lease ran out and the job was claimed again meanwhile,
+ * this run's outcome is dropped instead of overwriting the newer claim.
+ *
+ * @param job - Queued Agent job
+ * @param guard - Guard holding the job record
+ */
+export async function processAgentJob(
+  job: QueueJob<AgentJobPayload>,
+  guard: IdempotencyGuard = defaultGuard
+): Promise<void> {
+  let leaseId: string | undefined;
+  try {
+    const record = await guard.getStatus(job.id);
+    leaseId = job.payload.leaseId ?? record?.leaseId;
+
+    const result = await runAgent(job.payload.context, {
+      stepLedger: new StepLedger(job.id, guard),
+      transcript: new TranscriptRecorder(job.id),
+      usageTracker: getUsageTracker(guard),
+      previousUsage: getJobSpend(record),
+      dryRun: job.payload.dryRun,
+      resume: job.payload.resume,
+    });
+    if (!result.success) {
+      // Rethrow the original error when there is one so its status reaches the retry policy
+      throw result.cause instanceof Error
+        ? result.cause
+        : new Error(result.error || 'Agent run failed');
+    }
+
+    if (result.awaitingApproval) {
+      const { toolCall, state } = result.awaitingApproval;
+      const parked = await guard.markAwaitingApproval(
+        job.id,
+        { tool: toolCall.name, input: toolCall.input, state },
+        leaseId
+      );
+      if (parked) {
+        await postApprovalRequest(job.id, job.payload.context, toolCall);
+      }
+      return;
+    }
+
+    if (!(await guard.markComplete(job.id, leaseId))) {
+      console.warn(`[AgentQueue] Outcome of job ${job.id} dropped: cancelled or claimed again`);
+      return;
+    }
+    console.log(`[AgentQueue] Agent completed for job: ${job.id}`);
+
+    // Not a failure: a retry would only spend more of the same budget
+    if (result.budgetExceeded) {
+      console.warn(`[AgentQueue] Job ${job.id} stopped early: ${result.budgetExceeded}`);
+    }
+
+    if (result.ignored) {
+      console.log(`[AgentQueue] Job ${job.id} skipped: ${result.ignored}`);
+    }
+
+    if (result.plannedActions) {
+      console.log(
+        `[AgentQueue] Dry run planned ${result.plannedActions.length} action(s) for job ${job.id}:`,
+        result.plannedActions.map((action) => action.tool)
+      );
+    }
+  } catch (error) {
+    console.error(`[AgentQueue] Agent failed for job: ${job.id}`, error);
+    await guard.markFailed(job.id, error as Error, leaseId);
+  }
+}
+
+/**
+ * Asks for approval on the triggering issue or pull request
+ *
+ * Jobs without one (e.g. pushes) are decided through the jobs API only.
+ *
+ * @param jobId - Paused job
+ * @param context - Trigger context
+ * @param toolCall - Call waiting for approval
+ */
+async function postApprovalRequest(
+  jobId: string,
+  context: AgentContext,
+  toolCall: ToolCall
+): Promise<void> {
+  const issueNumber = context.issue?.number ?? context.pullRequest?.number;
+  if (issueNumber === undefined) {
+    console.log(`[AgentQueue] Job ${jobId} awaits approval via POST /jobs/${jobId}/approve`);
+    return;
+  }
+
+  try {
+    await createComment({
+      owner: context.repository.owner,
+      repo: context.repository.name,
+      issueNumber,
+      body: formatApprovalRequest(toolCall, jobId),
+    });
+    console.log(`[AgentQueue] Requested approval of ${toolCall.name} on #${issueNumber}`);
+  } catch (error) {
+    // The job stays parked; it can still be decided through the jobs API
+    console.error(`[AgentQueue] Could not post approval request for job ${jobId}:`, error);
+  }
+}
+
+/**
+ * Rebuilds the resume state of a job whose approval was decided
+ *
+ * @param record - Job record
+ * @returns Resume state, or undefined if the job has no decided approval
+ */
+export function getResumeState(record: JobRecord): ResumeState | undefined {
+  const decision = record.approval?.decision;
+  if (!decision) return undefined;
+
+  return {
+    ...(record.approval!.state as PausedRunState),
+    decision: { approved: decision.approved, by: decision.by, reason: decision.reason },
+  };
+}
+
+/**
+ * Queues a claimed delivery for the Agent
+ *
+ * The lease heartbeat starts here rather than when a worker picks the
+ * job up, so a job waiting behind a backlog is not mistaken for a
+ * crashed one.
+ *
+ * @param context - Parsed trigger context (deliveryId is the job ID)
+ * @param eventType - Trigger event, used for the queue priority
+ * @param options - dryRun: simulate write tools; resume: continue a paused run;
+ *   leaseId: lease of the claim, the only one the heartbeat renews
+ */
+export function enqueueAgentJob(
+  context: AgentContext,
+  eventType: string,
+  options: { dryRun?: boolean; resume?: ResumeState; leaseId?: string } = {}
+): void {
+  const jobId = context.deliveryId;
+
+  heartbeats.set(jobId, defaultGuard.startHeartbeat(jobId, options.leaseId));
+
+  getAgentQueue().enqueue({
+    id: jobId,
+    repo: context.repository.fullName,
+    priority: EVENT_PRIORITY[eventType] ?? 0,
+    payload: {
+      context,
+      dryRun: options.dryRun,
+      resume: options.resume,
+      leaseId: options.leaseId,
+    },
+  });
+}
+
+/**
+ * Drops a job from the queue if it has not started yet
+ *
+ * Call after guard.cancel(); a job that is already running keeps going
+ * (its outcome is discarded by the guard).
+ *
+ * @param jobId - Job identifier
+ * @returns true if the job was still waiting in the queue
+ */
+export function dequeueAgentJob(jobId: string): boolean {
+  const removed = getAgentQueue().remove(jobId);
+  if (removed) {
+    heartbeats.get(jobId)?.();
+    heartbeats.delete(jobId);
+  }
+  return removed;
+}
+
+/**
+ * Re-enqueues failed jobs whose backoff delay has passed
+ *
+ * Each due job is claimed first, so a retry racing with a GitHub
+ * redelivery (or another instance's scheduler) runs only once. Jobs
+ * claimed without a stored context cannot be rebuilt and are marked
+ * failed again.
+ *
+ * @param guard - Guard holding the job records
+ * @returns Number of jobs re-enqueued
+ */
+export async function retryDueJobs(guard: IdempotencyGuard = defaultGuard): Promise<number> {
+  let retried = 0;
+
+  for (const record of await guard.getDueRetries()) {
+    if (!(await guard.claim(record.id))) continue;
+    const leaseId = (await guard.getStatus(record.id))?.leaseId;
+
+    const metadata = record.metadata as Partial<AgentJobMetadata> | undefined;
+    if (!metadata?.context || !metadata.eventType) {
+      await guard.markFailed(
+        record.id,
+        new TypeError(`Job ${record.id} has no stored context to retry from`)
+      );
+      continue;
+    }
+
+    console.log(`[AgentQueue] Retrying job ${record.id} (attempt ${record.attempts + 1})`);
+    enqueueAgentJob(metadata.context, metadata.eventType, {
+      dryRun: metadata.dryRun,
+      resume: getResumeState(record),
+      leaseId,
+    });
+    retried++;
+  }
+
+  return retried;
+}
+
+/**
+ * How long a transcript is kept after its last write (the guard's default TTL)
+ */
+const TRANSCRIPT_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Removes expired job records and the transcripts of removed jobs
+ *
+ * A transcript goes once it has not been written for TRANSCRIPT_TTL and
+ * its job record is gone, so runs of a job still waiting for a retry or
+ * a decision are kept however old they are.
+ *
+ * @param guard - Guard holding the job records
+ * @param transcripts - Store holding the run transcripts
+ * @returns Number of job records and transcripts removed
+ */
+export async function cleanupFinishedJobs(
+  guard: IdempotencyGuard = defaultGuard,
+  transcripts: TranscriptStore = getDefaultTranscriptStore()
+): Promise<{ jobs: number; transcripts: number }> {
+  const jobs = await guard.cleanup();
+  let removed = 0;
+
+  for (const jobId of await transcripts.listStale(new Date(Date.now() - TRANSCRIPT_TTL))) {
+    if (await guard.getStatus(jobId)) continue;
+    if (await transcripts.delete(jobId)) removed++;
+  }
+
+  console.log(`[AgentQueue] Removed ${jobs} expired jobs and ${removed} transcripts`);
+  return { jobs, transcripts: removed };
+}
+
+// ===========================================
+// Approvals
+// ===========================================
+
+/**
+ * Finds the job waiting for approval on an issue or pull request
+ *
+ * If several runs wait on the same thread, the most recent request wins:
+ * that is the one a reply most likely answers.
+ *
+ * @param repoFullName - "owner/repo"
+ * @param issueNumber - Issue or pull request number
+ * @param guard - Guard holding the job records
+ * @returns Job record, or undefined if nothing is waiting there
+ */
+export async function findAwaitingApproval(
+  repoFullName: string,
+  issueNumber: number,
+  guard: IdempotencyGuard = defaultGuard
+): Promise<JobRecord | undefined> {
+  const waiting = (await guard.list()).filter((record) => {
+    const context = (record.metadata as Partial<AgentJobMetadata> | undefined)?.context;
+    return (
+      record.status === 'awaiting_approval' &&
+      context?.repository.fullName === repoFullName &&
+      (context.issue?.number ?? context.pullRequest?.number) === issueNumber
+    );
+  });
+
+  return waiting.sort(
+    (a, b) => (b.approval?.requestedAt.getTime() ?? 0) - (a.approval?.requestedAt.getTime() ?? 0)
+  )[0];
+}
+
+/**
+ * Records a decision on a paused job and queues the resumed run
+ *
+ * @param jobId - Job awaiting approval
+ * @param decision - Approved or rejected, by whom and why
+ * @param guard - Guard holding the job record
+ * @returns false if the job was not awaiting approval (already decided,
+ *          cancelled or unknown)
+ */
+export async function resumeAgentJob(
+  jobId: string,
+  decision: ApprovalDecision,
+  guard: IdempotencyGuard = defaultGuard
+): Promise<boolean> {
+  const record = await guard.resolveApproval(jobId, decision);
+  if (!record) return false;
+
+  const metadata = record.metadata as Partial<AgentJobMetadata> | undefined;
+  if (!metadata?.context || !metadata.eventType) {
+    await guard.markFailed(jobId, new TypeError(`Job ${jobId} has no stored context to resume`));
+    return true;
+  }
+
+  console.log(`[AgentQueue] Resuming job ${jobId} (${decision.approved ? 'approved' : 'rejected'})`);
+  enqueueAgentJob(metadata.context, metadata.eventType, {
+    dryRun: metadata.dryRun,
+    resume: getResumeState(record),
+    leaseId: record.leaseId,
+  });
+  return true;
+}
+
+// ===========================================
+// Shared Queue
+// ===========================================
+
+/**
+ * Shared queue, created on first use
+ */
+let agentQueue: JobQueue<AgentJobPayload> | null = null;
+
+/**
+ * Reads a positive integer from the environment
+ */
+function readPositiveInt(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Gets the shared Agent queue
+ *
+ * @returns Queue configured from QUEUE_WORKERS / QUEUE_PER_REPO_CONCURRENCY
+ */
+export function getAgentQueue(): JobQueue<AgentJobPayload> {
+  if (!agentQueue) {
+    agentQueue = new JobQueue<AgentJobPayload>(async (job) => {
+      try {
+        await processAgentJob(job);
+      } finally {
+        heartbeats.get(job.id)?.();
+        heartbeats.delete(job.id);
+      }
+    }, {
+      workers: readPositiveInt('QUEUE_WORKERS', 2),
+      perRepoConcurrency: readPositiveInt('QUEUE_PER_REPO_CONCURRENCY', 1),
+    });
+  }
+  return agentQueue;
+}
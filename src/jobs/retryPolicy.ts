@@ -0,0 +1,149 @@
+/**
+ * ===========================================
+ * Retry Policy
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Decide whether a failed run is worth retrying
+ * - Compute the delay before the next attempt
+ *
+ * ARCHITECTURE POSITION:
+ * Guard → [THIS: Retry Policy]
+ *
+ * KEY CONCEPT:
+ * Transient errors (rate limits, 5xx from the LLM or GitHub, dropped
+ * connections) usually go away on their own, so they are retried with
+ * exponential backoff. Permanent errors (bad credentials, 404, invalid
+ * requests, bugs) fail the same way every time and go straight to the
+ * dead-letter state.
+ */
+
+// ===========================================
+// Error Classification
+// ===========================================
+
+/**
+ * Error that fails the same way on every attempt (e.g. an invalid
+ * .github/agent.yml), so the job is dead-lettered without retries
+ */
+export class PermanentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentError';
+  }
+}
+
+/**
+ * HTTP statuses worth retrying below 500
+ */
+const TRANSIENT_CLIENT_STATUSES = new Set([408, 425, 429]);
+
+/**
+ * Node/undici network error codes that indicate a dropped or refused connection
+ */
+const TRANSIENT_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+/**
+ * Message patterns for errors that only survive as text
+ * (e.g. "502 Bad Gateway" from the LLM SDKs)
+ */
+const TRANSIENT_MESSAGE_PATTERN =
+  /^(429|5\d\d)\b|\((429|5\d\d)\)|rate limit|overloaded|timed? ?out|socket hang up|ECONNRESET|ETIMEDOUT/i;
+
+/**
+ * Message patterns for client errors that will not change on retry
+ */
+const PERMANENT_MESSAGE_PATTERN = /^4\d\d\b|\(4\d\d\)/;
+
+/**
+ * Reads an HTTP status from SDK errors (OpenAI/Anthropic use `status`,
+ * some clients use `statusCode`)
+ */
+function getErrorStatus(error: unknown): number | undefined {
+  if (typeof error !== 'object' || error === null) return undefined;
+
+  const { status, statusCode } = error as { status?: unknown; statusCode?: unknown };
+  if (typeof status === 'number') return status;
+  if (typeof statusCode === 'number') return statusCode;
+  return undefined;
+}
+
+/**
+ * Classifies an error as transient (retry) or permanent (dead-letter)
+ *
+ * Order: PermanentError, HTTP status, network error code, the error's
+ * cause, then the message text. Programming errors (TypeError etc.) are permanent;
+ * anything else unrecognized is treated as transient, since maxAttempts
+ * still bounds the retries.
+ *
+ * @param error - Error from a failed run
+ * @returns true if retrying may succeed
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof PermanentError) return false;
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return status >= 500 || TRANSIENT_CLIENT_STATUSES.has(status);
+  }
+
+  if (!(error instanceof Error)) return true;
+
+  const code = (error as NodeJS.ErrnoException).code;
+  if (code && TRANSIENT_ERROR_CODES.has(code)) return true;
+
+  if (error.cause !== undefined) {
+    return isTransientError(error.cause);
+  }
+
+  if (TRANSIENT_MESSAGE_PATTERN.test(error.message)) return true;
+  if (PERMANENT_MESSAGE_PATTERN.test(error.message)) return false;
+
+  if (
+    error instanceof TypeError ||
+    error instanceof ReferenceError ||
+    error instanceof SyntaxError ||
+    error instanceof RangeError
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+// ===========================================
+// Backoff
+// ===========================================
+
+/**
+ * Computes the delay before the next attempt
+ *
+ * Exponential backoff (baseDelay × 2^(attempt-1), capped at maxDelay)
+ * with "equal jitter": half of the delay is fixed, the other half random,
+ * so retries of jobs that failed together spread out.
+ *
+ * @param attempt - Number of attempts made so far (1 after the first failure)
+ * @param baseDelay - Delay after the first failure (milliseconds)
+ * @param maxDelay - Upper bound (milliseconds)
+ * @param random - Random source in [0, 1), injectable for tests
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(
+  attempt: number,
+  baseDelay: number,
+  maxDelay: number,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(maxDelay, baseDelay * 2 ** Math.max(0, attempt - 1));
+  const half = exponential / 2;
+  return Math.round(half + random() * half);
+}
@@ -0,0 +1,205 @@
+/**
+ * ===========================================
+ * Anthropic LLM Provider
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Call the Anthropic Messages API directly
+ * - Map neutral messages to content blocks (text, tool_use, tool_result)
+ * - Map stop_reason to the neutral stop reason
+ *
+ * ARCHITECTURE POSITION:
+ * Agent → LLM Provider → [THIS] → Anthropic Messages API
+ *
+ * KEY CONCEPT:
+ * The Messages API requires strictly alternating user/assistant turns.
+ * Tool results are user-turn content blocks, so consecutive tool results
+ * (and any following user text) are merged into a single user message.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { ToolDefinition } from '../agent/toolRegistry';
+import {
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMMessage,
+  ProviderName,
+  StopReason,
+  ToolCall,
+} from './provider';
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Options for the Anthropic provider
+ */
+export interface AnthropicOptions {
+  apiKey?: string;
+  model: string;
+}
+
+// ===========================================
+// Format Conversion
+// ===========================================
+
+/**
+ * Converts our tool definitions to Anthropic tools (same schema format)
+ */
+export function toAnthropicTools(tools: ToolDefinition[]): Anthropic.Tool[] {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.input_schema,
+  }));
+}
+
+/**
+ * Converts neutral messages to Anthropic messages
+ *
+ * Consecutive messages mapping to the same role are merged, and empty
+ * text blocks are dropped (the API rejects them).
+ *
+ * @param messages - Neutral conversation history
+ * @returns Alternating Anthropic messages
+ */
+export function toAnthropicMessages(messages: LLMMessage[]): Anthropic.MessageParam[] {
+  const result: Array<{ role: 'user' | 'assistant'; content: Anthropic.ContentBlockParam[] }> = [];
+
+  const append = (role: 'user' | 'assistant', blocks: Anthropic.ContentBlockParam[]): void => {
+    if (blocks.length === 0) return;
+    const last = result[result.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      result.push({ role, content: blocks });
+    }
+  };
+
+  for (const message of messages) {
+    if (message.role === 'user') {
+      append('user', message.content ? [{ type: 'text', text: message.content }] : []);
+    } else if (message.role === 'assistant') {
+      const blocks: Anthropic.ContentBlockParam[] = [];
+      if (message.content) {
+        blocks.push({ type: 'text', text: message.content });
+      }
+      for (const tc of message.toolCalls || []) {
+        blocks.push({ type: 'tool_use', id: tc.id, name: tc.name, input: tc.input });
+      }
+      append('assistant', blocks);
+    } else {
+      append('user', [
+        {
+          type: 'tool_result',
+          tool_use_id: message.toolCallId,
+          content: message.content,
+          ...(message.isError ? { is_error: true } : {}),
+        },
+      ]);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Maps an Anthropic stop_reason to the neutral stop reason
+ */
+export function mapStopReason(stopReason: Anthropic.StopReason | null): StopReason {
+  switch (stopReason) {
+    case 'end_turn':
+    case 'stop_sequence':
+    case null:
+      return 'end_turn';
+    case 'tool_use':
+      return 'tool_use';
+    case 'max_tokens':
+      return 'max_tokens';
+    default:
+      return 'other';
+  }
+}
+
+/**
+ * Extracts text, tool calls, stop reason and usage from a Messages API response
+ *
+ * @param response - Anthropic message
+ * @returns Normalized response
+ */
+export function fromAnthropicResponse(response: Anthropic.Message): LLMResponse {
+  const textParts: string[] = [];
+  const toolCalls: ToolCall[] = [];
+
+  for (const block of response.content) {
+    if (block.type === 'text') {
+      textParts.push(block.text);
+    } else if (block.type === 'tool_use') {
+      toolCalls.push({
+        id: block.id,
+        name: block.name,
+        input: (block.input as Record<string, unknown>) || {},
+      });
+    }
+  }
+
+  return {
+    content: textParts.join('\n'),
+    toolCalls,
+    stopReason: mapStopReason(response.stop_reason),
+    ...(response.usage && {
+      usage: {
+        promptTokens: response.usage.input_tokens,
+        completionTokens: response.usage.output_tokens,
+      },
+    }),
+  };
+}
+
+// ===========================================
+// Provider
+// ===========================================
+
+/**
+ * LLM provider for the native Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name: ProviderName = 'anthropic';
+  readonly model: string;
+  private options: AnthropicOptions;
+  private client: Anthropic | null = null;
+
+  /**
+   * Creates a provider (the HTTP client is created on first use)
+   *
+   * @param options - Credentials and model
+   */
+  constructor(options: AnthropicOptions) {
+    this.model = options.model;
+    this.options = options;
+  }
+
+  /**
+   * Lazy client initialization to ensure env vars are loaded
+   */
+  private getClient(): Anthropic {
+    if (!this.client) {
+      this.client = new Anthropic({ apiKey: this.options.apiKey });
+    }
+    return this.client;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.getClient().messages.create({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      system: request.systemPrompt,
+      messages: toAnthropicMessages(request.messages),
+      ...(request.tools.length > 0 ? { tools: toAnthropicTools(request.tools) } : {}),
+    });
+
+    return fromAnthropicResponse(response);
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * ===========================================
+ * OpenAI-Compatible LLM Provider
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Call any OpenAI Chat Completions compatible endpoint
+ *   (OpenRouter, OpenAI, vLLM, Ollama, ...)
+ * - Map neutral messages to chat messages with tool_calls / tool roles
+ * - Map finish_reason to the neutral stop reason
+ * - Parse tool-call arguments without letting bad JSON fail the run
+ *
+ * ARCHITECTURE POSITION:
+ * Agent → LLM Provider → [THIS] → Chat Completions API
+ */
+
+import OpenAI from 'openai';
+import { ToolDefinition } from '../agent/toolRegistry';
+import {
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMMessage,
+  ProviderName,
+  StopReason,
+  ToolCall,
+} from './provider';
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Options for an OpenAI-compatible provider
+ */
+export interface OpenAICompatibleOptions {
+  name: ProviderName;
+  baseURL?: string;
+  apiKey?: string;
+  model: string;
+  defaultHeaders?: Record<string, string>;
+}
+
+// ===========================================
+// Format Conversion
+// ===========================================
+
+/**
+ * Converts our tool definitions to OpenAI function format
+ */
+export function toOpenAITools(tools: ToolDefinition[]): OpenAI.ChatCompletionTool[] {
+  return tools.map((tool) => ({
+    type: 'function' as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.input_schema,
+    },
+  }));
+}
+
+/**
+ * Converts neutral messages to Chat Completions messages
+ *
+ * @param systemPrompt - System instructions
+ * @param messages - Neutral conversation history
+ * @returns Chat Completions messages (system message first)
+ */
+export function toOpenAIMessages(
+  systemPrompt: string,
+  messages: LLMMessage[]
+): OpenAI.ChatCompletionMessageParam[] {
+  const result: OpenAI.ChatCompletionMessageParam[] = [
+    { role: 'system', content: systemPrompt },
+  ];
+
+  for (const message of messages) {
+    if (message.role === 'user') {
+      result.push({ role: 'user', content: message.content });
+    } else if (message.role === 'assistant') {
+      if (message.toolCalls && message.toolCalls.length > 0) {
+        result.push({
+          role: 'assistant',
+          content: message.content || null,
+          tool_calls: message.toolCalls.map((tc) => ({
+            id: tc.id,
+            type: 'function' as const,
+            function: {
+              name: tc.name,
+              arguments: JSON.stringify(tc.input),
+            },
+          })),
+        });
+      } else {
+        result.push({ role: 'assistant', content: message.content });
+      }
+    } else {
+      result.push({
+        role: 'tool',
+        tool_call_id: message.toolCallId,
+        content: message.content,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Maps an OpenAI finish_reason to the neutral stop reason
+ */
+export function mapFinishReason(finishReason: string | null | undefined): StopReason {
+  switch (finishReason) {
+    case 'stop':
+    case null:
+    case undefined:
+      return 'end_turn';
+    case 'tool_calls':
+    case 'function_call':
+      return 'tool_use';
+    case 'length':
+      return 'max_tokens';
+    default:
+      return 'other';
+  }
+}
+
+/**
+ * Parses the JSON arguments of a function call
+ *
+ * Models occasionally send truncated or otherwise invalid JSON. That
+ * must not fail the whole response: the call keeps an empty input and a
+ * parse error, and the agent answers it with a tool error.
+ *
+ * @param raw - Arguments string from the model
+ * @returns Parsed input, or an empty input and the parse error
+ */
+export function parseArguments(raw: string): Pick<ToolCall, 'input' | 'parseError'> {
+  try {
+    const input: unknown = JSON.parse(raw || '{}');
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      return { input: {}, parseError: 'arguments must be a JSON object' };
+    }
+    return { input: input as Record<string, unknown> };
+  } catch (error) {
+    return { input: {}, parseError: `arguments are not valid JSON: ${(error as Error).message}` };
+  }
+}
+
+/**
+ * Extracts text, tool calls, stop reason and usage from a completion
+ *
+ * @param response - Chat Completions response
+ * @returns Normalized response
+ */
+export function fromOpenAIResponse(response: OpenAI.ChatCompletion): LLMResponse {
+  const choice = response.choices[0];
+  const message = choice.message;
+  const toolCalls: ToolCall[] = [];
+
+  if (message.tool_calls) {
+    for (const tc of message.tool_calls) {
+      if (tc.type === 'function') {
+        toolCalls.push({
+          id: tc.id,
+          name: tc.function.name,
+          ...parseArguments(tc.function.arguments),
+        });
+      }
+    }
+  }
+
+  return {
+    content: message.content || '',
+    toolCalls,
+    stopReason: mapFinishReason(choice.finish_reason),
+    ...(response.usage && {
+      usage: {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+      },
+    }),
+  };
+}
+
+// ===========================================
+// Provider
+// ===========================================
+
+/**
+ * LLM provider for OpenAI-compatible Chat Completions endpoints
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  private options: OpenAICompatibleOptions;
+  private client: OpenAI | null = null;
+
+  /**
+   * Creates a provider (the HTTP client is created on first use)
+   *
+   * @param options - Endpoint, credentials and model
+   */
+  constructor(options: OpenAICompatibleOptions) {
+    this.name = options.name;
+    this.model = options.model;
+    this.options = options;
+  }
+
+  /**
+   * Lazy client initialization to ensure env vars are loaded
+   */
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        baseURL: this.options.baseURL,
+        apiKey: this.options.apiKey,
+        defaultHeaders: this.options.defaultHeaders,
+      });
+    }
+    return this.client;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.getClient().chat.completions.create({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      messages: toOpenAIMessages(request.systemPrompt, request.messages),
+      ...(request.tools.length > 0
+        ? { tools: toOpenAITools(request.tools), tool_choice: 'auto' as const }
+        : {}),
+    });
+
+    return fromOpenAIResponse(response);
+  }
+}
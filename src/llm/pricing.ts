@@ -0,0 +1,123 @@
+/**
+ * ===========================================
+ * Model Pricing
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Hold the price per million prompt and completion tokens of each model
+ * - Convert token usage into US dollars
+ *
+ * INPUT:
+ * - LLM_PRICES: JSON map of model name to { "prompt": n, "completion": n }
+ *   (USD per million tokens), merged over the built-in table
+ *
+ * OUTPUT:
+ * - Cost of an LLM call in USD
+ *
+ * ARCHITECTURE POSITION:
+ * Agent → [THIS: Pricing] (after each LLM Provider call)
+ *
+ * KEY CONCEPT:
+ * Prices are looked up by the exact model name the provider was
+ * configured with, so OpenRouter names ("anthropic/claude-sonnet-4") and
+ * native names ("claude-sonnet-4-20250514") are separate entries. A model
+ * without a price costs 0: its tokens still count, only dollar budgets
+ * cannot see it.
+ */
+
+import { LLMUsage } from './provider';
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+/**
+ * Built-in prices for the default models of each provider
+ */
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'anthropic/claude-sonnet-4': { prompt: 3, completion: 15 },
+  'anthropic/claude-opus-4': { prompt: 15, completion: 75 },
+  'claude-sonnet-4-20250514': { prompt: 3, completion: 15 },
+  'claude-opus-4-20250514': { prompt: 15, completion: 75 },
+  'openai/gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+};
+
+/**
+ * Models already reported as unpriced, to warn once per model
+ */
+const warnedModels = new Set<string>();
+
+// ===========================================
+// Configuration
+// ===========================================
+
+/**
+ * Reads the price table (built-in prices plus LLM_PRICES)
+ *
+ * @returns Prices by model name
+ * @throws Error if LLM_PRICES is not valid JSON or has invalid entries
+ */
+export function getPriceTable(): Record<string, ModelPrice> {
+  const raw = process.env.LLM_PRICES;
+  if (!raw) return { ...DEFAULT_PRICES };
+
+  let overrides: Record<string, unknown>;
+  try {
+    overrides = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`LLM_PRICES is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const table = { ...DEFAULT_PRICES };
+  for (const [model, price] of Object.entries(overrides)) {
+    const { prompt, completion } = (price ?? {}) as Partial<ModelPrice>;
+    if (!isPrice(prompt) || !isPrice(completion)) {
+      throw new Error(
+        `LLM_PRICES["${model}"] must be { "prompt": number, "completion": number } (USD per million tokens)`
+      );
+    }
+    table[model] = { prompt, completion };
+  }
+
+  return table;
+}
+
+/**
+ * Checks for a finite, non-negative price
+ */
+function isPrice(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+// ===========================================
+// Cost Calculation
+// ===========================================
+
+/**
+ * Converts the usage of one LLM call into US dollars
+ *
+ * @param model - Model name the provider was configured with
+ * @param usage - Prompt and completion tokens
+ * @returns Cost in USD (0 for models without a price)
+ */
+export function calculateCost(model: string, usage: LLMUsage): number {
+  const price = getPriceTable()[model];
+  if (!price) {
+    if (!warnedModels.has(model)) {
+      warnedModels.add(model);
+      console.warn(`[Pricing] No price for model "${model}"; add it to LLM_PRICES to track cost`);
+    }
+    return 0;
+  }
+
+  return (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1_000_000;
+}
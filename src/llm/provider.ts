@@ -0,0 +1,269 @@
+/**
+ * ===========================================
+ * LLM Provider Abstraction
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Define a provider-neutral message, tool call and response format
+ * - Select the LLM backend (OpenRouter, Anthropic, OpenAI-compatible)
+ *   from env or per-repository overrides
+ * - Cache provider instances so clients are created once
+ *
+ * INPUT:
+ * - System prompt, conversation history, tool definitions
+ *
+ * OUTPUT:
+ * - Normalized response: text, tool calls, stop reason, token usage
+ *
+ * ARCHITECTURE POSITION:
+ * Agent → [THIS: LLM Provider] → LLM API
+ *
+ * KEY CONCEPT:
+ * The agent loop only speaks the neutral format defined here. Each
+ * provider maps it to its wire format (content blocks, tool_use /
+ * tool_result, function calls) and maps stop reasons back.
+ */
+
+import { ToolDefinition } from '../agent/toolRegistry';
+import { AnthropicProvider } from './anthropic';
+import { OpenAICompatibleProvider } from './openaiCompatible';
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Tool call requested by the model
+ */
+export interface ToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+
+  /**
+   * Set when the arguments the model sent could not be parsed; `input`
+   * is then empty and the call is answered with an error
+   */
+  parseError?: string;
+}
+
+/**
+ * Message in the conversation history (provider-neutral)
+ */
+export type LLMMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string; isError?: boolean };
+
+/**
+ * Why the model stopped generating
+ *
+ * - end_turn: the model finished its answer
+ * - tool_use: the model is waiting for tool results
+ * - max_tokens: output was cut off by the token limit
+ * - other: refusal, content filter or an unknown reason
+ */
+export type StopReason = 'end_turn' | 'tool_use' | 'max_tokens' | 'other';
+
+/**
+ * Request to an LLM provider
+ */
+export interface LLMRequest {
+  systemPrompt: string;
+  messages: LLMMessage[];
+  tools: ToolDefinition[];
+  maxTokens: number;
+}
+
+/**
+ * Tokens billed for one completion
+ */
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Normalized LLM response
+ */
+export interface LLMResponse {
+  content: string;
+  toolCalls: ToolCall[];
+  stopReason: StopReason;
+
+  /** Token counts, when the backend reports them */
+  usage?: LLMUsage;
+}
+
+/**
+ * A backend able to run one LLM turn
+ */
+export interface LLMProvider {
+  /** Provider identifier (e.g. 'openrouter') */
+  readonly name: ProviderName;
+
+  /** Model used for completions */
+  readonly model: string;
+
+  /**
+   * Runs one completion turn
+   *
+   * @param request - Prompt, history and tools
+   * @returns Normalized response
+   */
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+/**
+ * Supported providers
+ */
+export const PROVIDER_NAMES = ['openrouter', 'anthropic', 'openai-compatible'] as const;
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+/**
+ * Provider selection (provider + optional model override)
+ */
+export interface ProviderConfig {
+  provider: ProviderName;
+  model?: string;
+}
+
+// ===========================================
+// Configuration
+// ===========================================
+
+/**
+ * Default model per provider when none is configured
+ */
+function getDefaultModel(provider: ProviderName): string {
+  switch (provider) {
+    case 'anthropic':
+      return process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-20250514';
+    case 'openai-compatible':
+      return process.env.LLM_MODEL || 'gpt-4o';
+    case 'openrouter':
+    default:
+      return process.env.OPENROUTER_MODEL || 'anthropic/claude-sonnet-4';
+  }
+}
+
+/**
+ * Parses a provider name, rejecting unknown values
+ */
+function parseProviderName(value: string, source: string): ProviderName {
+  if (!PROVIDER_NAMES.includes(value as ProviderName)) {
+    throw new Error(
+      `Unknown LLM provider "${value}" in ${source} (expected one of: ${PROVIDER_NAMES.join(', ')})`
+    );
+  }
+  return value as ProviderName;
+}
+
+/**
+ * Resolves which provider and model to use for a repository
+ *
+ * Resolution order:
+ * 1. LLM_REPO_OVERRIDES entry for the repository, e.g.
+ *    {"acme/api": {"provider": "anthropic", "model": "claude-opus-4-20250514"}}
+ * 2. LLM_PROVIDER (defaults to openrouter)
+ *
+ * @param repoFullName - "owner/repo" (optional)
+ * @returns Provider selection
+ */
+export function resolveProviderConfig(repoFullName?: string): ProviderConfig {
+  const defaultConfig: ProviderConfig = {
+    provider: parseProviderName(process.env.LLM_PROVIDER || 'openrouter', 'LLM_PROVIDER'),
+  };
+
+  const overridesRaw = process.env.LLM_REPO_OVERRIDES;
+  if (!repoFullName || !overridesRaw) {
+    return defaultConfig;
+  }
+
+  let overrides: Record<string, { provider?: string; model?: string }>;
+  try {
+    overrides = JSON.parse(overridesRaw);
+  } catch (error) {
+    throw new Error(`LLM_REPO_OVERRIDES is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const override = overrides[repoFullName];
+  if (!override) {
+    return defaultConfig;
+  }
+
+  return {
+    provider: override.provider
+      ? parseProviderName(override.provider, `LLM_REPO_OVERRIDES["${repoFullName}"]`)
+      : defaultConfig.provider,
+    model: override.model,
+  };
+}
+
+// ===========================================
+// Provider Factory
+// ===========================================
+
+/**
+ * Provider instances by "provider:model"
+ */
+const providerCache = new Map<string, LLMProvider>();
+
+/**
+ * Creates a provider for the given selection
+ *
+ * @param config - Provider and optional model
+ * @returns Provider instance
+ */
+export function createLLMProvider(config: ProviderConfig): LLMProvider {
+  const model = config.model || getDefaultModel(config.provider);
+
+  switch (config.provider) {
+    case 'anthropic':
+      return new AnthropicProvider({
+        apiKey: process.env.ANTHROPIC_API_KEY,
+        model,
+      });
+
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider({
+        name: 'openai-compatible',
+        baseURL: process.env.LLM_BASE_URL,
+        apiKey: process.env.LLM_API_KEY,
+        model,
+      });
+
+    case 'openrouter':
+    default:
+      return new OpenAICompatibleProvider({
+        name: 'openrouter',
+        baseURL: 'https://openrouter.ai/api/v1',
+        apiKey: process.env.OPENROUTER_API_KEY,
+        model,
+        defaultHeaders: {
+          'HTTP-Referer': process.env.APP_URL || 'http://localhost:3000',
+          'X-Title': 'Agent Workflow Server',
+        },
+      });
+  }
+}
+
+/**
+ * Gets the provider for a repository, reusing cached instances
+ *
+ * @param repoFullName - "owner/repo" (optional)
+ * @param model - Model to use with the resolved provider (e.g. from the
+ *   repository's .github/agent.yml), overriding the configured one
+ * @returns Provider instance
+ */
+export function getLLMProvider(repoFullName?: string, model?: string): LLMProvider {
+  const config = { ...resolveProviderConfig(repoFullName), ...(model && { model }) };
+  const key = `${config.provider}:${config.model || ''}`;
+
+  let provider = providerCache.get(key);
+  if (!provider) {
+    provider = createLLMProvider(config);
+    providerCache.set(key, provider);
+  }
+  return provider;
+}
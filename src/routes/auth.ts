@@ -0,0 +1,65 @@
+/**
+ * ===========================================
+ * Admin API Authentication
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Protect operator endpoints (jobs, runs) with a bearer token
+ *
+ * INPUT:
+ * - ADMIN_API_TOKEN: shared secret; requests send
+ *   `Authorization: Bearer <token>`
+ *
+ * ARCHITECTURE POSITION:
+ * Operator → [THIS] → Admin Routes
+ *
+ * NOTE:
+ * Without ADMIN_API_TOKEN the admin routes are disabled, except in
+ * development, mirroring how webhook signatures are handled.
+ */
+
+import * as crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Compares two tokens in constant time
+ *
+ * Both sides are hashed first so inputs of different length can be
+ * compared without leaking the length.
+ *
+ * @param provided - Token from the request
+ * @param expected - Configured token
+ * @returns true if they match
+ */
+export function tokensMatch(provided: string, expected: string): boolean {
+  const a = crypto.createHash('sha256').update(provided).digest();
+  const b = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Express middleware requiring the admin bearer token
+ */
+export function requireAdminToken(req: Request, res: Response, next: NextFunction): void {
+  const expected = process.env.ADMIN_API_TOKEN;
+
+  if (!expected) {
+    if (process.env.NODE_ENV === 'development') {
+      console.warn('[Auth] ADMIN_API_TOKEN not set - allowing admin request in development');
+      next();
+      return;
+    }
+    res.status(503).json({ error: 'Admin API is disabled (ADMIN_API_TOKEN not set)' });
+    return;
+  }
+
+  const header = req.headers.authorization ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match || !tokensMatch(match[1].trim(), expected)) {
+    console.warn(`[Auth] Rejected admin request: ${req.method} ${req.originalUrl}`);
+    res.status(401).json({ error: 'Invalid or missing bearer token' });
+    return;
+  }
+
+  next();
+}
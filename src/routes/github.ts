@@ -12,21 +12,45 @@
  * INPUT:
  * - GitHub webhook POST requests with event payload
  * - Headers: X-GitHub-Event, X-Hub-Signature-256
+ * - Optional ?dryRun=true on the webhook URL (or DRY_RUN_REPOS) to
+ *   simulate write tools
+ * - /approve and /reject comments answering a paused run
  *
  * OUTPUT:
  * - Acknowledgment response to GitHub (202 Accepted)
- * - Triggers async Agent workflow
+ * - Enqueues the Agent workflow on the shared job queue
  *
  * ARCHITECTURE POSITION:
- * External Trigger → [THIS] → Agent → Skills → Tools
+ * External Trigger → [THIS] → Job Queue → Agent → Skills → Tools
  */
 
-import { Router, Request, Response } from 'express';
-import { runAgent } from '../agent/runAgent';
+import * as crypto from 'crypto';
+import express, { Router, Request, Response, NextFunction } from 'express';
 import { IdempotencyGuard } from '../jobs/IdempotencyGuard';
+import {
+  enqueueAgentJob,
+  findAwaitingApproval,
+  resumeAgentJob,
+  AgentJobMetadata,
+} from '../jobs/agentQueue';
+import { isDryRunRepo, parseDryRunFlag } from '../agent/dryRun';
+import { canApprove, isAutomatedAuthor, parseApprovalCommand } from '../agent/approval';
 
 export const githubRouter = Router();
 
+/**
+ * Parse JSON bodies at the router level so the exact bytes GitHub signed
+ * are kept alongside the parsed payload. Re-serializing req.body does not
+ * reproduce them (key order, whitespace, unicode escapes).
+ */
+githubRouter.use(
+  express.json({
+    verify: (req, _res, buf) => {
+      (req as RawBodyRequest).rawBody = buf;
+    },
+  })
+);
+
 // ===========================================
 // Types
 // ===========================================
@@ -36,6 +60,13 @@ export const githubRouter = Router();
  */
 type GitHubEventType = 'issues' | 'pull_request' | 'issue_comment' | 'push';
 
+/**
+ * Express request carrying the unparsed webhook body
+ */
+interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
 /**
  * Parsed context from GitHub webhook
  */
@@ -46,6 +77,8 @@ interface GitHubContext {
     owner: string;
     name: string;
     fullName: string;
+    /** Where .github/agent.yml is read from (unknown for older jobs) */
+    defaultBranch?: string;
   };
   issue?: {
     number: number;
@@ -59,41 +92,109 @@ interface GitHubContext {
     body: string;
     headBranch: string;
     baseBranch: string;
+    /** Label names (unknown for older jobs) */
+    labels?: string[];
+  };
+  comment?: {
+    id: number;
+    body: string;
+    author: string;
+    authorAssociation: string;
+    url: string;
+    onPullRequest: boolean;
+  };
+  push?: {
+    ref: string;
+    branch?: string;
+    before: string;
+    after: string;
+    created: boolean;
+    deleted: boolean;
+    forced: boolean;
+    compareUrl: string;
+    commits: Array<{
+      id: string;
+      message: string;
+      author: string;
+      url: string;
+      added: string[];
+      modified: string[];
+      removed: string[];
+    }>;
+    changedFiles: string[];
   };
   sender: {
     login: string;
+    /** Account type: 'User', 'Bot' or 'Organization' */
+    type?: string;
   };
   deliveryId: string;
 }
 
 // ===========================================
-// Webhook Signature Validation (Stub)
+// Webhook Signature Validation
 // ===========================================
 
+/**
+ * Gets the configured webhook secrets
+ *
+ * GITHUB_WEBHOOK_SECRET accepts a comma-separated list so a secret can be
+ * rotated without downtime: add the new secret next to the old one, update
+ * the webhook on GitHub, then remove the old secret.
+ *
+ * @returns Non-empty secrets in configured order
+ */
+export function getWebhookSecrets(): string[] {
+  return (process.env.GITHUB_WEBHOOK_SECRET || '')
+    .split(',')
+    .map((secret) => secret.trim())
+    .filter((secret) => secret.length > 0);
+}
+
 /**
  * Validates GitHub webhook signature using HMAC-SHA256
  *
- * @param payload - Raw request body
+ * The signature is checked against every configured secret with a
+ * constant-time comparison. When no secret is configured, requests are
+ * only accepted in development mode.
+ *
+ * @param payload - Raw request body, exactly as received
  * @param signature - X-Hub-Signature-256 header value
+ * @param secrets - Secrets to check against (defaults to env config)
  * @returns true if signature is valid
- *
- * TODO: Implement real signature validation
- * Use crypto.timingSafeEqual with HMAC-SHA256
  */
-function validateWebhookSignature(
-  _payload: string,
-  _signature: string | undefined
+export function validateWebhookSignature(
+  payload: Buffer,
+  signature: string | undefined,
+  secrets: string[] = getWebhookSecrets()
 ): boolean {
-  // STUB: Always returns true in development
-  // TODO: Implement real validation using GITHUB_WEBHOOK_SECRET
-  //
-  // Real implementation:
-  // const hmac = crypto.createHmac('sha256', process.env.GITHUB_WEBHOOK_SECRET!);
-  // const digest = 'sha256=' + hmac.update(payload).digest('hex');
-  // return crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(digest));
-
-  console.log('[GitHub] Webhook signature validation (stub - always passes)');
-  return true;
+  if (secrets.length === 0) {
+    if (process.env.NODE_ENV === 'development') {
+      console.warn('[GitHub] GITHUB_WEBHOOK_SECRET not set - skipping signature validation (development only)');
+      return true;
+    }
+    console.error('[GitHub] GITHUB_WEBHOOK_SECRET not set - rejecting webhook');
+    return false;
+  }
+
+  if (!signature || !signature.startsWith('sha256=')) {
+    return false;
+  }
+
+  const received = Buffer.from(signature, 'utf8');
+
+  for (let i = 0; i < secrets.length; i++) {
+    const digest = 'sha256=' + crypto.createHmac('sha256', secrets[i]).update(payload).digest('hex');
+    const expected = Buffer.from(digest, 'utf8');
+
+    // timingSafeEqual throws on length mismatch, so compare lengths first
+    if (received.length === expected.length && crypto.timingSafeEqual(received, expected)) {
+      console.log(`[GitHub] Webhook signature matched secret #${i + 1} of ${secrets.length}`);
+      return true;
+    }
+  }
+
+  return false;
 }
 
 // ===========================================
@@ -108,7 +209,7 @@ function validateWebhookSignature(
  * @param deliveryId - Unique delivery ID for idempotency
  * @returns Parsed GitHubContext
  */
-function parseGitHubPayload(
+export function parseGitHubPayload(
   eventType: string,
   payload: Record<string, unknown>,
   deliveryId: string
@@ -123,9 +224,11 @@ function parseGitHubPayload(
       owner: (repo?.owner as Record<string, unknown>)?.login as string,
       name: repo?.name as string,
       fullName: repo?.full_name as string,
+      defaultBranch: repo?.default_branch as string | undefined,
     },
     sender: {
       login: sender?.login as string,
+      type: sender?.type as string | undefined,
     },
     deliveryId,
   };
@@ -154,12 +257,127 @@ function parseGitHubPayload(
       body: pr.body as string,
       headBranch: head?.ref as string,
       baseBranch: base?.ref as string,
+      labels: ((pr.labels as Array<Record<string, unknown>>) || []).map((l) => l.name as string),
+    };
+  }
+
+  // Parse comment if present (issue_comment events)
+  if (payload.comment) {
+    const comment = payload.comment as Record<string, unknown>;
+    const issue = payload.issue as Record<string, unknown> | undefined;
+    const user = comment.user as Record<string, unknown>;
+    context.comment = {
+      id: comment.id as number,
+      body: (comment.body as string) || '',
+      author: user?.login as string,
+      authorAssociation: comment.author_association as string,
+      url: comment.html_url as string,
+      // GitHub models PRs as issues; only PR-backed issues carry pull_request
+      onPullRequest: Boolean(issue?.pull_request),
+    };
+  }
+
+  // Parse push details (push events carry no issue, PR or action)
+  if (eventType === 'push') {
+    const ref = (payload.ref as string) || '';
+    const commits = ((payload.commits as Array<Record<string, unknown>>) || []).map((c) => {
+      const author = c.author as Record<string, unknown> | undefined;
+      return {
+        id: c.id as string,
+        message: (c.message as string) || '',
+        author: (author?.username as string) || (author?.name as string),
+        url: c.url as string,
+        added: (c.added as string[]) || [],
+        modified: (c.modified as string[]) || [],
+        removed: (c.removed as string[]) || [],
+      };
+    });
+    const changedFiles = new Set<string>();
+    for (const commit of commits) {
+      [...commit.added, ...commit.modified, ...commit.removed].forEach((f) => changedFiles.add(f));
+    }
+
+    context.action = context.action || 'pushed';
+    context.push = {
+      ref,
+      branch: ref.startsWith('refs/heads/') ? ref.slice('refs/heads/'.length) : undefined,
+      before: (payload.before as string) || '',
+      after: (payload.after as string) || '',
+      created: Boolean(payload.created),
+      deleted: Boolean(payload.deleted),
+      forced: Boolean(payload.forced),
+      compareUrl: payload.compare as string,
+      commits,
+      changedFiles: Array.from(changedFiles),
     };
   }
 
   return context;
 }
 
+// ===========================================
+// Approval Commands
+// ===========================================
+
+/**
+ * Gets the approval command in a newly created issue or PR comment
+ *
+ * @param eventType - GitHub event type
+ * @param context - Parsed webhook context
+ * @returns Thread, author and decision, or null if this is not a command
+ */
+function getApprovalCommand(
+  eventType: string,
+  context: GitHubContext
+): { issueNumber: number; author: string; approved: boolean; reason?: string } | null {
+  const { issue, comment } = context;
+  if (eventType !== 'issue_comment' || context.action !== 'created' || !issue || !comment) {
+    return null;
+  }
+
+  const command = parseApprovalCommand(comment.body);
+  return command && { issueNumber: issue.number, author: comment.author, ...command };
+}
+
+/**
+ * Applies an /approve or /reject comment to the run waiting on its thread
+ *
+ * Comments from bots and from the agent's own account are ignored.
+ *
+ * @param context - Parsed issue_comment context
+ * @param command - Command found by getApprovalCommand()
+ * @returns Outcome reported back to GitHub
+ */
+async function handleApprovalCommand(
+  context: GitHubContext,
+  command: NonNullable<ReturnType<typeof getApprovalCommand>>
+): Promise<{ status: string; jobId?: string }> {
+  const { issueNumber, author: login, ...decision } = command;
+  const thread = `${context.repository.fullName}#${issueNumber}`;
+
+  if (await isAutomatedAuthor({ login, type: context.sender.type })) {
+    console.log(`[GitHub] Ignoring approval command from bot or agent account @${login}`);
+    return { status: 'ignored' };
+  }
+
+  const job = await findAwaitingApproval(context.repository.fullName, issueNumber);
+  if (!job) {
+    console.log(`[GitHub] No run awaiting approval on ${thread}`);
+    return { status: 'no_pending_approval' };
+  }
+
+  if (!(await canApprove(context.repository.owner, context.repository.name, login))) {
+    console.warn(`[GitHub] Ignoring approval command from @${login}: no write access`);
+    return { status: 'forbidden', jobId: job.id };
+  }
+
+  const resumed = await resumeAgentJob(job.id, { ...decision, by: login });
+  return {
+    status: resumed ? (decision.approved ? 'approved' : 'rejected') : 'no_pending_approval',
+    jobId: job.id,
+  };
+}
+
 // ===========================================
 // Route Handler
 // ===========================================
@@ -169,53 +387,81 @@ function parseGitHubPayload(
  *
  * Flow:
  * 1. Validate signature
- * 2. Check idempotency (prevent duplicate processing)
- * 3. Parse payload
- * 4. Delegate to Agent (async)
- * 5. Return 202 Accepted
+ * 2. Parse payload and decide whether this is a dry run; /approve and
+ *    /reject comments resume a paused run instead of starting one
+ * 3. Check idempotency (prevent duplicate processing), storing the
+ *    parsed context so failed runs can be retried later
+ * 4. Return 202 Accepted
+ * 5. Enqueue for the Agent (runs on the worker pool)
+ *
+ * Job store failures (lock timeouts, fs errors) go to the error handler,
+ * which answers 500 so GitHub marks the delivery failed and it can be
+ * redelivered.
  */
-githubRouter.post('/', async (req: Request, res: Response) => {
+githubRouter.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await handleWebhook(req, res);
+  } catch (error) {
+    console.error('[GitHub] Webhook handling failed:', error);
+    if (!res.headersSent) next(error);
+  }
+});
+
+/**
+ * Handles one webhook delivery (see the route above)
+ *
+ * @param req - Webhook request
+ * @param res - Response
+ */
+async function handleWebhook(req: Request, res: Response): Promise<void> {
   const eventType = req.headers['x-github-event'] as string;
   const signature = req.headers['x-hub-signature-256'] as string;
   const deliveryId = req.headers['x-github-delivery'] as string;
 
   console.log(`[GitHub] Received event: ${eventType}, delivery: ${deliveryId}`);
 
-  // Step 1: Validate webhook signature
-  if (!validateWebhookSignature(JSON.stringify(req.body), signature)) {
+  // Step 1: Validate webhook signature against the raw body
+  const rawBody = (req as RawBodyRequest).rawBody ?? Buffer.alloc(0);
+  if (!validateWebhookSignature(rawBody, signature)) {
     console.error('[GitHub] Invalid webhook signature');
     res.status(401).json({ error: 'Invalid signature' });
     return;
   }
 
-  // Step 2: Check idempotency
+  // Step 2: Parse payload into typed context
+  const context = parseGitHubPayload(eventType, req.body, deliveryId);
+  const dryRun = parseDryRunFlag(req.query.dryRun) || isDryRunRepo(context.repository.fullName);
+
+  const command = getApprovalCommand(eventType, context);
+  if (command) {
+    const outcome = await handleApprovalCommand(context, command);
+    res.status(200).json({ deliveryId, ...outcome });
+    return;
+  }
+
+  // Step 3: Check idempotency
   const guard = new IdempotencyGuard();
-  if (await guard.isDuplicate(deliveryId)) {
+  const metadata: AgentJobMetadata = { eventType, context, ...(dryRun && { dryRun }) };
+  if (await guard.isDuplicate(deliveryId, metadata)) {
     console.log(`[GitHub] Duplicate delivery ignored: ${deliveryId}`);
     res.status(200).json({ status: 'duplicate', deliveryId });
     return;
   }
 
-  // Step 3: Parse payload into typed context
-  const context = parseGitHubPayload(eventType, req.body, deliveryId);
+  const leaseId = (await guard.getStatus(deliveryId))?.leaseId;
 
   // Step 4: Acknowledge immediately, process async
   res.status(202).json({
     status: 'accepted',
     deliveryId,
-    message: 'Webhook received, Agent processing started',
+    ...(dryRun && { dryRun }),
+    message: 'Webhook received, Agent processing queued',
   });
 
-  // Step 5: Run Agent asynchronously
-  try {
-    await runAgent(context);
-    await guard.markComplete(deliveryId);
-    console.log(`[GitHub] Agent completed for delivery: ${deliveryId}`);
-  } catch (error) {
-    console.error(`[GitHub] Agent failed for delivery: ${deliveryId}`, error);
-    await guard.markFailed(deliveryId, error as Error);
-  }
-});
+  // Step 5: Hand off to the worker pool (lease renewal and the
+  // complete/failed bookkeeping happen in agentQueue)
+  enqueueAgentJob(context, eventType, { dryRun, leaseId });
+}
 
 /**
  * Supported events endpoint (for documentation)
@@ -0,0 +1,331 @@
+/**
+ * ===========================================
+ * Jobs Route Handler
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Let operators inspect job records ("did the agent handle delivery X?")
+ * - Manually retry or cancel jobs
+ * - Purge expired records
+ *
+ * INPUT:
+ * - Authenticated requests (Authorization: Bearer ADMIN_API_TOKEN)
+ *
+ * OUTPUT:
+ * - JSON job records, summaries and statistics
+ *
+ * ARCHITECTURE POSITION:
+ * Operator → [THIS] → Guard / Agent Queue
+ *
+ * ENDPOINTS:
+ * - GET    /jobs               list (filters: status, repo, event, limit)
+ * - GET    /jobs/stats         guard and queue statistics
+ * - GET    /jobs/:id           full record, including error and attempts
+ * - POST   /jobs/:id/retry     re-run from the stored context
+ * - POST   /jobs/:id/cancel    stop retries, drop it from the queue
+ * - POST   /jobs/:id/approve   approve the tool call a paused job waits for
+ * - POST   /jobs/:id/reject    reject it (body: { "reason": "..." })
+ * - POST   /jobs/purge         delete records older than the TTL
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { defaultGuard, JobRecord, JobStatus } from '../jobs/IdempotencyGuard';
+import {
+  AgentJobMetadata,
+  dequeueAgentJob,
+  enqueueAgentJob,
+  getAgentQueue,
+  getResumeState,
+  resumeAgentJob,
+} from '../jobs/agentQueue';
+import { requireAdminToken } from './auth';
+
+export const jobsRouter = Router();
+
+jobsRouter.use(requireAdminToken);
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Filters accepted by GET /jobs
+ */
+export interface JobFilter {
+  status?: JobStatus;
+  repo?: string;
+  event?: string;
+}
+
+/**
+ * List entry: the record without its stored context
+ */
+export interface JobSummary {
+  id: string;
+  status: JobStatus;
+  repo?: string;
+  eventType?: string;
+  dryRun?: boolean;
+  attempts: number;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+  nextRetryAt?: Date;
+}
+
+const JOB_STATUSES: JobStatus[] = [
+  'pending',
+  'processing',
+  'completed',
+  'failed',
+  'dead_letter',
+  'cancelled',
+  'awaiting_approval',
+];
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 500;
+
+// ===========================================
+// Helpers
+// ===========================================
+
+/**
+ * Reads the Agent metadata stored on a record, if any
+ */
+function getAgentMetadata(record: JobRecord): Partial<AgentJobMetadata> {
+  return (record.metadata ?? {}) as Partial<AgentJobMetadata>;
+}
+
+/**
+ * Builds the list entry for a record
+ *
+ * @param record - Job record
+ * @returns Summary without the stored context
+ */
+export function toJobSummary(record: JobRecord): JobSummary {
+  const metadata = getAgentMetadata(record);
+
+  return {
+    id: record.id,
+    status: record.status,
+    repo: metadata.context?.repository.fullName,
+    eventType: metadata.eventType,
+    dryRun: metadata.dryRun,
+    attempts: record.attempts,
+    error: record.error,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    completedAt: record.completedAt,
+    nextRetryAt: record.nextRetryAt,
+  };
+}
+
+/**
+ * Applies list filters
+ *
+ * @param records - Records to filter
+ * @param filter - Status, repository (owner/repo) and event filters
+ * @returns Matching records, order preserved
+ */
+export function filterJobs(records: JobRecord[], filter: JobFilter): JobRecord[] {
+  return records.filter((record) => {
+    const metadata = getAgentMetadata(record);
+    if (filter.status && record.status !== filter.status) return false;
+    if (filter.repo && metadata.context?.repository.fullName !== filter.repo) return false;
+    if (filter.event && metadata.eventType !== filter.event) return false;
+    return true;
+  });
+}
+
+/**
+ * Reads a single-valued query parameter
+ */
+function queryString(req: Request, name: string): string | undefined {
+  const value = req.query[name];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+// ===========================================
+// Route Handlers
+// ===========================================
+
+// Express 4 does not catch rejected promises, so every handler passes store
+// errors to next() and the error handler in server.ts answers 500
+
+/**
+ * Lists jobs, newest first
+ */
+jobsRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const status = queryString(req, 'status');
+    if (status && !JOB_STATUSES.includes(status as JobStatus)) {
+      res.status(400).json({ error: `Unknown status "${status}"`, allowed: JOB_STATUSES });
+      return;
+    }
+
+    const limit = Number(queryString(req, 'limit') ?? DEFAULT_LIST_LIMIT);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+      res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_LIST_LIMIT}` });
+      return;
+    }
+
+    const matching = filterJobs(await defaultGuard.list(), {
+      status: status as JobStatus | undefined,
+      repo: queryString(req, 'repo'),
+      event: queryString(req, 'event'),
+    });
+
+    res.json({
+      total: matching.length,
+      jobs: matching.slice(0, limit).map(toJobSummary),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Job and queue statistics
+ */
+jobsRouter.get('/stats', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({
+      jobs: await defaultGuard.getStats(),
+      queue: getAgentQueue().getStats(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Deletes records older than the guard's TTL
+ */
+jobsRouter.post('/purge', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const removed = await defaultGuard.cleanup();
+    res.json({ removed });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Full job record
+ */
+jobsRouter.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const record = await defaultGuard.getStatus(req.params.id);
+    if (!record) {
+      res.status(404).json({ error: `Job not found: ${req.params.id}` });
+      return;
+    }
+
+    res.json(record);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Re-runs a failed, dead-lettered or cancelled job from its stored context
+ * (or from its last approved pause)
+ */
+jobsRouter.post('/:id/retry', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const jobId = req.params.id;
+    const record = await defaultGuard.getStatus(jobId);
+    if (!record) {
+      res.status(404).json({ error: `Job not found: ${jobId}` });
+      return;
+    }
+
+    const { context, eventType, dryRun } = getAgentMetadata(record);
+    if (!context || !eventType) {
+      res.status(409).json({ error: 'Job has no stored context to retry from' });
+      return;
+    }
+
+    // A cancelled run keeps going until it finishes; a second copy under the
+    // same ID would share its queue slot and job record
+    if (getAgentQueue().isActive(jobId)) {
+      res.status(409).json({ error: 'Job is still running; retry once it has stopped' });
+      return;
+    }
+
+    if (!(await defaultGuard.retry(jobId))) {
+      res.status(409).json({ error: `Job cannot be retried while ${record.status}` });
+      return;
+    }
+
+    console.log(`[Jobs] Manual retry queued for job: ${jobId}`);
+    const leaseId = (await defaultGuard.getStatus(jobId))?.leaseId;
+    enqueueAgentJob(context, eventType, { dryRun, resume: getResumeState(record), leaseId });
+    res.status(202).json({ status: 'queued', id: jobId });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Cancels a job: no further retries, and it leaves the queue if still waiting
+ */
+jobsRouter.post('/:id/cancel', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const jobId = req.params.id;
+    const record = await defaultGuard.getStatus(jobId);
+    if (!record) {
+      res.status(404).json({ error: `Job not found: ${jobId}` });
+      return;
+    }
+
+    if (!(await defaultGuard.cancel(jobId))) {
+      res.status(409).json({ error: `Job cannot be cancelled while ${record.status}` });
+      return;
+    }
+
+    const dequeued = dequeueAgentJob(jobId);
+    console.log(`[Jobs] Cancelled job: ${jobId}${dequeued ? ' (removed from queue)' : ''}`);
+    res.json({ status: 'cancelled', id: jobId, dequeued });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Decides a job awaiting approval and queues the resumed run
+ *
+ * @param approved - true for /approve, false for /reject
+ */
+function decideApproval(approved: boolean) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const jobId = req.params.id;
+      const record = await defaultGuard.getStatus(jobId);
+      if (!record) {
+        res.status(404).json({ error: `Job not found: ${jobId}` });
+        return;
+      }
+
+      const body = (req.body ?? {}) as { by?: unknown; reason?: unknown };
+      const by = typeof body.by === 'string' && body.by !== '' ? body.by : 'admin-api';
+      const reason =
+        typeof body.reason === 'string' && body.reason !== '' ? body.reason : undefined;
+
+      if (!(await resumeAgentJob(jobId, { approved, by, reason }))) {
+        res.status(409).json({ error: `Job is not awaiting approval (status: ${record.status})` });
+        return;
+      }
+
+      console.log(`[Jobs] Job ${jobId} ${approved ? 'approved' : 'rejected'} by ${by}`);
+      res.status(202).json({ status: approved ? 'approved' : 'rejected', id: jobId });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+jobsRouter.post('/:id/approve', decideApproval(true));
+jobsRouter.post('/:id/reject', decideApproval(false));
@@ -0,0 +1,104 @@
+/**
+ * ===========================================
+ * Runs Route Handler
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Serve recorded Agent run transcripts by job ID
+ * - Replay a recorded run offline against the current code
+ *
+ * INPUT:
+ * - Authenticated requests (Authorization: Bearer ADMIN_API_TOKEN)
+ *
+ * OUTPUT:
+ * - JobTranscript: every run of the job with its system prompt,
+ *   selected skills, LLM calls, tool calls and final answer
+ * - Replay reports (divergences from the recording)
+ *
+ * ARCHITECTURE POSITION:
+ * Operator → [THIS] → TranscriptStore / Replay
+ *
+ * ENDPOINTS:
+ * - GET  /runs/:id          all runs of a job (?attempt=latest for the last one only)
+ * - POST /runs/:id/replay   replay a run (?attempt=N, 1-based; default latest)
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { getDefaultTranscriptStore } from '../runs/TranscriptStore';
+import { replayRun } from '../agent/replay';
+import { requireAdminToken } from './auth';
+
+export const runsRouter = Router();
+
+runsRouter.use(requireAdminToken);
+
+/**
+ * Transcript of a job's runs
+ */
+runsRouter.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const transcript = await getDefaultTranscriptStore().get(req.params.id);
+    if (!transcript) {
+      res.status(404).json({ error: `No runs recorded for job: ${req.params.id}` });
+      return;
+    }
+
+    if (req.query.attempt === 'latest') {
+      res.json({ jobId: transcript.jobId, runs: transcript.runs.slice(-1) });
+      return;
+    }
+
+    res.json(transcript);
+  } catch (error) {
+    // Express 4 does not catch rejected promises; store errors become a 500
+    next(error);
+  }
+});
+
+/**
+ * Replays a recorded run with the recorded LLM responses and tool results
+ */
+runsRouter.post('/:id/replay', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const transcript = await getDefaultTranscriptStore().get(req.params.id);
+    if (!transcript || transcript.runs.length === 0) {
+      res.status(404).json({ error: `No runs recorded for job: ${req.params.id}` });
+      return;
+    }
+
+    const attemptParam = req.query.attempt;
+    const attempt =
+      attemptParam === undefined || attemptParam === 'latest'
+        ? transcript.runs.length
+        : Number(attemptParam);
+    const run = Number.isInteger(attempt) ? transcript.runs[attempt - 1] : undefined;
+    if (!run) {
+      res.status(400).json({
+        error: `attempt must be "latest" or an integer between 1 and ${transcript.runs.length}`,
+      });
+      return;
+    }
+
+    if (!run.context) {
+      res.status(409).json({ error: 'Run has no recorded context to replay' });
+      return;
+    }
+
+    const report = await replayRun(run);
+    res.json({
+      jobId: run.jobId,
+      runId: run.runId,
+      attempt,
+      matches: report.matches,
+      divergences: report.divergences,
+      result: {
+        success: report.result.success,
+        completedSteps: report.result.completedSteps,
+        error: report.result.error,
+      },
+    });
+  } catch (error) {
+    // A replay that throws (or a store error) becomes a 500, not a crash
+    next(error);
+  }
+});
@@ -0,0 +1,109 @@
+/**
+ * ===========================================
+ * File-Backed Transcript Store
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Persist run transcripts as JSON files in a local directory
+ *
+ * ARCHITECTURE POSITION:
+ * Recorder → TranscriptStore → [THIS] → Disk
+ *
+ * LAYOUT:
+ * One file per job: <dir>/<encoded job id>.json, holding all its runs.
+ * Writes go to a temp file first and are renamed into place. Only the
+ * worker that claimed a job records its runs, so there is no locking.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { JobTranscript, RunTranscript } from './TranscriptRecorder';
+import { TranscriptStore, upsertRun } from './TranscriptStore';
+
+/**
+ * Directory-backed TranscriptStore
+ */
+export class FileTranscriptStore implements TranscriptStore {
+  private dir: string;
+  private ready: Promise<void> | null = null;
+
+  /**
+   * Creates a file store (the directory is created on first use)
+   *
+   * @param dir - Directory holding transcript files
+   */
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async saveRun(run: RunTranscript): Promise<void> {
+    await this.ensureDir();
+
+    const target = this.filePath(run.jobId);
+    const updated = upsertRun(await this.get(run.jobId), run);
+    const temp = `${target}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+
+    await fs.promises.writeFile(temp, JSON.stringify(updated, null, 2), 'utf8');
+    await fs.promises.rename(temp, target);
+  }
+
+  async get(jobId: string): Promise<JobTranscript | undefined> {
+    await this.ensureDir();
+    try {
+      const raw = await fs.promises.readFile(this.filePath(jobId), 'utf8');
+      return JSON.parse(raw) as JobTranscript;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async listStale(before: Date): Promise<string[]> {
+    await this.ensureDir();
+    const stale: string[] = [];
+
+    // The file's mtime is the last save, so nothing has to be parsed
+    for (const file of await fs.promises.readdir(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        const stats = await fs.promises.stat(path.join(this.dir, file));
+        if (stats.mtimeMs < before.getTime()) {
+          stale.push(decodeURIComponent(file.slice(0, -'.json'.length)));
+        }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    }
+
+    return stale;
+  }
+
+  async delete(jobId: string): Promise<boolean> {
+    await this.ensureDir();
+    try {
+      await fs.promises.unlink(this.filePath(jobId));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Creates the store directory once
+   */
+  private ensureDir(): Promise<void> {
+    if (!this.ready) {
+      this.ready = fs.promises.mkdir(this.dir, { recursive: true }).then(() => undefined);
+    }
+    return this.ready;
+  }
+
+  /**
+   * Maps a job ID to its file (IDs are encoded to stay filesystem-safe)
+   */
+  private filePath(jobId: string): string {
+    return path.join(this.dir, `${encodeURIComponent(jobId)}.json`);
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * ===========================================
+ * In-Memory Transcript Store
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Keep run transcripts in a Map for tests and local experiments
+ *
+ * ARCHITECTURE POSITION:
+ * Recorder → TranscriptStore → [THIS]
+ *
+ * NOTE:
+ * Transcripts are lost on restart.
+ */
+
+import { JobTranscript, RunTranscript } from './TranscriptRecorder';
+import { TranscriptStore, upsertRun } from './TranscriptStore';
+
+/**
+ * Map-backed TranscriptStore
+ *
+ * Transcripts are copied on the way in and out so callers cannot
+ * mutate stored state.
+ */
+export class MemoryTranscriptStore implements TranscriptStore {
+  private transcripts = new Map<string, string>();
+  private savedAt = new Map<string, number>();
+
+  async saveRun(run: RunTranscript): Promise<void> {
+    const updated = upsertRun(await this.get(run.jobId), run);
+    this.transcripts.set(run.jobId, JSON.stringify(updated));
+    this.savedAt.set(run.jobId, Date.now());
+  }
+
+  async get(jobId: string): Promise<JobTranscript | undefined> {
+    const stored = this.transcripts.get(jobId);
+    return stored ? (JSON.parse(stored) as JobTranscript) : undefined;
+  }
+
+  async listStale(before: Date): Promise<string[]> {
+    return [...this.savedAt]
+      .filter(([, savedAt]) => savedAt < before.getTime())
+      .map(([jobId]) => jobId);
+  }
+
+  async delete(jobId: string): Promise<boolean> {
+    this.savedAt.delete(jobId);
+    return this.transcripts.delete(jobId);
+  }
+}
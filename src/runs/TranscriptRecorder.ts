@@ -0,0 +1,303 @@
+/**
+ * ===========================================
+ * Transcript Recorder
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Capture everything an Agent run saw and did: system prompt, selected
+ *   skills, each LLM call, each tool call, the final answer
+ * - Save it under the job ID so "why did the agent comment that?" can
+ *   be answered after the fact
+ *
+ * INPUT:
+ * - Events reported by runAgent
+ *
+ * OUTPUT:
+ * - RunTranscript records in the TranscriptStore
+ *
+ * ARCHITECTURE POSITION:
+ * Agent → [THIS: Recorder] → TranscriptStore → Disk / Memory
+ *
+ * KEY CONCEPT:
+ * LLM requests are append-only (each one sends the previous messages
+ * plus new ones), so the transcript stores the conversation once in
+ * `messages` and each LLM event records how many of those messages it
+ * sent. Context compaction breaks that by rewriting earlier tool results,
+ * so before each compaction the events recorded so far get a copy of
+ * the messages they actually sent. The transcript is saved after every
+ * iteration, so a run that crashes still leaves a partial record behind.
+ */
+
+import * as crypto from 'crypto';
+import { AgentContext } from '../agent/runAgent';
+import { PlannedAction } from '../agent/dryRun';
+import { RunUsage } from '../agent/budget';
+import { RepoConfig } from '../agent/repoConfig';
+import { LLMMessage, LLMResponse } from '../llm/provider';
+import { TranscriptStore, getDefaultTranscriptStore } from './TranscriptStore';
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * One LLM round trip
+ */
+export interface LLMCallEvent {
+  type: 'llm';
+  iteration: number;
+  at: string;
+  durationMs: number;
+
+  /** Number of leading `messages` sent with this request */
+  messageCount: number;
+
+  /**
+   * Messages sent with this request, set when a later compaction rewrote
+   * them; otherwise they are the first `messageCount` of `messages`
+   */
+  messages?: LLMMessage[];
+
+  /** Tools offered with this request */
+  toolNames: string[];
+
+  response: LLMResponse;
+}
+
+/**
+ * One tool execution
+ */
+export interface ToolCallEvent {
+  type: 'tool';
+  iteration: number;
+  at: string;
+  durationMs: number;
+  toolCallId: string;
+  name: string;
+  input: Record<string, unknown>;
+
+  /** Content returned to the model */
+  result: string;
+  isError: boolean;
+}
+
+/**
+ * Transcript entry
+ */
+export type TranscriptEvent = LLMCallEvent | ToolCallEvent;
+
+/**
+ * Everything recorded about one Agent run (one attempt of a job)
+ */
+export interface RunTranscript {
+  runId: string;
+  jobId: string;
+  status: 'running' | 'completed' | 'failed' | 'awaiting_approval' | 'ignored';
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+
+  /** Trigger context, with changed files already resolved */
+  context?: AgentContext;
+
+  /** The repository's .github/agent.yml as applied to the run */
+  repoConfig?: RepoConfig;
+
+  provider?: { name: string; model: string };
+  systemPrompt?: string;
+  skills: string[];
+  allowedTools: string[];
+
+  /** Full conversation (user, assistant and tool messages) */
+  messages: LLMMessage[];
+
+  /** LLM and tool events in order */
+  events: TranscriptEvent[];
+
+  finalAnswer?: string;
+  completedSteps: string[];
+  error?: string;
+
+  /** true when write tools were simulated */
+  dryRun?: boolean;
+
+  /** Simulated write tool calls (dry runs only) */
+  plannedActions?: PlannedAction[];
+
+  /** Tokens and cost of the run's LLM calls */
+  usage?: RunUsage;
+}
+
+/**
+ * All runs recorded for a job, oldest first
+ */
+export interface JobTranscript {
+  jobId: string;
+  runs: RunTranscript[];
+}
+
+// ===========================================
+// TranscriptRecorder Class
+// ===========================================
+
+/**
+ * Collects one run's transcript and saves it as the run progresses
+ *
+ * Saving never fails the run: storage errors are logged and dropped.
+ *
+ * Usage:
+ * ```typescript
+ * const recorder = new TranscriptRecorder(deliveryId);
+ * await runAgent(context, { transcript: recorder });
+ * ```
+ */
+export class TranscriptRecorder {
+  private store: TranscriptStore;
+  private transcript: RunTranscript;
+  private startedMs = Date.now();
+
+  /**
+   * Creates a recorder for one run of a job
+   *
+   * @param jobId - Job identifier (the delivery ID)
+   * @param store - Where transcripts are saved
+   */
+  constructor(jobId: string, store: TranscriptStore = getDefaultTranscriptStore()) {
+    this.store = store;
+    this.transcript = {
+      runId: crypto.randomUUID(),
+      jobId,
+      status: 'running',
+      startedAt: new Date(this.startedMs).toISOString(),
+      skills: [],
+      allowedTools: [],
+      messages: [],
+      events: [],
+      completedSteps: [],
+    };
+  }
+
+  /**
+   * Records the run setup
+   *
+   * @param setup - Context, repository configuration, provider, system prompt,
+   *   selected skills, allowed tools and whether this is a dry run (a run the
+   *   repository ignores stops before it has a provider or system prompt)
+   */
+  start(setup: {
+    context: AgentContext;
+    repoConfig?: RepoConfig;
+    provider?: { name: string; model: string };
+    systemPrompt?: string;
+    skills: string[];
+    allowedTools: string[];
+    dryRun?: boolean;
+  }): void {
+    Object.assign(this.transcript, setup);
+  }
+
+  /**
+   * Records an LLM round trip
+   *
+   * @param event - Call details (type and timestamp are filled in)
+   */
+  recordLLMCall(event: Omit<LLMCallEvent, 'type' | 'at'>): void {
+    this.transcript.events.push({ type: 'llm', at: new Date().toISOString(), ...event });
+  }
+
+  /**
+   * Records a tool execution
+   *
+   * @param event - Call details (type and timestamp are filled in)
+   */
+  recordToolCall(event: Omit<ToolCallEvent, 'type' | 'at'>): void {
+    this.transcript.events.push({ type: 'tool', at: new Date().toISOString(), ...event });
+  }
+
+  /**
+   * Keeps the messages of the LLM calls so far before compaction rewrites them
+   *
+   * @param messages - Conversation as it is before compacting
+   */
+  recordCompaction(messages: LLMMessage[]): void {
+    for (const event of this.transcript.events) {
+      if (event.type === 'llm' && !event.messages) {
+        // Compaction replaces messages instead of editing them, so a shallow copy is enough
+        event.messages = messages.slice(0, event.messageCount);
+      }
+    }
+  }
+
+  /**
+   * Saves the transcript so far
+   *
+   * @param messages - Current conversation
+   * @param completedSteps - Steps completed so far
+   */
+  async checkpoint(messages: LLMMessage[], completedSteps: string[]): Promise<void> {
+    this.transcript.messages = [...messages];
+    this.transcript.completedSteps = [...completedSteps];
+    await this.save();
+  }
+
+  /**
+   * Records the outcome and saves the final transcript
+   *
+   * @param outcome - Final state of the run
+   */
+  async finish(outcome: {
+    success: boolean;
+    /** The run stopped for approval; a resumed run is recorded separately */
+    awaitingApproval?: boolean;
+    /** The repository's configuration ignores the trigger; nothing ran */
+    ignored?: boolean;
+    messages: LLMMessage[];
+    completedSteps: string[];
+    finalAnswer?: string;
+    error?: string;
+    plannedActions?: PlannedAction[];
+    usage?: RunUsage;
+  }): Promise<void> {
+    const finishedMs = Date.now();
+
+    Object.assign(this.transcript, {
+      status: !outcome.success
+        ? 'failed'
+        : outcome.awaitingApproval
+          ? 'awaiting_approval'
+          : outcome.ignored
+            ? 'ignored'
+            : 'completed',
+      finishedAt: new Date(finishedMs).toISOString(),
+      durationMs: finishedMs - this.startedMs,
+      messages: [...outcome.messages],
+      completedSteps: [...outcome.completedSteps],
+      finalAnswer: outcome.finalAnswer,
+      error: outcome.error,
+      plannedActions: outcome.plannedActions && [...outcome.plannedActions],
+      usage: outcome.usage && { ...outcome.usage },
+    });
+
+    await this.save();
+  }
+
+  /**
+   * Gets the transcript recorded so far
+   *
+   * @returns Run transcript
+   */
+  getTranscript(): RunTranscript {
+    return this.transcript;
+  }
+
+  /**
+   * Writes the transcript, logging instead of throwing on failure
+   */
+  private async save(): Promise<void> {
+    try {
+      await this.store.saveRun(this.transcript);
+    } catch (error) {
+      console.error(`[Transcript] Failed to save run ${this.transcript.runId}:`, error);
+    }
+  }
+}
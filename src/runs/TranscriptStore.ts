@@ -0,0 +1,132 @@
+/**
+ * ===========================================
+ * Transcript Store
+ * ===========================================
+ *
+ * RESPONSIBILITIES:
+ * - Define the storage interface for run transcripts
+ * - Select the storage backend from environment configuration
+ *
+ * INPUT:
+ * - TRANSCRIPT_STORE: 'file' (default) or 'memory'
+ * - TRANSCRIPT_STORE_PATH: directory for the file backend (default ./data/runs)
+ *
+ * OUTPUT:
+ * - A shared TranscriptStore instance
+ *
+ * ARCHITECTURE POSITION:
+ * Recorder / Runs Route → [THIS: Transcript Store] → Disk / Memory
+ */
+
+import * as path from 'path';
+import { JobTranscript, RunTranscript } from './TranscriptRecorder';
+import { MemoryTranscriptStore } from './MemoryTranscriptStore';
+import { FileTranscriptStore } from './FileTranscriptStore';
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Persistence backend for run transcripts
+ */
+export interface TranscriptStore {
+  /**
+   * Inserts or replaces a run (matched by runId) in its job's transcript
+   *
+   * @param run - Run transcript
+   */
+  saveRun(run: RunTranscript): Promise<void>;
+
+  /**
+   * Gets every recorded run of a job
+   *
+   * @param jobId - Job identifier
+   * @returns Transcript or undefined if nothing was recorded
+   */
+  get(jobId: string): Promise<JobTranscript | undefined>;
+
+  /**
+   * Lists jobs whose transcript was last written before a given time
+   *
+   * @param before - Cutoff time
+   * @returns Job identifiers
+   */
+  listStale(before: Date): Promise<string[]>;
+
+  /**
+   * Deletes every recorded run of a job
+   *
+   * @param jobId - Job identifier
+   * @returns true if a transcript was deleted
+   */
+  delete(jobId: string): Promise<boolean>;
+}
+
+// ===========================================
+// Backend Selection
+// ===========================================
+
+/**
+ * Supported backends
+ */
+export type TranscriptStoreType = 'memory' | 'file';
+
+/**
+ * Creates a transcript store from environment configuration
+ *
+ * Defaults to the file backend; tests (NODE_ENV=test) default to memory.
+ *
+ * @returns New TranscriptStore instance
+ */
+export function createTranscriptStore(): TranscriptStore {
+  const defaultType: TranscriptStoreType = process.env.NODE_ENV === 'test' ? 'memory' : 'file';
+  const type = (process.env.TRANSCRIPT_STORE || defaultType) as TranscriptStoreType;
+
+  switch (type) {
+    case 'memory':
+      console.log('[TranscriptStore] Using in-memory transcript store');
+      return new MemoryTranscriptStore();
+
+    case 'file': {
+      const dir = path.resolve(process.env.TRANSCRIPT_STORE_PATH || './data/runs');
+      console.log(`[TranscriptStore] Using file transcript store: ${dir}`);
+      return new FileTranscriptStore(dir);
+    }
+
+    default:
+      throw new Error(`Unknown TRANSCRIPT_STORE "${type}" (expected "memory" or "file")`);
+  }
+}
+
+/**
+ * Shared store, created on first use
+ */
+let defaultStore: TranscriptStore | null = null;
+
+/**
+ * Gets the shared transcript store
+ *
+ * @returns Shared TranscriptStore
+ */
+export function getDefaultTranscriptStore(): TranscriptStore {
+  if (!defaultStore) {
+    defaultStore = createTranscriptStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Inserts or replaces a run in a job transcript
+ *
+ * @param transcript - Existing transcript, if any
+ * @param run - Run to save
+ * @returns Updated transcript
+ */
+export function upsertRun(transcript: JobTranscript | undefined, run: RunTranscript): JobTranscript {
+  const runs = (transcript?.runs ?? []).filter((r) => r.runId !== run.runId);
+  runs.push(run);
+  runs.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+
+  return { jobId: run.jobId, runs };
+}
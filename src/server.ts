@@ -17,21 +17,38 @@
 import express, { Application, Request, Response } from 'express';
 import dotenv from 'dotenv';
 import { githubRouter } from './routes/github';
+import { jobsRouter } from './routes/jobs';
+import { runsRouter } from './routes/runs';
+import { initSkillRegistry } from './agent/skillPolicy';
+import { defaultGuard } from './jobs/IdempotencyGuard';
+import { getAgentQueue, retryDueJobs, cleanupFinishedJobs } from './jobs/agentQueue';
 
 // ===========================================
 // Constants
 // ===========================================
 const APP_VERSION = '1.0.0';
+const JOB_RECOVERY_INTERVAL_MS = 2 * 60 * 1000;
+const JOB_RETRY_INTERVAL_MS = 5 * 1000;
+const JOB_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
 
 // Load environment variables
 dotenv.config();
 
+// Build the skill registry up front: invalid SKILL.md front-matter
+// should stop the boot, not surface on the first webhook
+initSkillRegistry();
+
 const app: Application = express();
 const PORT = process.env.PORT || 3000;
 
 // ===========================================
 // Middleware
 // ===========================================
+
+// GitHub webhooks parse their own body (signature check needs the raw
+// bytes), so the router is mounted before the global JSON parser
+app.use('/webhooks/github', githubRouter);
+
 app.use(express.json());
 
 // ===========================================
@@ -42,6 +59,7 @@ app.get('/health', (_req: Request, res: Response) => {
     status: 'ok',
     timestamp: new Date().toISOString(),
     version: APP_VERSION,
+    queue: getAgentQueue().getStats(),
   });
 });
 
@@ -49,8 +67,14 @@ app.get('/health', (_req: Request, res: Response) => {
 // External Trigger Routes
 // ===========================================
 
-// GitHub webhook triggers (issues, PRs, etc.)
-app.use('/webhooks/github', githubRouter);
+// GitHub webhook triggers (issues, PRs, etc.) are mounted above,
+// ahead of the JSON body parser
+
+// ===========================================
+// Admin Routes (Bearer ADMIN_API_TOKEN)
+// ===========================================
+app.use('/jobs', jobsRouter);
+app.use('/runs', runsRouter);
 
 // TODO: Add more trigger routes as needed
 // app.use('/webhooks/slack', slackRouter);
@@ -67,6 +91,35 @@ app.use((err: Error, _req: Request, res: Response, _next: unknown) => {
   });
 });
 
+// ===========================================
+// Job Recovery, Retries & Cleanup
+// ===========================================
+
+// Jobs whose worker crashed keep status 'processing' until their lease
+// (5 minutes) runs out; this sweep marks them failed so they can be retried
+setInterval(() => {
+  defaultGuard.recoverExpired().catch((error) => {
+    console.error('[Server] Job recovery sweep failed:', error);
+  });
+}, JOB_RECOVERY_INTERVAL_MS).unref();
+
+// Failed jobs are re-run from their stored context once their backoff
+// delay has passed, without waiting for GitHub to redeliver. The store
+// is only read when a known retry is due (see getDueRetries)
+setInterval(() => {
+  retryDueJobs().catch((error) => {
+    console.error('[Server] Job retry scheduler failed:', error);
+  });
+}, JOB_RETRY_INTERVAL_MS).unref();
+
+// Finished jobs and their transcripts are removed after the TTL, so
+// data/jobs and data/runs do not grow without bound
+setInterval(() => {
+  cleanupFinishedJobs().catch((error) => {
+    console.error('[Server] Job cleanup failed:', error);
+  });
+}, JOB_CLEANUP_INTERVAL_MS).unref();
+
 // ===========================================
 // Start Server
 // ===========================================
@@ -243,6 +243,51 @@ export async function createComment(input: {
   };
 }
 
+// ===========================================
+// Collaborator Operations
+// ===========================================
+
+/**
+ * Repository permission levels, lowest to highest
+ */
+export type GitHubPermission = 'none' | 'read' | 'triage' | 'write' | 'maintain' | 'admin';
+
+/**
+ * Gets a user's permission level on a repository
+ *
+ * @param input.owner - Repository owner
+ * @param input.repo - Repository name
+ * @param input.username - GitHub login
+ * @returns Permission level ('none' for users without access)
+ *
+ * API: GET /repos/{owner}/{repo}/collaborators/{username}/permission
+ */
+export async function getCollaboratorPermission(input: {
+  owner: string;
+  repo: string;
+  username: string;
+}): Promise<GitHubPermission> {
+  console.log(
+    `[GitHub Tool] getCollaboratorPermission: ${input.owner}/${input.repo} @${input.username}`
+  );
+
+  const url = `${GITHUB_API_BASE}/repos/${input.owner}/${input.repo}/collaborators/${input.username}/permission`;
+
+  interface PermissionResponse {
+    permission: string;
+    role_name?: string;
+  }
+
+  const data = await githubFetch<PermissionResponse>(url, {}, true);
+
+  // role_name carries the fine-grained roles (triage, maintain) that
+  // `permission` folds into read/write
+  const role = (data.role_name ?? data.permission) as GitHubPermission;
+  return ['none', 'read', 'triage', 'write', 'maintain', 'admin'].includes(role)
+    ? role
+    : (data.permission as GitHubPermission);
+}
+
 // ===========================================
 // Pull Request Operations
 // ===========================================
@@ -647,6 +692,25 @@ export function validateCredentials(): boolean {
   return true;
 }
 
+/**
+ * Gets the account GITHUB_TOKEN authenticates as
+ *
+ * @returns Login and account type ('User' or 'Bot')
+ *
+ * API: GET /user
+ */
+export async function getAuthenticatedUser(): Promise<{ login: string; type: string }> {
+  console.log('[GitHub Tool] getAuthenticatedUser');
+
+  interface UserResponse {
+    login: string;
+    type: string;
+  }
+
+  const data = await githubFetch<UserResponse>(`${GITHUB_API_BASE}/user`, {}, true);
+  return { login: data.login, type: data.type };
+}
+
 /**
  * Gets the current rate limit status
  *
@@ -743,6 +807,8 @@ export async function getPullRequest(input: {
 /**
  * Lists files changed in a pull request
  *
+ * Follows pagination up to GitHub's limit of 3000 files per PR.
+ *
  * @param input.owner - Repository owner
  * @param input.repo - Repository name
  * @param input.pullNumber - Pull request number
@@ -757,8 +823,21 @@ export async function listPullRequestFiles(input: {
 }): Promise<GitHubPullRequestFile[]> {
   console.log(`[GitHub Tool] listPullRequestFiles: ${input.owner}/${input.repo}#${input.pullNumber}`);
 
-  const url = `${GITHUB_API_BASE}/repos/${input.owner}/${input.repo}/pulls/${input.pullNumber}/files`;
-  const data = await githubFetch<GitHubPullRequestFile[]>(url);
+  const PER_PAGE = 100;
+  const MAX_PAGES = 30;
+  const data: GitHubPullRequestFile[] = [];
+
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    const url = new URL(
+      `${GITHUB_API_BASE}/repos/${input.owner}/${input.repo}/pulls/${input.pullNumber}/files`
+    );
+    url.searchParams.set('per_page', String(PER_PAGE));
+    url.searchParams.set('page', String(page));
+
+    const pageData = await githubFetch<GitHubPullRequestFile[]>(url.toString());
+    data.push(...pageData);
+    if (pageData.length < PER_PAGE) break;
+  }
 
   console.log(`[GitHub Tool] Found ${data.length} changed files`);
   return data.map((file) => ({